@@ -0,0 +1,30 @@
+import { can } from '../shared/permissions';
+import type { AckError } from '../shared/socket-events';
+import { db } from './firebase';
+import { loadActor } from './roles';
+import type { SocketUser } from './types';
+
+// Membership is recorded on the user as followedCommunities (see FeedPage).
+async function isMember(uid: string, communityId: string): Promise<boolean> {
+  const snap = await db.collection('users').doc(uid).get();
+  const followed = snap.exists ? snap.get('followedCommunities') : null;
+  return Array.isArray(followed) && followed.includes(communityId);
+}
+
+// Resolves to null when the user may join (or write to) the community, or an
+// error code otherwise.
+// Communities are public unless they set `public: false`; private ones are
+// open to their moderators and to users who follow them.
+export async function checkCommunityAccess(
+  user: SocketUser | null,
+  communityId: string,
+): Promise<Extract<AckError, 'not-found' | 'inactive' | 'join-denied'> | null> {
+  const snap = await db.collection('communities').doc(communityId).get();
+  if (!snap.exists) return 'not-found';
+  const community = snap.data() as { isActive?: boolean; public?: boolean };
+  if (community.isActive !== true) return 'inactive';
+  if (community.public !== false) return null;
+  if (!user) return 'join-denied';
+  if (can(await loadActor(user, communityId), 'content:moderate', { communityId })) return null;
+  return (await isMember(user.uid, communityId)) ? null : 'join-denied';
+}
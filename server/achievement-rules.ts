@@ -0,0 +1,165 @@
+import {
+  MAX_RULES_PER_COMMUNITY,
+  changesCriteria,
+  matchesEvent,
+  validateRule,
+  windowKey,
+  type AchievementRule,
+  type RuleEvent,
+  type RuleInput,
+} from '../shared/achievement-rules';
+import { can } from '../shared/permissions';
+import type { AckError, AckResult } from '../shared/socket-events';
+import type { Writer } from './achievements';
+import { reply } from './ack';
+import { requireUser } from './auth';
+import { admin, db } from './firebase';
+import { loadActor } from './roles';
+import type { RealtimeSocket, SocketUser } from './types';
+
+const { FieldValue, Timestamp } = admin.firestore;
+
+// Community achievement rules (see shared/achievement-rules.ts). Admins save
+// and delete them through the events below; content.ts counts each write
+// towards the matching rules with recordRuleActivity, in the write's own
+// transaction, and achievements.ts unlocks the rules whose counts reached
+// their threshold.
+//
+// Counts live in users/{uid}/ruleProgress/{communityId}_{ruleId}_{window}.
+
+// Rules are read on every write in the community, so each node keeps them
+// this long. Saves and deletes on this node take effect at once; on others
+// within the TTL.
+const CACHE_TTL_MS = 30 * 1000;
+
+class RuleError extends Error {
+  code: AckError;
+
+  constructor(code: AckError) {
+    super(code);
+    this.code = code;
+  }
+}
+
+function rulesRef(communityId: string) {
+  return db.collection('communities').doc(communityId).collection('achievementRules');
+}
+
+export function progressRef(uid: string, rule: AchievementRule, key: string) {
+  return db.collection('users').doc(uid).collection('ruleProgress').doc(`${rule.communityId}_${rule.id}_${key}`);
+}
+
+function toRule(snap: FirebaseFirestore.DocumentSnapshot): AchievementRule | null {
+  const checked = validateRule(snap.data());
+  if (!checked.ok) {
+    console.warn('[achievement-rules] ignoring invalid rule', snap.ref.path, checked.problems);
+    return null;
+  }
+  return { ...checked.rule, id: snap.id, communityId: snap.ref.parent.parent!.id, createdBy: snap.get('createdBy') ?? '' };
+}
+
+const cache = new Map<string, { expires: number; rules: Promise<AchievementRule[]> }>();
+
+// The community's enabled rules
+export function rulesFor(communityId: string): Promise<AchievementRule[]> {
+  const hit = cache.get(communityId);
+  if (hit && hit.expires > Date.now()) return hit.rules;
+  const rules = rulesRef(communityId).where('enabled', '==', true).get()
+    .then((snap) => snap.docs.map(toRule).filter((r): r is AchievementRule => r !== null));
+  cache.set(communityId, { expires: Date.now() + CACHE_TTL_MS, rules });
+  // A failed read is not cached
+  rules.catch(() => cache.delete(communityId));
+  return rules;
+}
+
+// Adds delta to the user's count for every rule the event matches, in the
+// rule's current window. Like recordActivity, negative deltas undo activity.
+export function recordRuleActivity(writer: Writer, uid: string, rules: AchievementRule[], event: RuleEvent, delta: number, at = new Date()) {
+  for (const rule of rules) {
+    if (!matchesEvent(rule, event)) continue;
+    const key = windowKey(rule.window, at);
+    writer.set(progressRef(uid, rule, key), {
+      communityId: rule.communityId,
+      ruleId: rule.id,
+      window: key,
+      count: FieldValue.increment(delta),
+    }, { merge: true });
+  }
+}
+
+async function assertCanManage(user: SocketUser, communityId: string) {
+  const [community, actor] = await Promise.all([
+    db.collection('communities').doc(communityId).get(),
+    loadActor(user, communityId),
+  ]);
+  if (!community.exists) throw new RuleError('not-found');
+  if (!can(actor, 'community:manage', { communityId })) throw new RuleError('forbidden');
+}
+
+async function saveRule(user: SocketUser, communityId: string, ruleId: string | undefined, input: unknown): Promise<AchievementRule> {
+  const checked = validateRule(input);
+  if (!checked.ok) throw new RuleError('invalid-payload');
+  await assertCanManage(user, communityId);
+  const rule: RuleInput = checked.rule;
+  const now = Timestamp.now();
+
+  if (!ruleId) {
+    const existing = await rulesRef(communityId).count().get();
+    if (existing.data().count >= MAX_RULES_PER_COMMUNITY) throw new RuleError('invalid-payload');
+    const ref = rulesRef(communityId).doc();
+    await ref.create({ ...rule, createdBy: user.uid, createdAt: now, updatedBy: user.uid, updatedAt: now });
+    return { ...rule, id: ref.id, communityId, createdBy: user.uid };
+  }
+
+  const ref = rulesRef(communityId).doc(ruleId);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const before = snap.exists ? toRule(snap) : null;
+    if (!before) throw new RuleError('not-found');
+    if (changesCriteria(before, rule)) throw new RuleError('invalid-payload');
+    tx.update(ref, { ...rule, updatedBy: user.uid, updatedAt: now });
+    return { ...rule, id: ruleId, communityId, createdBy: before.createdBy };
+  });
+}
+
+// Unlocks already awarded stay with their users; counts towards the rule are
+// left behind and never read again.
+async function deleteRule(user: SocketUser, communityId: string, ruleId: string) {
+  await assertCanManage(user, communityId);
+  const ref = rulesRef(communityId).doc(ruleId);
+  if (!(await ref.get()).exists) throw new RuleError('not-found');
+  await ref.delete();
+}
+
+function fail(ack: ((res: AckResult) => void) | undefined, event: string, err: unknown) {
+  if (err instanceof RuleError) return reply(ack, { ok: false, error: err.code });
+  console.error(`[achievement-rules] ${event} failed`, err);
+  reply(ack, { ok: false, error: 'server-error' });
+}
+
+export function registerAchievementRuleHandlers(socket: RealtimeSocket) {
+  socket.on('achievementRule:save', async (payload, ack) => {
+    const user = requireUser(socket, 'achievementRule:save', ack);
+    if (!user) return;
+    try {
+      const { communityId, ruleId, rule } = payload;
+      const saved = await saveRule(user, communityId, ruleId ?? undefined, rule);
+      cache.delete(communityId);
+      reply(ack, { ok: true, rule: saved });
+    } catch (err) {
+      fail(ack, 'achievementRule:save', err);
+    }
+  });
+
+  socket.on('achievementRule:delete', async (payload, ack) => {
+    const user = requireUser(socket, 'achievementRule:delete', ack);
+    if (!user) return;
+    try {
+      await deleteRule(user, payload.communityId, payload.ruleId);
+      cache.delete(payload.communityId);
+      reply(ack, { ok: true });
+    } catch (err) {
+      fail(ack, 'achievementRule:delete', err);
+    }
+  });
+}
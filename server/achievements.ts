@@ -0,0 +1,298 @@
+import {
+  ACHIEVEMENTS,
+  WINDOW_PERIODS,
+  meetsCriteria,
+  periodKey,
+  periodStart,
+  type AchievementDefinition,
+  type AchievementInput,
+  type ActivityCounts,
+  type ActivityMetric,
+} from '../shared/achievements';
+import {
+  describeRule,
+  isRuleMet,
+  ruleAchievementId,
+  windowKey,
+  type AchievementRule,
+} from '../shared/achievement-rules';
+import { seasonAchievementId, seasonPrize, type Standing } from '../shared/seasons';
+import { progressRef, rulesFor } from './achievement-rules';
+import { admin, db } from './firebase';
+import { recordCommunityScore, recordScore, seasonFor } from './leaderboards';
+import { notifyUsers } from './notifications';
+import { recordActiveDay } from './streaks';
+
+const { FieldValue, Timestamp } = admin.firestore;
+
+// Achievements are evaluated here, never in the browser. content.ts records
+// each write in the author's activity counters and then calls
+// evaluateAchievements for them.
+//
+// An unlock creates users/{uid}/achievements/{achievementId} in the same
+// transaction that awards its points, so however many evaluations race,
+// each achievement is unlocked and paid out once. Achievements with a period
+// ("20 comments in one day") are unlocked once as well, the first time a
+// period reaches the threshold. Community rules (achievement-rules.ts) are
+// unlocked the same way, under the id ruleAchievementId gives them, and so
+// are the places of an ended season (seasons.ts), under seasonAchievementId.
+
+type Snapshot = FirebaseFirestore.DocumentSnapshot;
+
+// A transaction or a batch: activity is counted in the same write as the
+// activity itself
+export interface Writer {
+  set(ref: FirebaseFirestore.DocumentReference, data: FirebaseFirestore.DocumentData, options: FirebaseFirestore.SetOptions): unknown;
+}
+
+function userRef(uid: string) {
+  return db.collection('users').doc(uid);
+}
+
+function activityRef(uid: string, key: string) {
+  return userRef(uid).collection('activity').doc(key);
+}
+
+// Adds delta to the metric in the user's counters for the current day, week
+// and month. Negative deltas undo activity (a removed reaction, an unfollow).
+export function recordActivity(writer: Writer, uid: string, metric: ActivityMetric, delta: number, at = new Date()) {
+  for (const period of WINDOW_PERIODS) {
+    writer.set(activityRef(uid, periodKey(period, at)), {
+      period,
+      start: Timestamp.fromDate(periodStart(period, at)),
+      [metric]: FieldValue.increment(delta),
+    }, { merge: true });
+  }
+}
+
+// users/{uid}.achievements holds { achievementId, unlockedAt } entries;
+// onboarding used to write bare ids
+function unlockedIds(user: Snapshot): Set<string> {
+  const entries: unknown[] = user.get('achievements') ?? [];
+  return new Set(entries.map((e) => (typeof e === 'string' ? e : (e as { achievementId?: string })?.achievementId))
+    .filter((id): id is string => typeof id === 'string'));
+}
+
+function count(snap: Snapshot | undefined, field: string): number {
+  const value = snap?.get(field);
+  return typeof value === 'number' ? value : 0;
+}
+
+function toInput(user: Snapshot, periods: Snapshot[]): AchievementInput {
+  const followed = user.get('followedCommunities');
+  const input: AchievementInput = {
+    stats: {
+      totalPosts: count(user, 'stats.totalPosts'),
+      totalComments: count(user, 'stats.totalComments'),
+      totalVotes: count(user, 'stats.totalVotes'),
+      totalReactions: count(user, 'stats.totalReactions'),
+      communitiesJoined: Array.isArray(followed) ? followed.length : 0,
+      currentStreak: count(user, 'currentStreak'),
+    },
+    periods: {},
+  };
+  WINDOW_PERIODS.forEach((period, i) => {
+    const snap = periods[i];
+    const counts: Partial<ActivityCounts> = {};
+    for (const metric of ['posts', 'comments', 'votes', 'reactions', 'follows'] as const) counts[metric] = count(snap, metric);
+    input.periods[period] = counts;
+  });
+  return input;
+}
+
+// What an unlock awards. Rule achievements are not in the catalog, so their
+// metadata carries what the profile needs to show them.
+type Reward = Pick<AchievementDefinition, 'id' | 'name' | 'description' | 'icon' | 'points'> & {
+  metadata?: Record<string, unknown>;
+  // Community achievements score on their community's leaderboards as well
+  communityId?: string;
+  // Points that stay on the community's boards, out of users.points and the
+  // global boards: any community admin sets them
+  communityPoints?: boolean;
+};
+
+function ruleReward(rule: AchievementRule): Reward {
+  const description = rule.description || describeRule(rule);
+  return {
+    id: ruleAchievementId(rule),
+    name: rule.name,
+    description,
+    icon: rule.icon,
+    points: rule.points,
+    communityId: rule.communityId,
+    communityPoints: true,
+    metadata: {
+      communityId: rule.communityId,
+      ruleId: rule.id,
+      name: rule.name,
+      description,
+      icon: rule.icon,
+      points: rule.points,
+      rarity: rule.rarity,
+    },
+  };
+}
+
+function seasonReward(season: { id: string; communityId: string; name: string }, standing: Standing): Reward {
+  const prize = seasonPrize(standing.rank);
+  const name = `${season.name}: ${prize.title}`;
+  const description = `Finished #${standing.rank} in the season "${season.name}" with ${standing.points} points`;
+  return {
+    id: seasonAchievementId(season.communityId, season.id),
+    name,
+    description,
+    icon: prize.icon,
+    points: prize.points,
+    communityId: season.communityId,
+    metadata: {
+      communityId: season.communityId,
+      seasonId: season.id,
+      rank: standing.rank,
+      name,
+      description,
+      icon: prize.icon,
+      points: prize.points,
+      rarity: standing.rank === 1 ? 'legendary' : standing.rank <= 3 ? 'epic' : 'rare',
+    },
+  };
+}
+
+async function unlock(uid: string, achievement: Reward): Promise<boolean> {
+  const ref = userRef(uid).collection('achievements').doc(achievement.id);
+  const metadata = achievement.metadata ?? {};
+  const season = await seasonFor(achievement.communityId);
+  return db.runTransaction(async (tx) => {
+    const [unlocked, user] = await Promise.all([tx.get(ref), tx.get(userRef(uid))]);
+    const have = unlockedIds(user);
+    if (unlocked.exists || have.has(achievement.id)) return false;
+
+    // arrayUnion cannot hold serverTimestamp(), so both copies use this
+    const unlockedAt = Timestamp.now();
+    tx.create(ref, { achievementId: achievement.id, points: achievement.points, unlockedAt, ...metadata });
+    const local = achievement.communityPoints && achievement.communityId;
+    tx.set(userRef(uid), {
+      ...(local ? {} : { points: FieldValue.increment(achievement.points) }),
+      achievements: FieldValue.arrayUnion({ achievementId: achievement.id, unlockedAt, metadata }),
+      // Counted from the array, so users from before the counter catch up
+      achievementsCount: have.size + 1,
+      badges: FieldValue.arrayUnion(achievement.icon),
+    }, { merge: true });
+    if (local) {
+      recordScore(tx, uid, local, { achievements: 1 }, unlockedAt.toDate(), season);
+      recordCommunityScore(tx, uid, local, { points: achievement.points }, unlockedAt.toDate(), season);
+    } else {
+      recordScore(tx, uid, achievement.communityId ?? null, { points: achievement.points, achievements: 1 }, unlockedAt.toDate(), season);
+    }
+    return true;
+  });
+}
+
+async function notifyUnlocked(uid: string, unlocked: Reward[]) {
+  for (const achievement of unlocked) {
+    await notifyUsers([uid], {
+      type: 'achievement',
+      title: 'Achievement unlocked!',
+      message: `${achievement.icon} ${achievement.name}: ${achievement.description} (+${achievement.points} ${achievement.communityPoints ? 'community ' : ''}points)`,
+      data: { targetId: achievement.id, targetType: 'achievement', actionUrl: '/profile' },
+    });
+  }
+}
+
+// Unlocks every achievement the user now qualifies for and notifies them.
+// Safe to run any number of times; resolves to what this run unlocked.
+export async function evaluateAchievements(uid: string, now = new Date()): Promise<AchievementDefinition[]> {
+  const [user, ...periods] = await db.getAll(
+    userRef(uid),
+    ...WINDOW_PERIODS.map((period) => activityRef(uid, periodKey(period, now))),
+  );
+  if (!user.exists) return [];
+  const have = unlockedIds(user);
+  const input = toInput(user, periods);
+
+  const unlocked: AchievementDefinition[] = [];
+  for (const achievement of ACHIEVEMENTS) {
+    if (have.has(achievement.id) || !meetsCriteria(input, achievement.criteria)) continue;
+    if (await unlock(uid, achievement)) unlocked.push(achievement);
+  }
+  await notifyUnlocked(uid, unlocked);
+  return unlocked;
+}
+
+// The same for one community's rules, against the user's counts for each
+// rule's current window
+export async function evaluateRules(uid: string, communityId: string, now = new Date()): Promise<AchievementRule[]> {
+  const rules = await rulesFor(communityId);
+  if (!rules.length) return [];
+  const [user, ...progress] = await db.getAll(
+    userRef(uid),
+    ...rules.map((rule) => progressRef(uid, rule, windowKey(rule.window, now))),
+  );
+  if (!user.exists) return [];
+  const have = unlockedIds(user);
+
+  const unlocked: AchievementRule[] = [];
+  for (const [i, rule] of rules.entries()) {
+    if (have.has(ruleAchievementId(rule)) || !isRuleMet(rule, count(progress[i], 'count'))) continue;
+    if (await unlock(uid, ruleReward(rule))) unlocked.push(rule);
+  }
+  await notifyUnlocked(uid, unlocked.map(ruleReward));
+  return unlocked;
+}
+
+// Awards every place of an ended season its badge. Safe to run again, e.g.
+// after a crash part way through; places already awarded are skipped.
+export async function awardSeason(season: { id: string; communityId: string; name: string }, standings: Standing[]): Promise<number> {
+  let awarded = 0;
+  for (const standing of standings) {
+    const reward = seasonReward(season, standing);
+    if (!(await unlock(standing.uid, reward))) continue;
+    awarded += 1;
+    await notifyUnlocked(standing.uid, [reward]);
+  }
+  return awarded;
+}
+
+// What a write asks of the next evaluation run
+interface Queued {
+  // Communities whose rules to check
+  communities: Set<string>;
+  // When the user was last active (posted, commented or voted), for streaks
+  activeAt: Date | null;
+}
+
+export interface EvaluationRequest {
+  communityId?: string;
+  activeAt?: Date;
+}
+
+// uid -> what a further run should do, or null while the running evaluation
+// has nothing queued behind it
+const pending = new Map<string, Queued | null>();
+
+// Runs evaluateAchievements in the background after a write, after counting
+// the day towards the user's streak when the write was activity, and
+// evaluateRules for the community written to. Writes that arrive
+// mid-evaluation are folded into one more run rather than one each.
+export function scheduleEvaluation(uid: string, request: EvaluationRequest = {}) {
+  const queued = pending.get(uid) ?? { communities: new Set<string>(), activeAt: null };
+  if (request.communityId) queued.communities.add(request.communityId);
+  if (request.activeAt && (!queued.activeAt || request.activeAt > queued.activeAt)) queued.activeAt = request.activeAt;
+  const running = pending.has(uid);
+  pending.set(uid, queued);
+  if (running) return;
+
+  void (async () => {
+    try {
+      for (let next = pending.get(uid); next; next = pending.get(uid)) {
+        pending.set(uid, null);
+        if (next.activeAt) await recordActiveDay(uid, next.activeAt);
+        await evaluateAchievements(uid);
+        for (const id of next.communities) await evaluateRules(uid, id);
+      }
+    } catch (err) {
+      console.error('[achievements] evaluation failed', uid, err);
+    } finally {
+      pending.delete(uid);
+    }
+  })();
+}
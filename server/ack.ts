@@ -0,0 +1,5 @@
+// Acks are optional on the client side (fire-and-forget emits have none), so
+// every handler replies through this instead of calling ack directly.
+export function reply<T>(ack: ((res: T) => void) | undefined, res: T): void {
+  if (typeof ack === 'function') ack(res);
+}
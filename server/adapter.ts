@@ -0,0 +1,51 @@
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createClient, type RedisClientType } from 'redis';
+
+// Socket.io adapter selection. With the default in-memory adapter, room state
+// lives in this process only. Running several instances behind a load
+// balancer needs SOCKET_ADAPTER=redis, which relays every room broadcast
+// through Redis pub/sub so `community:{id}` reaches sockets on all nodes.
+// Any server that speaks the Redis pub/sub protocol works (Redis, Valkey,
+// KeyDB, scripts/stub-redis.ts for local checks). The publishing client is
+// also returned as `redis` for other shared state (see replay.ts).
+export interface SocketAdapter {
+  adapter: ReturnType<typeof createAdapter> | undefined;
+  redis: RedisClientType | null;
+  close: () => Promise<void>;
+}
+
+const ADAPTERS: Record<string, (options: { url: string }) => Promise<SocketAdapter>> = {
+  memory: async () => ({ adapter: undefined, redis: null, close: async () => {} }),
+
+  redis: async ({ url }) => {
+    const pubClient: RedisClientType = createClient({ url });
+    const subClient = pubClient.duplicate();
+    for (const client of [pubClient, subClient]) {
+      client.on('error', (err: Error) => console.error('[adapter] redis error', err.message || err));
+    }
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+    return {
+      adapter: createAdapter(pubClient, subClient),
+      redis: pubClient,
+      close: async () => {
+        await Promise.allSettled([pubClient.quit(), subClient.quit()]);
+      },
+    };
+  },
+};
+
+export interface AdapterOptions {
+  kind?: string;
+  url?: string;
+}
+
+export async function createSocketAdapter({
+  kind = process.env.SOCKET_ADAPTER || 'memory',
+  url = process.env.REDIS_URL || 'redis://127.0.0.1:6379',
+}: AdapterOptions = {}): Promise<SocketAdapter> {
+  const factory = ADAPTERS[kind];
+  if (!factory) throw new Error(`Unknown SOCKET_ADAPTER "${kind}" (expected one of: ${Object.keys(ADAPTERS).join(', ')})`);
+  const result = await factory({ url });
+  console.log(`[adapter] using ${kind} adapter`);
+  return result;
+}
@@ -0,0 +1,113 @@
+import cors from 'cors';
+import express from 'express';
+import http from 'http';
+import { Server } from 'socket.io';
+import { createSocketAdapter, type AdapterOptions } from './adapter';
+import { registerAchievementRuleHandlers } from './achievement-rules';
+import { authenticateSocket, requireUser } from './auth';
+import { registerContentHandlers } from './content';
+import { registerEventGuard } from './guard';
+import { registerModerationHandlers } from './moderation';
+import { registerPollRoutes } from './poll-routes';
+import { registerPollHandlers } from './polls';
+import { registerPresenceHandlers } from './presence';
+import { createRateLimiter } from './rate-limit';
+import { createReplayLog, registerReplayHandlers } from './replay';
+import { registerRoomHandlers } from './rooms';
+import { registerSeasonHandlers } from './seasons';
+import type { RealtimeServer } from './types';
+import { registerTypingHandlers } from './typing';
+import { registerVoteCaseHandlers } from './vote-integrity';
+
+// Builds the HTTP + Socket.io server without listening, so several instances
+// can share one process (see scripts/cluster-check.ts). `adapter` overrides
+// the SOCKET_ADAPTER / REDIS_URL environment settings.
+export async function createRealtimeServer({
+  origin = process.env.WEB_ORIGIN || 'http://localhost:5173',
+  adapter: adapterOptions,
+}: { origin?: string; adapter?: AdapterOptions } = {}) {
+  const app = express();
+  app.use(cors({ origin, credentials: true }));
+
+  const server = http.createServer(app);
+  const io: RealtimeServer = new Server(server, {
+    cors: { origin, credentials: true },
+    // Largest event payload (post:create with a full body) plus framing
+    maxHttpBufferSize: 256 * 1024,
+  });
+  const limiter = createRateLimiter();
+
+  const { adapter, redis, close: closeAdapter } = await createSocketAdapter(adapterOptions);
+  if (adapter) io.adapter(adapter);
+  // Sequenced room events for missed-event replay, shared across nodes via Redis
+  const replay = createReplayLog({ redis });
+
+  io.use(authenticateSocket);
+
+  io.on('connection', (socket) => {
+    const user = socket.data.user;
+    console.log('socket connected', socket.id, user ? `uid=${user.uid}` : '(anonymous)');
+
+    // Schema validation and per-uid rate limits for every incoming event
+    registerEventGuard(socket, limiter);
+
+    // Rooms per community for scoped broadcasts; joins are acked with { ok, error }
+    registerRoomHandlers(io, socket, replay);
+
+    // Events missed while disconnected: replay:request after re-joining
+    registerReplayHandlers(socket, replay);
+
+    // Who is online in each community room: presence:join / leave / snapshot
+    registerPresenceHandlers(io, socket);
+
+    // Posts, comments, votes, reactions and follows: validated and written by the server
+    registerContentHandlers(io, socket, replay);
+
+    // Community achievement rules, authored by community admins
+    registerAchievementRuleHandlers(socket);
+
+    // Community leaderboard seasons, started and ended by moderators
+    registerSeasonHandlers(socket);
+
+    // Cases of suspicious upvotes, resolved by moderators
+    registerVoteCaseHandlers(socket);
+
+    // Single and multiple choice poll votes, and poll relays; poll:vote drops
+    // the voter for anonymous polls
+    registerPollHandlers(socket, replay);
+
+    // User activity tracking
+    socket.on('user:activity', (activity) => {
+      if (!requireUser(socket, 'user:activity')) return;
+      const room = activity.communityId ? `community:${activity.communityId}` : undefined;
+      if (room) {
+        socket.to(room).emit('user:activity', activity);
+      }
+    });
+
+    // Typing cues for comment threads, scoped to post:{postId} sub-rooms
+    registerTypingHandlers(io, socket);
+
+    // Moderation: post/comment deletion and reaction removal, acked with { ok, error }
+    registerModerationHandlers(io, socket, replay);
+
+    socket.on('disconnect', (reason) => {
+      console.log('socket disconnected', socket.id, reason);
+    });
+  });
+
+  app.get('/health', (_req, res) => {
+    res.json({ ok: true });
+  });
+
+  // Public poll results for embeds, and CSV/JSON exports for organizers
+  registerPollRoutes(app);
+
+  async function close() {
+    limiter.close();
+    await new Promise<void>((resolve) => io.close(() => resolve()));
+    await closeAdapter();
+  }
+
+  return { app, server, io, replay, close };
+}
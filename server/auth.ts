@@ -0,0 +1,82 @@
+import type { Request } from 'express';
+import type { DecodedIdToken } from 'firebase-admin/auth';
+import type { AckResult } from '../shared/socket-events';
+import { admin } from './firebase';
+import type { RealtimeSocket, SocketUser } from './types';
+
+// Anonymous sockets may still connect and join rooms to receive broadcasts,
+// but cannot emit anything. Set ALLOW_ANONYMOUS_SOCKETS=false to refuse them.
+const ALLOW_ANONYMOUS = process.env.ALLOW_ANONYMOUS_SOCKETS !== 'false';
+const CHECK_REVOKED = process.env.CHECK_REVOKED_TOKENS === 'true';
+
+// Fields Firebase puts on every decoded ID token; anything else is a custom claim.
+const STANDARD_CLAIMS = new Set([
+  'aud', 'auth_time', 'email', 'email_verified', 'exp', 'firebase', 'iat', 'iss',
+  'name', 'phone_number', 'picture', 'sub', 'uid', 'user_id',
+]);
+
+function extractToken(handshake: RealtimeSocket['handshake']): string | null {
+  const fromAuth = handshake.auth && handshake.auth.token;
+  if (typeof fromAuth === 'string' && fromAuth) return fromAuth;
+  const header = handshake.headers && handshake.headers.authorization;
+  if (typeof header === 'string' && header) return header.replace(/^Bearer\s+/i, '');
+  return null;
+}
+
+function toSocketUser(decoded: DecodedIdToken): SocketUser {
+  const claims: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(decoded)) {
+    if (!STANDARD_CLAIMS.has(key)) claims[key] = value;
+  }
+  return {
+    uid: decoded.uid,
+    email: decoded.email || null,
+    displayName: decoded.name || null,
+    claims,
+  };
+}
+
+// Handshake middleware: verifies the Firebase ID token sent by
+// connectSocketWithToken and attaches { uid, email, displayName, claims }
+// to socket.data.user. A bad or expired token is always rejected; a missing
+// token yields a read-only socket (socket.data.user === null).
+export async function authenticateSocket(socket: RealtimeSocket, next: (err?: Error) => void) {
+  const token = extractToken(socket.handshake);
+  if (!token) {
+    if (!ALLOW_ANONYMOUS) return next(new Error('unauthorized'));
+    socket.data.user = null;
+    return next();
+  }
+  try {
+    const decoded = await admin.auth().verifyIdToken(token, CHECK_REVOKED);
+    socket.data.user = toSocketUser(decoded);
+    return next();
+  } catch (err) {
+    console.warn(`[auth] token rejected for ${socket.id}:`, (err as { code?: string }).code || err);
+    return next(new Error('unauthorized'));
+  }
+}
+
+// The same check for HTTP routes: the ID token comes as
+// `Authorization: Bearer <token>`. Resolves to null when it is missing or
+// does not verify.
+export async function authenticateRequest(req: Request): Promise<SocketUser | null> {
+  const header = req.headers.authorization;
+  if (typeof header !== 'string' || !/^Bearer\s+\S/i.test(header)) return null;
+  try {
+    return toSocketUser(await admin.auth().verifyIdToken(header.replace(/^Bearer\s+/i, ''), CHECK_REVOKED));
+  } catch (err) {
+    console.warn(`[auth] token rejected for ${req.method} ${req.path}:`, (err as { code?: string }).code || err);
+    return null;
+  }
+}
+
+// Guard for write events. Returns the authenticated user, or null after
+// acking { ok: false, error: 'unauthenticated' } when an ack was supplied.
+export function requireUser(socket: RealtimeSocket, event: string, ack?: (res: AckResult) => void): SocketUser | null {
+  const user = socket.data.user;
+  if (user) return user;
+  console.warn(`[auth] dropped ${event} from anonymous socket ${socket.id}`);
+  if (typeof ack === 'function') ack({ ok: false, error: 'unauthenticated' });
+  return null;
+}
@@ -0,0 +1,500 @@
+import type {
+  AckError,
+  AckResult,
+  CastVotePayload,
+  CreateCommentPayload,
+  CreatePostPayload,
+  FollowPayload,
+  ReactionMap,
+  TargetType,
+  ToggleReactionPayload,
+  VoteType,
+  WireComment,
+  WireMedia,
+  WirePost,
+} from '../shared/socket-events';
+import { votePoints } from '../shared/vote-integrity';
+import { checkCommunityAccess } from './access';
+import { recordActivity, scheduleEvaluation } from './achievements';
+import { recordRuleActivity, rulesFor } from './achievement-rules';
+import { recordScore, seasonFor } from './leaderboards';
+import { reply } from './ack';
+import { requireUser } from './auth';
+import { admin, db } from './firebase';
+import type { ReplayLog } from './replay';
+import type { RealtimeServer, RealtimeSocket, SocketUser } from './types';
+import { caseRef, checkUpvote, flagUpvote, networkOf, recordOrigin } from './vote-integrity';
+
+const { FieldValue, FieldPath, Timestamp } = admin.firestore;
+
+// Points the author earns for each upvote (revoked when the upvote is
+// withdrawn). Upvotes vote-integrity.ts flags earn nothing until a moderator
+// clears them.
+const UPVOTE_POINTS = { post: 10, comment: 5 };
+
+// Must match commonReactions + additionalReactions in ReactionButtons
+const REACTIONS = new Set(['👍', '❤️', '😆', '😮', '😢', '😡', '🔥', '💯', '🎉', '🤔', '👏', '🚀', '💡', '⚡']);
+const MEDIA_TYPES = new Set(['image', 'gif', 'video']);
+
+const MAX_TITLE = 300;
+const MAX_POST_CONTENT = 50000;
+const MAX_COMMENT_CONTENT = 10000;
+const MAX_MEDIA = 10;
+const MAX_TAGS = 10;
+const MAX_COMMENT_DEPTH = 10;
+
+// Thrown inside transactions to abort with an ack error code.
+class WriteError extends Error {
+  code: AckError;
+
+  constructor(code: AckError) {
+    super(code);
+    this.code = code;
+  }
+}
+
+function isId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= 128 && !value.includes('/');
+}
+
+function isText(value: unknown, max: number): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= max;
+}
+
+function isTarget(targetType: unknown): targetType is TargetType {
+  return targetType === 'post' || targetType === 'comment';
+}
+
+function targetCollection(targetType: TargetType) {
+  return targetType === 'post' ? 'posts' : 'comments';
+}
+
+// The fields votes and reactions read from a post or comment.
+interface VotableDoc {
+  communityId: string;
+  authorId?: string;
+  voteScore?: number;
+  upvotes?: unknown;
+  downvotes?: unknown;
+  reactions?: ReactionMap;
+  tags?: unknown;
+}
+
+// A target's tags as community rules see them: comments have none of their own
+function ruleTags(targetType: TargetType, target: VotableDoc): string[] {
+  return targetType === 'post' && Array.isArray(target.tags) ? target.tags.filter((t): t is string => typeof t === 'string') : [];
+}
+
+function cleanMedia(media: unknown): WireMedia[] | null {
+  if (media === undefined) return [];
+  if (!Array.isArray(media) || media.length > MAX_MEDIA) return null;
+  const out: WireMedia[] = [];
+  for (const m of media) {
+    if (!m || typeof m.url !== 'string' || !/^https?:\/\//.test(m.url) || !MEDIA_TYPES.has(m.type)) return null;
+    out.push(typeof m.alt === 'string' ? { url: m.url, type: m.type, alt: m.alt.slice(0, 300) } : { url: m.url, type: m.type });
+  }
+  return out;
+}
+
+function cleanTags(tags: unknown): string[] | null {
+  if (tags === undefined) return [];
+  if (!Array.isArray(tags) || tags.length > MAX_TAGS) return null;
+  if (!tags.every((t) => typeof t === 'string' && t.trim().length > 0 && t.length <= 50)) return null;
+  return Array.from(new Set(tags.map((t) => t.trim().toLowerCase())));
+}
+
+// Firestore documents as they go over the wire: Timestamps become ISO strings.
+function toWire<T>(id: string, data: Record<string, unknown>): T {
+  const out: Record<string, unknown> = { id };
+  for (const [key, value] of Object.entries(data)) {
+    out[key] = value instanceof Timestamp ? value.toDate().toISOString() : value;
+  }
+  return out as T;
+}
+
+async function assertCanWrite(user: SocketUser, communityId: string) {
+  const error = await checkCommunityAccess(user, communityId);
+  if (error) throw new WriteError(error === 'join-denied' ? 'forbidden' : error);
+}
+
+function fail(ack: ((res: AckResult) => void) | undefined, event: string, err: unknown) {
+  if (err instanceof WriteError) return reply(ack, { ok: false, error: err.code });
+  console.error(`[content] ${event} failed`, err);
+  reply(ack, { ok: false, error: 'server-error' });
+}
+
+async function createPost(user: SocketUser, payload: Partial<CreatePostPayload>): Promise<WirePost> {
+  const { communityId, title, content } = payload;
+  const media = cleanMedia(payload.media);
+  const tags = cleanTags(payload.tags);
+  if (!isId(communityId) || !isText(title, MAX_TITLE) || typeof content !== 'string' || content.length > MAX_POST_CONTENT || !media || !tags) {
+    throw new WriteError('invalid-payload');
+  }
+  await assertCanWrite(user, communityId);
+  const [rules, season] = await Promise.all([rulesFor(communityId), seasonFor(communityId)]);
+
+  const now = Timestamp.now();
+  const postRef = db.collection('posts').doc();
+  const post = {
+    communityId,
+    authorId: user.uid,
+    title: title.trim(),
+    content,
+    media,
+    tags,
+    reactions: {},
+    voteScore: 0,
+    upvotes: [],
+    downvotes: [],
+    commentCount: 0,
+    isPinned: false,
+    isLocked: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const batch = db.batch();
+  batch.create(postRef, post);
+  batch.update(db.collection('communities').doc(communityId), { postCount: FieldValue.increment(1) });
+  batch.set(db.collection('users').doc(user.uid), {
+    stats: { totalPosts: FieldValue.increment(1) },
+    lastActiveAt: now,
+  }, { merge: true });
+  recordActivity(batch, user.uid, 'posts', 1, now.toDate());
+  recordRuleActivity(batch, user.uid, rules, { metric: 'posts', communityId, tags }, 1, now.toDate());
+  recordScore(batch, user.uid, communityId, { posts: 1 }, now.toDate(), season);
+  await batch.commit();
+  return toWire<WirePost>(postRef.id, post);
+}
+
+async function createComment(user: SocketUser, payload: Partial<CreateCommentPayload>): Promise<WireComment> {
+  const { postId, content } = payload;
+  const parentId = payload.parentId == null ? null : payload.parentId;
+  if (!isId(postId) || !isText(content, MAX_COMMENT_CONTENT) || (parentId !== null && !isId(parentId))) {
+    throw new WriteError('invalid-payload');
+  }
+  const postRef = db.collection('posts').doc(postId);
+  const parentRef = parentId ? db.collection('comments').doc(parentId) : null;
+  const commentRef = db.collection('comments').doc();
+
+  return db.runTransaction(async (tx) => {
+    const [postSnap, parentSnap] = await Promise.all([tx.get(postRef), parentRef ? tx.get(parentRef) : null]);
+    if (!postSnap.exists) throw new WriteError('not-found');
+    const post = postSnap.data() as VotableDoc & { isLocked?: boolean };
+    if (post.isLocked) throw new WriteError('locked');
+    let depth = 0;
+    if (parentSnap) {
+      if (!parentSnap.exists || parentSnap.get('postId') !== postId || parentSnap.get('isDeleted')) throw new WriteError('not-found');
+      depth = (parentSnap.get('depth') || 0) + 1;
+      if (depth > MAX_COMMENT_DEPTH) throw new WriteError('too-deep');
+    }
+    await assertCanWrite(user, post.communityId);
+    const [rules, season] = await Promise.all([rulesFor(post.communityId), seasonFor(post.communityId)]);
+
+    const now = Timestamp.now();
+    // communityId is copied from the post rather than trusted from the client
+    const comment = {
+      postId,
+      communityId: post.communityId,
+      parentId,
+      authorId: user.uid,
+      content: content.trim(),
+      media: [],
+      reactions: {},
+      voteScore: 0,
+      upvotes: [],
+      downvotes: [],
+      replyCount: 0,
+      depth,
+      isDeleted: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    tx.create(commentRef, comment);
+    tx.update(postRef, { commentCount: FieldValue.increment(1) });
+    if (parentRef) tx.update(parentRef, { replyCount: FieldValue.increment(1) });
+    tx.update(db.collection('communities').doc(post.communityId), { commentCount: FieldValue.increment(1) });
+    tx.set(db.collection('users').doc(user.uid), {
+      stats: { totalComments: FieldValue.increment(1) },
+      lastActiveAt: now,
+    }, { merge: true });
+    recordActivity(tx, user.uid, 'comments', 1, now.toDate());
+    recordRuleActivity(tx, user.uid, rules, { metric: 'comments', communityId: post.communityId, tags: ruleTags('post', post) }, 1, now.toDate());
+    recordScore(tx, user.uid, post.communityId, { comments: 1 }, now.toDate(), season);
+    return toWire<WireComment>(commentRef.id, comment);
+  });
+}
+
+// voteType is the caller's desired final state: 'up', 'down' or null to clear.
+interface VoteOutcome {
+  targetId: string;
+  targetType: TargetType;
+  communityId: string;
+  voteType: VoteType | null;
+  previous: VoteType | null;
+  newScore: number;
+}
+
+// network: the voter's, from networkOf
+async function castVote(user: SocketUser, payload: Partial<CastVotePayload>, network: string | null): Promise<VoteOutcome> {
+  const { targetId, targetType } = payload;
+  const voteType = payload.voteType == null ? null : payload.voteType;
+  if (!isId(targetId) || !isTarget(targetType) || (voteType !== null && voteType !== 'up' && voteType !== 'down')) {
+    throw new WriteError('invalid-payload');
+  }
+  const targetRef = db.collection(targetCollection(targetType)).doc(targetId);
+  const voteRef = db.collection('votes').doc(`${user.uid}_${targetId}`);
+
+  return db.runTransaction(async (tx) => {
+    const [targetSnap, voteSnap] = await Promise.all([tx.get(targetRef), tx.get(voteRef)]);
+    if (!targetSnap.exists || targetSnap.get('isDeleted')) throw new WriteError('not-found');
+    const target = targetSnap.data() as VotableDoc;
+    await assertCanWrite(user, target.communityId);
+    const [rules, season] = await Promise.all([rulesFor(target.communityId), seasonFor(target.communityId)]);
+
+    // Votes cast before the votes collection existed only live in the arrays
+    const upvotes = Array.isArray(target.upvotes) ? target.upvotes : [];
+    const downvotes = Array.isArray(target.downvotes) ? target.downvotes : [];
+    const previous = voteSnap.exists
+      ? voteSnap.get('type')
+      : upvotes.includes(user.uid) ? 'up' : downvotes.includes(user.uid) ? 'down' : null;
+    const value = (t: VoteType | null) => (t === 'up' ? 1 : t === 'down' ? -1 : 0);
+    const delta = value(voteType) - value(previous);
+    const base = {
+      targetId,
+      targetType,
+      communityId: target.communityId,
+      voteType,
+      previous,
+    };
+    if (delta === 0) return { ...base, newScore: target.voteScore || 0 };
+
+    const now = Timestamp.now();
+    // Whose points the vote moves: nobody's for a vote on one's own content
+    const authorId = target.authorId && target.authorId !== user.uid ? target.authorId : null;
+    const check = voteType === 'up' && authorId ? await checkUpvote(user.uid, authorId, network, now.toDate()) : null;
+    const caseSnap = authorId && check?.signals.length ? await tx.get(caseRef(target.communityId, authorId)) : null;
+
+    const paid = voteSnap.get('pointsAwarded');
+    const { awarded, withheld, revoked } = votePoints({
+      previous,
+      voteType,
+      points: authorId ? UPVOTE_POINTS[targetType] : 0,
+      flagged: caseSnap !== null,
+      paid: typeof paid === 'number' ? paid : undefined,
+    });
+
+    const updates: Record<string, FirebaseFirestore.FieldValue> = { voteScore: FieldValue.increment(delta) };
+    if (previous === 'up') updates.upvotes = FieldValue.arrayRemove(user.uid);
+    if (previous === 'down') updates.downvotes = FieldValue.arrayRemove(user.uid);
+    if (voteType === 'up') updates.upvotes = FieldValue.arrayUnion(user.uid);
+    if (voteType === 'down') updates.downvotes = FieldValue.arrayUnion(user.uid);
+    tx.update(targetRef, updates);
+
+    if (voteType) {
+      tx.set(voteRef, {
+        userId: user.uid,
+        targetId,
+        targetType,
+        type: voteType,
+        communityId: target.communityId,
+        targetAuthorId: target.authorId ?? null,
+        newAccount: check?.newAccount ?? false,
+        pointsAwarded: awarded,
+        pointsWithheld: withheld,
+        createdAt: now,
+      });
+    } else {
+      tx.delete(voteRef);
+    }
+    if (check && authorId && network) {
+      recordOrigin(tx, voteRef.id, { userId: user.uid, targetAuthorId: authorId, network, createdAt: now });
+    } else if (previous === 'up') {
+      recordOrigin(tx, voteRef.id, null);
+    }
+    if (caseSnap && check && authorId) {
+      flagUpvote(tx, caseSnap, {
+        communityId: target.communityId,
+        authorId,
+        voterId: user.uid,
+        voteId: voteRef.id,
+        targetId,
+        targetType,
+        points: withheld,
+        check,
+        at: now,
+      });
+    }
+
+    // Counted per vote held: a new vote adds one, clearing it takes it back
+    // and switching sides changes nothing
+    const held = !previous ? 1 : !voteType ? -1 : 0;
+    tx.set(db.collection('users').doc(user.uid), {
+      ...(held ? { stats: { totalVotes: FieldValue.increment(held) } } : {}),
+      lastActiveAt: now,
+    }, { merge: true });
+    if (held) {
+      recordActivity(tx, user.uid, 'votes', held, now.toDate());
+      const event = { metric: 'votes' as const, communityId: target.communityId, tags: ruleTags(targetType, target) };
+      recordRuleActivity(tx, user.uid, rules, event, held, now.toDate());
+      recordScore(tx, user.uid, target.communityId, { votes: held }, now.toDate(), season);
+    }
+
+    const points = awarded - revoked;
+    if (points !== 0 && authorId) {
+      tx.set(db.collection('users').doc(authorId), { points: FieldValue.increment(points) }, { merge: true });
+      recordScore(tx, authorId, target.communityId, { points }, now.toDate(), season);
+    }
+    return { ...base, newScore: (target.voteScore || 0) + delta };
+  });
+}
+
+interface ReactionOutcome {
+  targetId: string;
+  targetType: TargetType;
+  communityId: string;
+  emoji: string;
+  action: 'add' | 'remove';
+  reactions: ReactionMap;
+}
+
+async function toggleReaction(user: SocketUser, payload: Partial<ToggleReactionPayload>): Promise<ReactionOutcome> {
+  const { targetId, targetType, emoji } = payload;
+  if (!isId(targetId) || !isTarget(targetType) || typeof emoji !== 'string' || !REACTIONS.has(emoji)) {
+    throw new WriteError('invalid-payload');
+  }
+  const targetRef = db.collection(targetCollection(targetType)).doc(targetId);
+
+  return db.runTransaction(async (tx) => {
+    const targetSnap = await tx.get(targetRef);
+    if (!targetSnap.exists || targetSnap.get('isDeleted')) throw new WriteError('not-found');
+    const target = targetSnap.data() as VotableDoc;
+    await assertCanWrite(user, target.communityId);
+    const rules = await rulesFor(target.communityId);
+
+    const reactions: ReactionMap = { ...(target.reactions || {}) };
+    const current = reactions[emoji] || { count: 0, users: [] };
+    const users = Array.isArray(current.users) ? current.users : [];
+    const action: 'add' | 'remove' = users.includes(user.uid) ? 'remove' : 'add';
+    const nextUsers = action === 'add' ? [...users, user.uid] : users.filter((u) => u !== user.uid);
+    reactions[emoji] = { count: nextUsers.length, users: nextUsers };
+
+    const now = Timestamp.now();
+    tx.update(targetRef, new FieldPath('reactions', emoji), reactions[emoji]);
+    tx.set(db.collection('users').doc(user.uid), {
+      stats: { totalReactions: FieldValue.increment(action === 'add' ? 1 : -1) },
+      lastActiveAt: now,
+    }, { merge: true });
+    recordActivity(tx, user.uid, 'reactions', action === 'add' ? 1 : -1, now.toDate());
+    const event = { metric: 'reactions' as const, communityId: target.communityId, tags: ruleTags(targetType, target) };
+    recordRuleActivity(tx, user.uid, rules, event, action === 'add' ? 1 : -1, now.toDate());
+    return { targetId, targetType, communityId: target.communityId, emoji, action, reactions };
+  });
+}
+
+// follow is the desired final state. Followers of a private community may
+// join its room (see access.ts), so following one takes the same access as
+// writing to it; unfollowing is always allowed.
+async function setFollow(user: SocketUser, payload: Partial<FollowPayload>): Promise<boolean> {
+  const { communityId, follow } = payload;
+  if (!isId(communityId) || typeof follow !== 'boolean') throw new WriteError('invalid-payload');
+  if (follow) await assertCanWrite(user, communityId);
+  const userRef = db.collection('users').doc(user.uid);
+  const followRef = db.collection('follows').doc(`${user.uid}_${communityId}`);
+
+  return db.runTransaction(async (tx) => {
+    const [userSnap, followSnap] = await Promise.all([tx.get(userRef), tx.get(followRef)]);
+    const followed: unknown = userSnap.get('followedCommunities');
+    const wasFollowing = Array.isArray(followed) && followed.includes(communityId);
+    if (wasFollowing === follow && followSnap.exists === follow) return follow;
+
+    const now = Timestamp.now();
+    if (follow) {
+      tx.set(followRef, { uid: user.uid, communityId, createdAt: now });
+    } else {
+      tx.delete(followRef);
+    }
+    tx.set(userRef, {
+      followedCommunities: follow ? FieldValue.arrayUnion(communityId) : FieldValue.arrayRemove(communityId),
+      lastActiveAt: now,
+    }, { merge: true });
+    if (wasFollowing !== follow) recordActivity(tx, user.uid, 'follows', follow ? 1 : -1, now.toDate());
+    return follow;
+  });
+}
+
+// Server-authoritative writes. The client sends intent, the server validates
+// it, commits with the Admin SDK and broadcasts the canonical result to the
+// community room (the sender included, so every client converges on it).
+// Broadcasts are sequenced through the replay log for reconnecting clients.
+// Every write then has the writer's achievements evaluated in the background.
+export function registerContentHandlers(io: RealtimeServer, socket: RealtimeSocket, replay: ReplayLog) {
+  socket.on('post:create', async (payload, ack) => {
+    const user = requireUser(socket, 'post:create', ack);
+    if (!user) return;
+    try {
+      const post = await createPost(user, payload || {});
+      await replay.publish(io, `community:${post.communityId}`, 'post:new', post);
+      reply(ack, { ok: true, post });
+      scheduleEvaluation(user.uid, { communityId: post.communityId, activeAt: new Date() });
+    } catch (err) {
+      fail(ack, 'post:create', err);
+    }
+  });
+
+  socket.on('comment:create', async (payload, ack) => {
+    const user = requireUser(socket, 'comment:create', ack);
+    if (!user) return;
+    try {
+      const comment = await createComment(user, payload || {});
+      await replay.publish(io, `community:${comment.communityId}`, 'comment:new', comment);
+      reply(ack, { ok: true, comment });
+      scheduleEvaluation(user.uid, { communityId: comment.communityId, activeAt: new Date() });
+    } catch (err) {
+      fail(ack, 'comment:create', err);
+    }
+  });
+
+  socket.on('vote:cast', async (payload, ack) => {
+    const user = requireUser(socket, 'vote:cast', ack);
+    if (!user) return;
+    try {
+      const { previous, ...vote } = await castVote(user, payload || {}, networkOf(socket));
+      if (previous !== vote.voteType) {
+        await replay.publish(io, `community:${vote.communityId}`, 'vote:update', { ...vote, userId: user.uid });
+      }
+      reply(ack, { ok: true, voteType: vote.voteType, newScore: vote.newScore });
+      // Withdrawing a vote does not keep a streak going
+      if (previous !== vote.voteType) {
+        scheduleEvaluation(user.uid, { communityId: vote.communityId, activeAt: vote.voteType ? new Date() : undefined });
+      }
+    } catch (err) {
+      fail(ack, 'vote:cast', err);
+    }
+  });
+
+  socket.on('reaction:toggle', async (payload, ack) => {
+    const user = requireUser(socket, 'reaction:toggle', ack);
+    if (!user) return;
+    try {
+      const reaction = await toggleReaction(user, payload || {});
+      await replay.publish(io, `community:${reaction.communityId}`, 'reaction:update', { ...reaction, userId: user.uid });
+      reply(ack, { ok: true, action: reaction.action, reactions: reaction.reactions });
+      scheduleEvaluation(user.uid, { communityId: reaction.communityId });
+    } catch (err) {
+      fail(ack, 'reaction:toggle', err);
+    }
+  });
+
+  // Follows are not broadcast: nobody else's view depends on them
+  socket.on('community:follow', async (payload, ack) => {
+    const user = requireUser(socket, 'community:follow', ack);
+    if (!user) return;
+    try {
+      const following = await setFollow(user, payload || {});
+      reply(ack, { ok: true, following });
+      scheduleEvaluation(user.uid);
+    } catch (err) {
+      fail(ack, 'community:follow', err);
+    }
+  });
+}
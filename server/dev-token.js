@@ -0,0 +1,22 @@
+// Prints a Firebase ID token for one of the seed-auth.js users, minted by the
+// Auth emulator, so the socket handshake can be exercised without the web app:
+//   node dev-token.js alex@dev.test
+const host = process.env.FIREBASE_AUTH_EMULATOR_HOST || "127.0.0.1:9099";
+const email = process.argv[2] || "demo@example.com";
+const password = process.argv[3] || "password123";
+
+(async () => {
+  // The emulator accepts any API key.
+  const url = `http://${host}/identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=fake-api-key`;
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password, returnSecureToken: true }),
+  });
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error ? body.error.message : `HTTP ${res.status}`);
+  console.log(body.idToken);
+})().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,15 @@
+import admin from 'firebase-admin';
+
+// Same project resolution as seed.js / seed-auth.js so the server, the seed
+// scripts and the emulator suite all agree. The Admin SDK picks up
+// FIREBASE_AUTH_EMULATOR_HOST / FIRESTORE_EMULATOR_HOST on its own.
+export const projectId = process.env.GCLOUD_PROJECT || process.env.FIREBASE_PROJECT || 'demo-niche';
+
+if (!admin.apps.length) {
+  admin.initializeApp({ projectId });
+}
+
+export const db = admin.firestore();
+db.settings({ ignoreUndefinedProperties: true });
+
+export { admin };
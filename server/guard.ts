@@ -0,0 +1,36 @@
+import type { AckError } from '../shared/socket-events';
+import { reply } from './ack';
+import type { RateLimiter } from './rate-limit';
+import { isKnownEvent, validatePayload } from './schemas';
+import type { RealtimeSocket } from './types';
+
+// Per-socket middleware that runs before every event handler: the payload
+// must match the event's schema (schemas.ts) and the caller must have a token
+// left in its bucket (rate-limit.ts). Rejected events never reach a handler.
+// The error goes to the ack when there is one, otherwise to `event:error`
+// so fire-and-forget emitters (polls, typing, activity) hear about it too.
+export function registerEventGuard(socket: RealtimeSocket, limiter: RateLimiter) {
+  const caller = socket.data.user ? `uid:${socket.data.user.uid}` : `ip:${socket.handshake.address}`;
+
+  socket.use((packet, next) => {
+    const [event, ...args] = packet as [string, ...unknown[]];
+    const ack = typeof args[args.length - 1] === 'function' ? (args.pop() as (res: unknown) => void) : undefined;
+
+    const reject = (res: { error: AckError; retryAfterMs?: number }) => {
+      if (ack) reply(ack, { ok: false, ...res });
+      else socket.emit('event:error', { event, ...res });
+    };
+
+    // Unknown names are dropped before a bucket is created for them
+    if (!isKnownEvent(event)) return reject({ error: 'unknown-event' });
+    // Charged before validation so that malformed floods are throttled as well
+    const limited = limiter.take(caller, event);
+    if (!limited.ok) return reject({ error: 'rate_limited', retryAfterMs: limited.retryAfterMs });
+    const error = validatePayload(event, args[0]);
+    if (error) {
+      console.warn('[guard] rejected', event, error, caller);
+      return reject({ error });
+    }
+    next();
+  });
+}
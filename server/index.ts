@@ -0,0 +1,25 @@
+import { createRealtimeServer } from './app';
+import { startPollScheduler } from './poll-scheduler';
+import { startSeasonScheduler } from './season-scheduler';
+import { startStreakScheduler } from './streak-scheduler';
+
+const PORT = process.env.PORT || 4001;
+
+createRealtimeServer()
+  .then(({ server }) => {
+    server.listen(PORT, () => {
+      console.log(`Socket.io server running on :${PORT}`);
+    });
+    // Opens scheduled polls and closes expired ones; run it on at least one
+    // node (several are safe, see poll-scheduler.ts)
+    if (process.env.POLL_SCHEDULER !== 'false') startPollScheduler();
+    // Warns users whose streak ends tonight and ends broken streaks; safe on
+    // several nodes as well
+    if (process.env.STREAK_SCHEDULER !== 'false') startStreakScheduler();
+    // Ends community seasons and awards their places; safe on several nodes
+    if (process.env.SEASON_SCHEDULER !== 'false') startSeasonScheduler();
+  })
+  .catch((err) => {
+    console.error('Failed to start realtime server', err);
+    process.exit(1);
+  });
@@ -0,0 +1,98 @@
+import { boardsFor, type Board, type ScoreCounts, type SeasonWindow } from '../shared/leaderboards';
+import type { Writer } from './achievements';
+import { admin, db } from './firebase';
+
+const { FieldValue, Timestamp } = admin.firestore;
+
+// Maintains the leaderboard boards described in shared/leaderboards.ts.
+// content.ts and achievements.ts call recordScore in the same transaction or
+// batch as the write being scored, so a board never counts a write that did
+// not happen.
+//
+// Only entry documents are written: one per user per board, so users never
+// contend on a shared document. Boards need no document of their own; the
+// id says what they are.
+
+// The active season is read on every write in the community, so each node
+// keeps it this long. Starting or ending a season on this node takes effect
+// at once; on others within the TTL, which only matters for the first
+// moments of a season since writes outside its window never count.
+const CACHE_TTL_MS = 30 * 1000;
+
+export function entryRef(boardId: string, uid: string) {
+  return db.collection('leaderboards').doc(boardId).collection('entries').doc(uid);
+}
+
+const seasons = new Map<string, { expires: number; season: Promise<SeasonWindow | null> }>();
+
+// The community's active season, if any
+export function seasonFor(communityId: string | null | undefined): Promise<SeasonWindow | null> {
+  if (!communityId) return Promise.resolve(null);
+  const hit = seasons.get(communityId);
+  if (hit && hit.expires > Date.now()) return hit.season;
+  const season = db.collection('seasons')
+    .where('communityId', '==', communityId)
+    .where('status', '==', 'active')
+    .limit(1)
+    .get()
+    .then((snap) => {
+      const d = snap.docs[0];
+      if (!d) return null;
+      return { id: d.id, startsAt: d.get('startsAt').toDate(), endsAt: d.get('endsAt').toDate() };
+    });
+  seasons.set(communityId, { expires: Date.now() + CACHE_TTL_MS, season });
+  // A failed read is not cached
+  season.catch(() => seasons.delete(communityId));
+  return season;
+}
+
+export function forgetSeason(communityId: string) {
+  seasons.delete(communityId);
+}
+
+// Adds deltas to the user's entry on every board a write at `at` counts
+// towards (see boardsFor), given the community's active season from
+// seasonFor. Negative deltas undo a score, e.g. a withdrawn upvote.
+export function recordScore(
+  writer: Writer,
+  uid: string,
+  communityId: string | null,
+  deltas: Partial<ScoreCounts>,
+  at = new Date(),
+  season: SeasonWindow | null = null,
+) {
+  writeEntries(writer, uid, boardsFor(communityId, at, season), deltas, at);
+}
+
+// The same on the community's own boards only, for scores the community
+// awards itself (rule achievements) that must not reach the global boards
+export function recordCommunityScore(
+  writer: Writer,
+  uid: string,
+  communityId: string,
+  deltas: Partial<ScoreCounts>,
+  at = new Date(),
+  season: SeasonWindow | null = null,
+) {
+  const boards = boardsFor(communityId, at, season).filter((board) => board.communityId !== null);
+  writeEntries(writer, uid, boards, deltas, at);
+}
+
+function writeEntries(writer: Writer, uid: string, boards: Board[], deltas: Partial<ScoreCounts>, at: Date) {
+  const increments: Record<string, FirebaseFirestore.FieldValue> = {};
+  for (const [metric, delta] of Object.entries(deltas)) {
+    if (delta) increments[metric] = FieldValue.increment(delta);
+  }
+  if (!Object.keys(increments).length) return;
+
+  for (const board of boards) {
+    writer.set(entryRef(board.id, uid), {
+      uid,
+      communityId: board.communityId,
+      period: board.period,
+      periodKey: board.periodKey,
+      ...increments,
+      updatedAt: Timestamp.fromDate(at),
+    }, { merge: true });
+  }
+}
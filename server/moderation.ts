@@ -0,0 +1,138 @@
+import { type Action, can } from '../shared/permissions';
+import type { AckError } from '../shared/socket-events';
+import { reply } from './ack';
+import { requireUser } from './auth';
+import { admin, db } from './firebase';
+import type { ReplayLog } from './replay';
+import { loadActor } from './roles';
+import type { RealtimeServer, RealtimeSocket, SocketUser } from './types';
+
+const { FieldValue, FieldPath } = admin.firestore;
+
+const BATCH_LIMIT = 450;
+
+interface ModeratedDoc {
+  communityId: string;
+  authorId?: string;
+  postId?: string;
+  isDeleted?: boolean;
+}
+
+// Loads the community and target document and decides whether user may
+// perform action on the target. The target must belong to the community the
+// caller claims it does, otherwise a moderator of one community could act on
+// another.
+async function authorize(
+  user: SocketUser,
+  communityId: string,
+  targetRef: FirebaseFirestore.DocumentReference,
+  action: Action,
+): Promise<{ error: AckError; target?: undefined } | { error?: undefined; target: ModeratedDoc }> {
+  const [cSnap, tSnap, actor] = await Promise.all([
+    db.collection('communities').doc(communityId).get(),
+    targetRef.get(),
+    loadActor(user, communityId),
+  ]);
+  if (!cSnap.exists || !tSnap.exists) return { error: 'not-found' };
+  const target = tSnap.data() as ModeratedDoc;
+  if (target.communityId !== communityId) return { error: 'not-found' };
+  if (!can(actor, action, { communityId, authorId: target.authorId })) return { error: 'forbidden' };
+  return { target };
+}
+
+// Resolves to the number of live (not soft-deleted) comments removed.
+async function deleteCommentsForPost(postId: string): Promise<number> {
+  let live = 0;
+  for (;;) {
+    const snap = await db.collection('comments').where('postId', '==', postId).limit(BATCH_LIMIT).get();
+    if (snap.empty) return live;
+    const batch = db.batch();
+    snap.docs.forEach((d) => {
+      if (!d.get('isDeleted')) live += 1;
+      batch.delete(d.ref);
+    });
+    await batch.commit();
+  }
+}
+
+export function registerModerationHandlers(io: RealtimeServer, socket: RealtimeSocket, replay: ReplayLog) {
+  socket.on('post:delete', async (payload, ack) => {
+    const user = requireUser(socket, 'post:delete', ack);
+    if (!user) return;
+    const postId = payload && payload.postId;
+    const communityId = payload && payload.communityId;
+    if (typeof postId !== 'string' || !postId || typeof communityId !== 'string' || !communityId) {
+      return reply(ack, { ok: false, error: 'invalid-payload' });
+    }
+    try {
+      const postRef = db.collection('posts').doc(postId);
+      const { error } = await authorize(user, communityId, postRef, 'content:delete');
+      if (error) return reply(ack, { ok: false, error });
+      await postRef.delete();
+      const removedComments = await deleteCommentsForPost(postId);
+      await db.collection('communities').doc(communityId).update({
+        postCount: FieldValue.increment(-1),
+        commentCount: FieldValue.increment(-removedComments),
+      });
+      await replay.publish(io, `community:${communityId}`, 'post:deleted', { postId, communityId, by: user.uid });
+      reply(ack, { ok: true });
+    } catch (err) {
+      console.error('[moderation] post:delete failed', postId, err);
+      reply(ack, { ok: false, error: 'server-error' });
+    }
+  });
+
+  // Comments are soft-deleted so replies keep their place in the thread.
+  socket.on('comment:delete', async (payload, ack) => {
+    const user = requireUser(socket, 'comment:delete', ack);
+    if (!user) return;
+    const commentId = payload && payload.commentId;
+    const communityId = payload && payload.communityId;
+    if (typeof commentId !== 'string' || !commentId || typeof communityId !== 'string' || !communityId) {
+      return reply(ack, { ok: false, error: 'invalid-payload' });
+    }
+    try {
+      const commentRef = db.collection('comments').doc(commentId);
+      const { target, error } = await authorize(user, communityId, commentRef, 'content:delete');
+      if (error) return reply(ack, { ok: false, error });
+      const batch = db.batch();
+      batch.update(commentRef, { isDeleted: true, content: '', media: [], updatedAt: FieldValue.serverTimestamp() });
+      if (!target.isDeleted) {
+        batch.update(db.collection('posts').doc(target.postId as string), { commentCount: FieldValue.increment(-1) });
+        batch.update(db.collection('communities').doc(communityId), { commentCount: FieldValue.increment(-1) });
+      }
+      await batch.commit();
+      await replay.publish(io, `community:${communityId}`, 'comment:deleted', { commentId, communityId, by: user.uid });
+      reply(ack, { ok: true });
+    } catch (err) {
+      console.error('[moderation] comment:delete failed', commentId, err);
+      reply(ack, { ok: false, error: 'server-error' });
+    }
+  });
+
+  // Clears every reaction of one emoji from a post or comment.
+  socket.on('reaction:remove', async (payload, ack) => {
+    const user = requireUser(socket, 'reaction:remove', ack);
+    if (!user) return;
+    const { targetId, targetType, emoji, communityId } = payload || {};
+    if (
+      typeof targetId !== 'string' || !targetId ||
+      (targetType !== 'post' && targetType !== 'comment') ||
+      typeof emoji !== 'string' || !emoji ||
+      typeof communityId !== 'string' || !communityId
+    ) {
+      return reply(ack, { ok: false, error: 'invalid-payload' });
+    }
+    try {
+      const targetRef = db.collection(targetType === 'post' ? 'posts' : 'comments').doc(targetId);
+      const { error } = await authorize(user, communityId, targetRef, 'reaction:remove');
+      if (error) return reply(ack, { ok: false, error });
+      await targetRef.update(new FieldPath('reactions', emoji), FieldValue.delete());
+      await replay.publish(io, `community:${communityId}`, 'reaction:removed', { targetId, targetType, emoji, communityId, by: user.uid });
+      reply(ack, { ok: true });
+    } catch (err) {
+      console.error('[moderation] reaction:remove failed', targetId, err);
+      reply(ack, { ok: false, error: 'server-error' });
+    }
+  });
+}
@@ -0,0 +1,38 @@
+import { admin, db } from './firebase';
+
+const { FieldValue } = admin.firestore;
+
+const BATCH_LIMIT = 450;
+
+// Same document shape as NotificationService.createNotification in the web
+// app, which only runs in the browser; the server writes with the Admin SDK.
+export interface ServerNotification {
+  type: 'comment' | 'reaction' | 'follow' | 'mention' | 'achievement' | 'poll' | 'post' | 'streak';
+  title: string;
+  message: string;
+  data: {
+    targetId?: string;
+    targetType?: string;
+    communityId?: string;
+    actionUrl?: string;
+    [key: string]: unknown;
+  };
+}
+
+// One notification per user, written in batches.
+export async function notifyUsers(userIds: Iterable<string>, notification: ServerNotification): Promise<number> {
+  const ids = [...new Set(userIds)];
+  for (let i = 0; i < ids.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    for (const userId of ids.slice(i, i + BATCH_LIMIT)) {
+      batch.set(db.collection('notifications').doc(), {
+        ...notification,
+        userId,
+        isRead: false,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    }
+    await batch.commit();
+  }
+  return ids.length;
+}
@@ -0,0 +1,169 @@
+import type { Express, Response } from 'express';
+import {
+  isExportFormat,
+  resultOptions,
+  toCsv,
+  type PollExport,
+  type PollSummary,
+  type PublicPollResults,
+  type VoterRow,
+} from '../shared/poll-export';
+import { can, type Actor } from '../shared/permissions';
+import type { FinalResults } from '../shared/poll-results';
+import { checkCommunityAccess } from './access';
+import { authenticateRequest } from './auth';
+import { db } from './firebase';
+import { isOpen, tallyPoll, toMillis } from './polls';
+import { globalRole, loadActor } from './roles';
+import type { SocketUser } from './types';
+
+// Poll results outside the app, over HTTP:
+//
+//   GET /polls/:pollId/results  public results for the /embed/poll/:pollId
+//                               route; no sign-in, polls of private
+//                               communities are not found
+//   GET /polls/:pollId/export   ?format=csv|json, for the poll's creator and
+//                               the community's moderators (Bearer ID token)
+//
+// The export lists voters only when the poll is not anonymous.
+
+type Snapshot = FirebaseFirestore.DocumentSnapshot;
+
+function iso(value: unknown): string | null {
+  const millis = toMillis(value);
+  return millis === undefined ? null : new Date(millis).toISOString();
+}
+
+function toSummary(snap: Snapshot): PollSummary {
+  return {
+    id: snap.id,
+    title: snap.get('title') ?? '',
+    description: snap.get('description') || null,
+    type: snap.get('type') ?? 'single',
+    status: snap.get('status') ?? 'active',
+    communityId: snap.get('communityId') || null,
+    isAnonymous: snap.get('isAnonymous') === true,
+    totalVotes: snap.get('totalVotes') ?? 0,
+    createdAt: iso(snap.get('createdAt')),
+    startsAt: iso(snap.get('startsAt')),
+    endsAt: iso(snap.get('endsAt')),
+    endedAt: iso(snap.get('endedAt')),
+  };
+}
+
+function optionsOf(snap: Snapshot): { id: string; text: string }[] {
+  return (snap.get('options') ?? []).map((o: { id: string; text?: string }) => ({ id: o.id, text: o.text ?? '' }));
+}
+
+// Mirrors resultsVisible in pollService for a viewer who has not voted
+function resultsPublic(snap: Snapshot): boolean {
+  return !isOpen(snap) || snap.get('settings.showResults') === 'always';
+}
+
+async function currentResults(snap: Snapshot): Promise<FinalResults> {
+  return (snap.get('finalResults') as FinalResults | null) ?? tallyPoll(snap);
+}
+
+async function mayExport(user: SocketUser, snap: Snapshot): Promise<boolean> {
+  if (snap.get('createdBy') === user.uid) return true;
+  const communityId: string | undefined = snap.get('communityId') || undefined;
+  const actor: Actor = communityId ? await loadActor(user, communityId) : { uid: user.uid, role: globalRole(user) };
+  return can(actor, 'content:moderate', { communityId });
+}
+
+// Single and multiple choice picks are in the voters' private records; ranked
+// ballots and open-ended answers carry the uid for polls that are not anonymous.
+async function loadVoters(snap: Snapshot): Promise<VoterRow[]> {
+  const textOf = new Map(optionsOf(snap).map((o) => [o.id, o.text]));
+  const choices = (ids: unknown) => (Array.isArray(ids) ? ids : []).map((id) => textOf.get(id) ?? String(id));
+  const type = snap.get('type') ?? 'single';
+
+  let rows: VoterRow[];
+  if (type === 'ranked' || type === 'open-ended') {
+    const ballots = await snap.ref.collection(type === 'ranked' ? 'ballots' : 'responses').get();
+    rows = ballots.docs
+      .filter((d) => typeof d.get('uid') === 'string')
+      .map((d) => ({
+        uid: d.get('uid'),
+        displayName: null,
+        votedAt: iso(d.get('createdAt')),
+        choices: choices(d.get('ranking')),
+        ...(type === 'open-ended' ? { response: String(d.get('text') ?? ''), status: d.get('status') } : {}),
+      }));
+  } else {
+    const votes = await snap.ref.collection('votes').get();
+    rows = votes.docs.map((d) => ({
+      uid: d.id,
+      displayName: null,
+      votedAt: iso(d.get('createdAt')),
+      choices: choices(d.get('optionIds')),
+    }));
+  }
+  rows.sort((a, b) => (a.votedAt ?? '').localeCompare(b.votedAt ?? ''));
+
+  if (rows.length) {
+    const users = await db.getAll(...rows.map((r) => db.collection('users').doc(r.uid)));
+    const names = new Map(users.map((u) => [u.id, (u.exists && u.get('displayName')) || null]));
+    for (const row of rows) row.displayName = names.get(row.uid) ?? null;
+  }
+  return rows;
+}
+
+function fail(res: Response, status: number, error: string) {
+  res.status(status).json({ ok: false, error });
+}
+
+export function registerPollRoutes(app: Express) {
+  app.get('/polls/:pollId/results', async (req, res) => {
+    try {
+      const snap = await db.collection('polls').doc(req.params.pollId).get();
+      if (!snap.exists) return fail(res, 404, 'not-found');
+      const communityId: string | undefined = snap.get('communityId') || undefined;
+      if (communityId && (await checkCommunityAccess(null, communityId))) return fail(res, 404, 'not-found');
+
+      const frozen = snap.get('finalResults') as FinalResults | null;
+      const body: PublicPollResults = {
+        poll: toSummary(snap),
+        options: optionsOf(snap),
+        results: frozen ?? (resultsPublic(snap) ? await tallyPoll(snap) : null),
+        final: Boolean(frozen),
+      };
+      res.set('Cache-Control', 'no-store').json(body);
+    } catch (err) {
+      console.error('[polls] results failed', req.params.pollId, err);
+      fail(res, 500, 'server-error');
+    }
+  });
+
+  app.get('/polls/:pollId/export', async (req, res) => {
+    const format = req.query.format ?? 'json';
+    if (!isExportFormat(format)) return fail(res, 400, 'invalid-format');
+    try {
+      const user = await authenticateRequest(req);
+      if (!user) return fail(res, 401, 'unauthenticated');
+      const snap = await db.collection('polls').doc(req.params.pollId).get();
+      if (!snap.exists) return fail(res, 404, 'not-found');
+      if (!(await mayExport(user, snap))) return fail(res, 403, 'forbidden');
+
+      const summary = toSummary(snap);
+      const results = await currentResults(snap);
+      const data: PollExport = {
+        poll: { ...summary, exportedAt: new Date().toISOString() },
+        options: resultOptions(optionsOf(snap), results),
+        results,
+        ...(summary.isAnonymous ? {} : { voters: await loadVoters(snap) }),
+      };
+
+      res.set('Cache-Control', 'no-store');
+      res.attachment(`poll-${snap.id}.${format}`);
+      if (format === 'csv') {
+        res.type('text/csv').send(toCsv(data));
+      } else {
+        res.json(data);
+      }
+    } catch (err) {
+      console.error('[polls] export failed', req.params.pollId, err);
+      fail(res, 500, 'server-error');
+    }
+  });
+}
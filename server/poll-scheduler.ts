@@ -0,0 +1,143 @@
+import type { FinalResults } from '../shared/poll-results';
+import { admin, db } from './firebase';
+import { notifyUsers } from './notifications';
+import { tallyPoll, toMillis } from './polls';
+
+const { FieldValue, Timestamp } = admin.firestore;
+
+const POLL_SCHEDULER_INTERVAL_MS = Number(process.env.POLL_SCHEDULER_INTERVAL_MS) || 30_000;
+// Polls handled per query per tick; the rest wait for the next one
+const TICK_LIMIT = 50;
+
+// Moves polls through their lifecycle on a timer:
+//   draft  -> active  once startsAt has passed
+//   active -> ended   once endsAt has passed (paused polls too)
+// and freezes the results of every ended poll into finalResults, including
+// polls their creator ended by hand, then notifies the voters.
+//
+// Each step is a transaction that re-reads the poll, so when several server
+// nodes run the scheduler only one of them finalizes a poll and sends its
+// notifications.
+
+type PollRef = FirebaseFirestore.DocumentReference;
+
+async function openPoll(ref: PollRef, now: number): Promise<boolean> {
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const startsAt = toMillis(snap.get('startsAt'));
+    if (snap.get('status') !== 'draft' || startsAt === undefined || startsAt > now) return false;
+    tx.update(ref, { status: 'active' });
+    return true;
+  });
+}
+
+interface Finalized {
+  title: string;
+  communityId?: string;
+  winner?: string;
+  results: FinalResults;
+}
+
+// Ends the poll if it is due and freezes its results. Resolves to null when
+// there was nothing to do, e.g. another node got there first.
+async function finalizePoll(ref: PollRef, now: number): Promise<Finalized | null> {
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists || snap.get('finalResults')) return null;
+    const status = snap.get('status');
+    const endsAt = toMillis(snap.get('endsAt'));
+    const expired = (status === 'active' || status === 'paused') && endsAt !== undefined && endsAt <= now;
+    if (status !== 'ended' && !expired) return null;
+
+    const results = await tallyPoll(snap, (query) => tx.get(query));
+    tx.update(ref, {
+      status: 'ended',
+      endedAt: snap.get('endedAt') ?? FieldValue.serverTimestamp(),
+      finalResults: results,
+    });
+
+    const options: { id: string; text: string }[] = snap.get('options') ?? [];
+    return {
+      title: snap.get('title') ?? '',
+      communityId: snap.get('communityId') || undefined,
+      winner: options.find((o) => o.id === results.winner)?.text,
+      results,
+    };
+  });
+}
+
+// Voters are the ids of the votes subcollection, which anonymous polls keep
+// as well; the notification says nothing about how anyone voted.
+async function notifyVoters(ref: PollRef, poll: Finalized): Promise<number> {
+  const votes = await ref.collection('votes').select().get();
+  if (votes.empty) return 0;
+  return notifyUsers(votes.docs.map((d) => d.id), {
+    type: 'poll',
+    title: 'Poll results are in',
+    message: poll.winner
+      ? `"${poll.title}" has closed. Winner: ${poll.winner}`
+      : `"${poll.title}" has closed. See the final results.`,
+    data: {
+      targetId: ref.id,
+      targetType: 'poll',
+      communityId: poll.communityId,
+      actionUrl: poll.communityId ? `/c/${poll.communityId}#polls` : undefined,
+    },
+  });
+}
+
+// One pass over due polls; exported for scripts and tests.
+export async function runPollScheduler(now = Date.now()): Promise<{ opened: number; closed: number }> {
+  const polls = db.collection('polls');
+  const at = Timestamp.fromMillis(now);
+  const [drafts, expired, ended] = await Promise.all([
+    polls.where('status', '==', 'draft').where('startsAt', '<=', at).limit(TICK_LIMIT).get(),
+    polls.where('status', 'in', ['active', 'paused']).where('endsAt', '<=', at).limit(TICK_LIMIT).get(),
+    // Ended by their creator; createPoll writes finalResults: null
+    polls.where('status', '==', 'ended').where('finalResults', '==', null).limit(TICK_LIMIT).get(),
+  ]);
+
+  let opened = 0;
+  for (const d of drafts.docs) {
+    if (await openPoll(d.ref, now)) opened += 1;
+  }
+
+  let closed = 0;
+  for (const d of [...expired.docs, ...ended.docs]) {
+    const poll = await finalizePoll(d.ref, now);
+    if (!poll) continue;
+    closed += 1;
+    try {
+      await notifyVoters(d.ref, poll);
+    } catch (err) {
+      console.error(`[poll-scheduler] notifying voters of ${d.id} failed`, err);
+    }
+  }
+  return { opened, closed };
+}
+
+// Runs the scheduler every POLL_SCHEDULER_INTERVAL_MS, skipping a tick while
+// the previous one is still going.
+export function startPollScheduler(intervalMs = POLL_SCHEDULER_INTERVAL_MS) {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { opened, closed } = await runPollScheduler();
+      if (opened || closed) console.log(`[poll-scheduler] opened ${opened}, closed ${closed}`);
+    } catch (err) {
+      console.error('[poll-scheduler] tick failed', err);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+
+  return {
+    close: () => clearInterval(timer),
+  };
+}
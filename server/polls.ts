@@ -0,0 +1,225 @@
+import type { AnswerInput } from '../shared/answer-clusters';
+import { computeFinalResults, type ClosingPoll, type FinalResults } from '../shared/poll-results';
+import type {
+  AckError,
+  AckResult,
+  CastPollVotePayload,
+  PollBroadcast,
+  PollVote,
+  PollVotePayload,
+} from '../shared/socket-events';
+import { checkCommunityAccess } from './access';
+import { reply } from './ack';
+import { requireUser } from './auth';
+import { admin, db } from './firebase';
+import type { ReplayLog } from './replay';
+import type { RealtimeSocket, SocketUser } from './types';
+
+const { FieldValue } = admin.firestore;
+
+type Snapshot = FirebaseFirestore.DocumentSnapshot;
+
+interface OptionDoc {
+  id: string;
+  text?: string;
+  votes?: number;
+  voters?: string[];
+}
+
+// Thrown inside the vote transaction to abort with an ack error code.
+class PollError extends Error {
+  code: AckError;
+
+  constructor(code: AckError) {
+    super(code);
+    this.code = code;
+  }
+}
+
+// Mirrors isOpen in pollService: a poll past endsAt is closed before the
+// scheduler gets to it
+export function isOpen(snap: Snapshot, now = Date.now()): boolean {
+  const endsAt = toMillis(snap.get('endsAt'));
+  return snap.get('status') === 'active' && (endsAt === undefined || endsAt > now);
+}
+
+async function assertCanVote(user: SocketUser, communityId: string) {
+  const error = await checkCommunityAccess(user, communityId);
+  if (error) throw new PollError(error === 'join-denied' ? 'forbidden' : error);
+}
+
+// Single and multiple choice votes. The voter's private votes/{uid} record
+// is created in the transaction that counts the picks, so a second vote from
+// another tab finds it and fails with 'already-voted'. Resolves to the vote
+// as relayed: without the voter when the poll is anonymous.
+async function castPollVote(user: SocketUser, { pollId, optionIds }: CastPollVotePayload): Promise<PollVote> {
+  const ref = db.collection('polls').doc(pollId);
+  const found = await ref.get();
+  if (!found.exists) throw new PollError('not-found');
+  const communityId: string | undefined = found.get('communityId') || undefined;
+  if (communityId) await assertCanVote(user, communityId);
+
+  const chosen = [...new Set(optionIds)];
+  const anonymous = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new PollError('not-found');
+    const type = snap.get('type') ?? 'single';
+    if (type !== 'single' && type !== 'multiple') throw new PollError('invalid-payload');
+    if (!isOpen(snap)) throw new PollError('closed');
+    const voteRef = ref.collection('votes').doc(user.uid);
+    if ((await tx.get(voteRef)).exists) throw new PollError('already-voted');
+
+    const options: OptionDoc[] = snap.get('options') ?? [];
+    if (chosen.length === 0 || chosen.some((id) => !options.some((o) => o.id === id))) throw new PollError('invalid-payload');
+    const max = type === 'single' ? 1 : Number(snap.get('settings.maxVotesPerUser')) || options.length;
+    if (chosen.length > max) throw new PollError('too-many-choices');
+
+    const isAnonymous = snap.get('isAnonymous') === true;
+    tx.create(voteRef, { uid: user.uid, optionIds: chosen, createdAt: FieldValue.serverTimestamp() });
+    tx.update(ref, {
+      options: options.map((o) => (chosen.includes(o.id)
+        ? { ...o, votes: (o.votes ?? 0) + 1, voters: isAnonymous ? o.voters ?? [] : [...(o.voters ?? []), user.uid] }
+        : o)),
+      totalVotes: FieldValue.increment(1),
+      ...(isAnonymous ? {} : { uniqueVoters: FieldValue.arrayUnion(user.uid) }),
+      lastVoteAt: FieldValue.serverTimestamp(),
+    });
+    return isAnonymous;
+  });
+  return anonymous ? { pollId, optionId: chosen[0], communityId } : { pollId, optionId: chosen[0], communityId, userId: user.uid };
+}
+
+// What poll:new announces, read from the poll itself: only its creator may
+// announce it, only once it is open and only to those who can see it.
+// Resolves to null when the announcement is refused.
+async function announcement(user: SocketUser, pollId: string): Promise<PollBroadcast | null> {
+  const snap = await db.collection('polls').doc(pollId).get();
+  if (!snap.exists || snap.get('createdBy') !== user.uid || !isOpen(snap)) return null;
+  const communityId: string | undefined = snap.get('communityId') || undefined;
+  if (communityId && await checkCommunityAccess(user, communityId)) return null;
+  const options: OptionDoc[] = snap.get('options') ?? [];
+  return {
+    id: snap.id,
+    communityId,
+    title: String(snap.get('title') ?? ''),
+    options: options.map((o) => ({ id: o.id, text: String(o.text ?? '') })),
+  };
+}
+
+// The vote poll:vote relays for a ranked ballot, from the ballot the voter
+// cast: its first choice, and the voter unless the poll is anonymous.
+// Single and multiple choice votes are relayed by poll:cast. Resolves to
+// null when there is no such ballot or it names another option first.
+async function rankedVote(user: SocketUser, { pollId, optionId }: PollVotePayload): Promise<PollVote | null> {
+  const ref = db.collection('polls').doc(pollId);
+  const [snap, record] = await Promise.all([ref.get(), ref.collection('votes').doc(user.uid).get()]);
+  if (!snap.exists || snap.get('type') !== 'ranked') return null;
+  const communityId: string | undefined = snap.get('communityId') || undefined;
+  if (communityId && await checkCommunityAccess(user, communityId)) return null;
+  const ballotId = record.get('ballotId');
+  if (typeof ballotId !== 'string') return null;
+  const ballot = await ref.collection('ballots').doc(ballotId).get();
+  const ranking = ballot.get('ranking');
+  if (!Array.isArray(ranking) || ranking[0] !== optionId) return null;
+  return snap.get('isAnonymous') === true
+    ? { pollId, optionId, communityId }
+    : { pollId, optionId, communityId, userId: user.uid };
+}
+
+// To the poll's community room, or to everyone for polls outside one
+async function relayVote(socket: RealtimeSocket, replay: ReplayLog, vote: PollVote) {
+  if (vote.communityId) {
+    await replay.publish(socket, `community:${vote.communityId}`, 'poll:vote', vote);
+  } else {
+    socket.broadcast.emit('poll:vote', vote);
+  }
+}
+
+function fail(ack: ((res: AckResult) => void) | undefined, event: string, err: unknown) {
+  if (err instanceof PollError) return reply(ack, { ok: false, error: err.code });
+  console.error(`[polls] ${event} failed`, err);
+  reply(ack, { ok: false, error: 'server-error' });
+}
+
+// Polls are created by the client (web/src/features/polls/pollService.ts),
+// and ranked ballots and open-ended answers written by it; single and
+// multiple choice votes go through poll:cast. poll:new and poll:vote only
+// name what the client wrote: the server reads it back and relays what is
+// stored to the community room, or to everyone for polls outside a
+// community. Anything it can't find or the sender may not see is dropped.
+export function registerPollHandlers(socket: RealtimeSocket, replay: ReplayLog) {
+  socket.on('poll:cast', async (payload, ack) => {
+    const user = requireUser(socket, 'poll:cast', ack);
+    if (!user) return;
+    try {
+      const vote = await castPollVote(user, payload);
+      await relayVote(socket, replay, vote);
+      reply(ack, { ok: true });
+    } catch (err) {
+      fail(ack, 'poll:cast', err);
+    }
+  });
+
+  socket.on('poll:new', async ({ id: pollId }) => {
+    const user = requireUser(socket, 'poll:new');
+    if (!user) return;
+    try {
+      const poll = await announcement(user, pollId);
+      if (!poll) return;
+      if (poll.communityId) {
+        await replay.publish(socket, `community:${poll.communityId}`, 'poll:new', poll);
+      } else {
+        socket.broadcast.emit('poll:new', poll);
+      }
+    } catch (err) {
+      console.error('[polls] poll:new failed', err);
+    }
+  });
+
+  socket.on('poll:vote', async (payload) => {
+    const user = requireUser(socket, 'poll:vote');
+    if (!user) return;
+    try {
+      const vote = await rankedVote(user, payload);
+      if (vote) await relayVote(socket, replay, vote);
+    } catch (err) {
+      console.error('[polls] poll:vote failed', err);
+    }
+  });
+}
+
+// query.get() outside a transaction, tx.get(query) inside one
+type ReadQuery = (query: FirebaseFirestore.Query) => Promise<FirebaseFirestore.QuerySnapshot>;
+
+export function toMillis(value: unknown): number | undefined {
+  return value instanceof admin.firestore.Timestamp ? value.toMillis() : undefined;
+}
+
+function toClosingPoll(snap: Snapshot): ClosingPoll {
+  return {
+    type: snap.get('type') ?? 'single',
+    options: (snap.get('options') ?? []).map((o: { id: string; votes?: number }) => ({ id: o.id, votes: o.votes ?? 0 })),
+    totalVotes: snap.get('totalVotes') ?? 0,
+  };
+}
+
+// Tallies the poll as it stands: ranked polls from their ballots, open-ended
+// polls from their approved answers in the order they were given.
+export async function tallyPoll(snap: Snapshot, read: ReadQuery = (query) => query.get()): Promise<FinalResults> {
+  const poll = toClosingPoll(snap);
+  let rankings: string[][] = [];
+  let answers: AnswerInput[] = [];
+  if (poll.type === 'ranked') {
+    const ballots = await read(snap.ref.collection('ballots'));
+    rankings = ballots.docs.map((d) => {
+      const ranking = d.get('ranking');
+      return Array.isArray(ranking) ? ranking.filter((x): x is string => typeof x === 'string') : [];
+    });
+  } else if (poll.type === 'open-ended') {
+    const responses = await read(snap.ref.collection('responses').where('status', '==', 'approved'));
+    answers = responses.docs
+      .map((d) => ({ id: d.id, text: String(d.get('text') ?? ''), at: toMillis(d.get('createdAt')) ?? 0 }))
+      .sort((a, b) => a.at - b.at);
+  }
+  return computeFinalResults(poll, rankings, answers);
+}
@@ -0,0 +1,156 @@
+import type { PresenceMember } from '../shared/socket-events';
+import { checkCommunityAccess } from './access';
+import { reply } from './ack';
+import { db } from './firebase';
+import type { PresenceState, Profile, RealtimeServer, RealtimeSocket, SocketData, SocketUser } from './types';
+
+const MAX_COUNT_QUERIES = 20;
+
+// Presence is derived from the sockets currently in `community:{id}` and the
+// data stored on them, via fetchSockets(), so it stays correct across nodes
+// when the Redis adapter is in use. A user with several tabs has several
+// sockets; they are folded into one member. Every joining tab re-announces
+// the merged member with presence:join (clients upsert by uid), and only the
+// last tab to leave produces presence:leave.
+// Dead connections are detected by Socket.io's own ping/pong, which ends in
+// `disconnecting`; the client heartbeat only refreshes lastHeartbeat.
+
+// Only called for authenticated sockets.
+export async function displayNameFor(socket: RealtimeSocket): Promise<Profile> {
+  const user = socket.data.user as SocketUser;
+  if (!socket.data.profile) {
+    let profile: Profile = { displayName: user.displayName, photoURL: null };
+    try {
+      const snap = await db.collection('users').doc(user.uid).get();
+      if (snap.exists) {
+        profile = {
+          displayName: snap.get('displayName') || user.displayName,
+          photoURL: snap.get('photoURL') || null,
+        };
+      }
+    } catch (err) {
+      console.warn('[presence] profile lookup failed', user.uid, (err as Error).message || err);
+    }
+    socket.data.profile = profile;
+  }
+  return socket.data.profile;
+}
+
+type PresentData = SocketData & { user: SocketUser; presence: PresenceState };
+
+function toMember(socketData: PresentData, communityId: string): Omit<PresenceMember, 'connections'> {
+  const user = socketData.user;
+  const profile: Partial<Profile> = socketData.profile || {};
+  return {
+    uid: user.uid,
+    displayName: profile.displayName || user.displayName || 'Member',
+    photoURL: profile.photoURL || null,
+    joinedAt: socketData.presence.joinedAt[communityId],
+    lastHeartbeat: socketData.presence.lastHeartbeat,
+  };
+}
+
+// Folds the sockets in a community room into one entry per uid.
+async function roomMembers(io: RealtimeServer, communityId: string, { exceptSocketId }: { exceptSocketId?: string } = {}) {
+  const sockets = await io.in(`community:${communityId}`).fetchSockets();
+  const members = new Map<string, PresenceMember>();
+  for (const s of sockets) {
+    if (s.id === exceptSocketId || !s.data.user || !s.data.presence) continue;
+    if (!s.data.presence.joinedAt[communityId]) continue;
+    const member = toMember(s.data as PresentData, communityId);
+    const existing = members.get(member.uid);
+    if (existing) {
+      existing.joinedAt = Math.min(existing.joinedAt, member.joinedAt);
+      existing.lastHeartbeat = Math.max(existing.lastHeartbeat, member.lastHeartbeat);
+      existing.connections += 1;
+    } else {
+      members.set(member.uid, { ...member, connections: 1 });
+    }
+  }
+  return Array.from(members.values());
+}
+
+function ensurePresence(socket: RealtimeSocket): PresenceState {
+  if (!socket.data.presence) socket.data.presence = { joinedAt: {}, lastHeartbeat: Date.now() };
+  return socket.data.presence;
+}
+
+// Called by the room:join handler once the socket is in the room.
+// `alreadyJoined` is true when this socket was in the room before.
+export async function trackJoin(io: RealtimeServer, socket: RealtimeSocket, communityId: string, alreadyJoined: boolean) {
+  if (socket.data.user && !alreadyJoined) {
+    await displayNameFor(socket);
+    const presence = ensurePresence(socket);
+    presence.joinedAt[communityId] = Date.now();
+    const members = await roomMembers(io, communityId);
+    const self = members.find((m) => m.uid === socket.data.user?.uid);
+    if (self) {
+      socket.to(`community:${communityId}`).emit('presence:join', { communityId, member: self });
+    }
+    socket.emit('presence:snapshot', { communityId, members });
+    return;
+  }
+  socket.emit('presence:snapshot', { communityId, members: await roomMembers(io, communityId) });
+}
+
+// Called before the socket leaves the room (room:leave or disconnecting).
+export async function trackLeave(io: RealtimeServer, socket: RealtimeSocket, communityId: string) {
+  const user = socket.data.user;
+  const presence = socket.data.presence;
+  if (!user || !presence || !presence.joinedAt[communityId]) return;
+  delete presence.joinedAt[communityId];
+  const remaining = await roomMembers(io, communityId, { exceptSocketId: socket.id });
+  if (!remaining.some((m) => m.uid === user.uid)) {
+    socket.to(`community:${communityId}`).emit('presence:leave', { communityId, uid: user.uid });
+  }
+}
+
+function communityIdsOf(socket: RealtimeSocket): string[] {
+  return Array.from(socket.rooms)
+    .filter((room) => room.startsWith('community:'))
+    .map((room) => room.slice('community:'.length));
+}
+
+export function registerPresenceHandlers(io: RealtimeServer, socket: RealtimeSocket) {
+  socket.on('presence:heartbeat', () => {
+    if (!socket.data.user) return;
+    ensurePresence(socket).lastHeartbeat = Date.now();
+  });
+
+  // Snapshot for a room the socket is already in (e.g. a late-mounting hook).
+  socket.on('presence:get', async (communityId, ack) => {
+    if (typeof communityId !== 'string' || !socket.rooms.has(`community:${communityId}`)) {
+      return reply(ack, { ok: false, error: 'not-joined' });
+    }
+    try {
+      reply(ack, { ok: true, members: await roomMembers(io, communityId) });
+    } catch (err) {
+      console.error('[presence] presence:get failed', communityId, err);
+      reply(ack, { ok: false, error: 'server-error' });
+    }
+  });
+
+  // Online counts for communities the caller may see, without joining them.
+  socket.on('presence:counts', async (communityIds, ack) => {
+    if (!Array.isArray(communityIds) || communityIds.length > MAX_COUNT_QUERIES || !communityIds.every((id) => typeof id === 'string' && id)) {
+      return reply(ack, { ok: false, error: 'invalid-payload' });
+    }
+    try {
+      const counts: Record<string, number> = {};
+      await Promise.all(communityIds.map(async (id) => {
+        if (await checkCommunityAccess(socket.data.user, id)) return;
+        counts[id] = (await roomMembers(io, id)).length;
+      }));
+      reply(ack, { ok: true, counts });
+    } catch (err) {
+      console.error('[presence] presence:counts failed', err);
+      reply(ack, { ok: false, error: 'server-error' });
+    }
+  });
+
+  socket.on('disconnecting', () => {
+    communityIdsOf(socket).forEach((communityId) => {
+      trackLeave(io, socket, communityId).catch((err) => console.error('[presence] leave failed', communityId, err));
+    });
+  });
+}
@@ -0,0 +1,113 @@
+// Token buckets per caller and event type. Each bucket holds up to `burst`
+// tokens and refills at `perMinute`; an event costs one token. Callers are
+// keyed by uid, so a user's tabs share a budget, and anonymous sockets by IP.
+// Buckets live in this process: with several nodes each enforces its own.
+//
+// Limits can be overridden with RATE_LIMITS, a JSON object keyed by event:
+//   RATE_LIMITS='{"post:create":{"burst":10,"perMinute":30}}'
+// The '*' entry applies to every event without its own limit.
+export interface Limit {
+  burst: number;
+  perMinute: number;
+}
+
+export interface RateLimiter {
+  take(caller: string, event: string): { ok: true } | { ok: false; retryAfterMs: number };
+  close(): void;
+}
+
+export const DEFAULT_LIMITS: Record<string, Limit> = {
+  '*': { burst: 60, perMinute: 600 },
+  'post:create': { burst: 3, perMinute: 5 },
+  'comment:create': { burst: 5, perMinute: 20 },
+  'vote:cast': { burst: 20, perMinute: 60 },
+  'reaction:toggle': { burst: 20, perMinute: 60 },
+  'community:follow': { burst: 10, perMinute: 30 },
+  'achievementRule:save': { burst: 5, perMinute: 20 },
+  'achievementRule:delete': { burst: 5, perMinute: 20 },
+  'season:start': { burst: 2, perMinute: 5 },
+  'season:end': { burst: 2, perMinute: 5 },
+  'voteCase:resolve': { burst: 5, perMinute: 20 },
+  'poll:new': { burst: 3, perMinute: 5 },
+  'poll:cast': { burst: 10, perMinute: 30 },
+  'poll:vote': { burst: 10, perMinute: 30 },
+  'user:activity': { burst: 10, perMinute: 30 },
+  'typing:start': { burst: 10, perMinute: 60 },
+  'room:join': { burst: 20, perMinute: 60 },
+  'presence:counts': { burst: 5, perMinute: 10 },
+  'replay:request': { burst: 20, perMinute: 60 },
+};
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+function isLimit(value: unknown): value is Limit {
+  const limit = value as Partial<Limit> | null;
+  return Boolean(limit) && Number(limit?.burst) > 0 && Number(limit?.perMinute) > 0;
+}
+
+function limitsFromEnv(raw = process.env.RATE_LIMITS): Record<string, Limit> {
+  if (!raw) return {};
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`RATE_LIMITS is not valid JSON: ${(err as Error).message}`);
+  }
+  for (const [event, limit] of Object.entries(parsed)) {
+    if (!isLimit(limit)) throw new Error(`RATE_LIMITS["${event}"] needs positive "burst" and "perMinute"`);
+  }
+  return parsed as Record<string, Limit>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export function createRateLimiter({ limits = limitsFromEnv(), now = Date.now }: { limits?: Record<string, Limit>; now?: () => number } = {}): RateLimiter {
+  const config = { ...DEFAULT_LIMITS, ...limits };
+  // `${caller}|${event}` -> bucket
+  const buckets = new Map<string, Bucket>();
+
+  const limitFor = (event: string) => config[event] || config['*'];
+
+  function refill(bucket: Bucket, limit: Limit, at: number) {
+    const elapsed = at - bucket.updatedAt;
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + (elapsed * limit.perMinute) / 60000);
+    bucket.updatedAt = at;
+  }
+
+  // Returns { ok: true } or { ok: false, retryAfterMs }.
+  function take(caller: string, event: string): ReturnType<RateLimiter['take']> {
+    const limit = limitFor(event);
+    const key = `${caller}|${event}`;
+    const at = now();
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: limit.burst, updatedAt: at };
+      buckets.set(key, bucket);
+    }
+    refill(bucket, limit, at);
+    if (bucket.tokens < 1) {
+      return { ok: false, retryAfterMs: Math.ceil(((1 - bucket.tokens) * 60000) / limit.perMinute) };
+    }
+    bucket.tokens -= 1;
+    return { ok: true };
+  }
+
+  // Full buckets carry no state worth keeping.
+  const sweeper = setInterval(() => {
+    const at = now();
+    for (const [key, bucket] of buckets) {
+      const limit = limitFor(key.slice(key.lastIndexOf('|') + 1));
+      refill(bucket, limit, at);
+      if (bucket.tokens >= limit.burst) buckets.delete(key);
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweeper.unref();
+
+  return {
+    take,
+    close: () => clearInterval(sweeper),
+  };
+}
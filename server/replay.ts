@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import type { RedisClientType } from 'redis';
+import type { ReplayCursor, ReplayEntry, ReplayResult, SequencedEvent, SequencedPayload } from '../shared/socket-events';
+import { reply } from './ack';
+import type { RealtimeServer, RealtimeSocket } from './types';
+
+// Missed-event replay. Room events that change what clients display go
+// through publish(), which stamps each one with a per-room sequence number
+// and appends it to a bounded log. The sequence travels as a second emit
+// argument, `{ room, seq, epoch }`, so existing listeners are unaffected.
+// A client that reconnects re-joins its rooms and sends the last sequence it
+// saw; it gets back the events it missed, or `resync: true` when they have
+// already been trimmed from the log or the log itself was reset (new epoch).
+// Ephemeral events (presence, typing, user:activity) are not logged.
+const REPLAY_BUFFER_SIZE = Number(process.env.REPLAY_BUFFER_SIZE) || 200;
+// Redis logs of rooms that go quiet are dropped after this long
+const REPLAY_TTL_SECONDS = 24 * 60 * 60;
+
+interface ReplayStore {
+  epoch(): Promise<string>;
+  append(room: string, entry: Omit<ReplayEntry, 'seq'>): Promise<number>;
+  read(room: string): Promise<{ seq: number; events: ReplayEntry[] }>;
+}
+
+// In-process log: enough for a single node.
+function memoryStore(limit: number): ReplayStore {
+  const epoch = crypto.randomUUID();
+  const rooms = new Map<string, { seq: number; events: ReplayEntry[] }>();
+  const roomLog = (room: string) => {
+    let log = rooms.get(room);
+    if (!log) {
+      log = { seq: 0, events: [] };
+      rooms.set(room, log);
+    }
+    return log;
+  };
+  return {
+    async epoch() {
+      return epoch;
+    },
+    async append(room, entry) {
+      const log = roomLog(room);
+      log.seq += 1;
+      log.events.push({ ...entry, seq: log.seq });
+      if (log.events.length > limit) log.events.splice(0, log.events.length - limit);
+      return log.seq;
+    },
+    async read(room) {
+      const log = roomLog(room);
+      return { seq: log.seq, events: log.events.slice() };
+    },
+  };
+}
+
+// Shared log in Redis, so every node hands out one sequence per room and a
+// client can replay from whichever node it reconnects to.
+function redisStore(client: RedisClientType, limit: number): ReplayStore {
+  let epoch: string | undefined;
+  const seqKey = (room: string) => `replay:${room}:seq`;
+  const logKey = (room: string) => `replay:${room}:log`;
+  return {
+    async epoch() {
+      if (!epoch) {
+        await client.set('replay:epoch', crypto.randomUUID(), { NX: true });
+        epoch = (await client.get('replay:epoch')) || undefined;
+        if (!epoch) throw new Error('replay:epoch is missing');
+      }
+      return epoch;
+    },
+    async append(room, entry) {
+      const seq = await client.incr(seqKey(room));
+      await client.rPush(logKey(room), JSON.stringify({ ...entry, seq }));
+      await client.lTrim(logKey(room), -limit, -1);
+      await Promise.all([client.expire(seqKey(room), REPLAY_TTL_SECONDS), client.expire(logKey(room), REPLAY_TTL_SECONDS)]);
+      return seq;
+    },
+    async read(room) {
+      const [seq, raw] = await Promise.all([client.get(seqKey(room)), client.lRange(logKey(room), 0, -1)]);
+      // Concurrent appends may land slightly out of order
+      const events = raw.map((item) => JSON.parse(item) as ReplayEntry).sort((a, b) => a.seq - b.seq);
+      return { seq: Number(seq) || 0, events };
+    },
+  };
+}
+
+export interface ReplayLog {
+  publish<E extends SequencedEvent>(emitter: RealtimeServer | RealtimeSocket, room: string, event: E, payload: SequencedPayload<E>): Promise<void>;
+  cursor(room: string): Promise<ReplayCursor>;
+  since(room: string, epoch: string, lastSeq: number): Promise<ReplayResult>;
+}
+
+// `redis` is the adapter's command client when SOCKET_ADAPTER=redis.
+export function createReplayLog({ redis, limit = REPLAY_BUFFER_SIZE }: { redis?: RedisClientType | null; limit?: number } = {}): ReplayLog {
+  const store = redis ? redisStore(redis, limit) : memoryStore(limit);
+
+  // Emits to `room` via `emitter` (io, or a socket to exclude the sender).
+  // If the log is unavailable the event still goes out, just without a
+  // sequence; clients then fall back to a resync on their next reconnect.
+  async function publish<E extends SequencedEvent>(emitter: RealtimeServer | RealtimeSocket, room: string, event: E, payload: SequencedPayload<E>) {
+    let meta;
+    try {
+      const seq = await store.append(room, { event, payload });
+      meta = { room, seq, epoch: await store.epoch() };
+    } catch (err) {
+      console.error('[replay] append failed', room, event, (err as Error).message || err);
+    }
+    // The event name is generic here; the payload was checked against it above
+    const target = emitter.to(room) as { emit(event: string, ...args: unknown[]): boolean };
+    if (meta) target.emit(event, payload, meta);
+    else target.emit(event, payload);
+  }
+
+  // The position a client should start from when it joins `room`.
+  async function cursor(room: string): Promise<ReplayCursor> {
+    const [epoch, { seq }] = await Promise.all([store.epoch(), store.read(room)]);
+    return { epoch, seq };
+  }
+
+  // Events after `lastSeq`, or { resync: true } when they cannot be recovered.
+  async function since(room: string, epoch: string, lastSeq: number): Promise<ReplayResult> {
+    const [current, log] = await Promise.all([store.epoch(), store.read(room)]);
+    const base = { epoch: current, seq: log.seq, events: [], resync: false };
+    if (epoch !== current || lastSeq > log.seq) return { ...base, resync: true };
+    if (lastSeq === log.seq) return base;
+    const oldest = log.events.length ? log.events[0].seq : log.seq + 1;
+    if (oldest > lastSeq + 1) return { ...base, resync: true };
+    return { ...base, events: log.events.filter((e) => e.seq > lastSeq) };
+  }
+
+  return { publish, cursor, since };
+}
+
+export function registerReplayHandlers(socket: RealtimeSocket, replay: ReplayLog) {
+  // { communityId, epoch, lastSeq } -> { ok, epoch, seq, events } | { ok, epoch, seq, resync: true }
+  socket.on('replay:request', async (payload, ack) => {
+    const { communityId, epoch, lastSeq } = payload || {};
+    if (typeof communityId !== 'string' || !communityId || typeof epoch !== 'string' || !Number.isInteger(lastSeq) || lastSeq < 0) {
+      return reply(ack, { ok: false, error: 'invalid-payload' });
+    }
+    // Only rooms the socket has (re-)joined, so access was checked by room:join
+    const room = `community:${communityId}`;
+    if (!socket.rooms.has(room)) return reply(ack, { ok: false, error: 'not-joined' });
+    try {
+      reply(ack, { ok: true, ...(await replay.since(room, epoch, lastSeq)) });
+    } catch (err) {
+      console.error('[replay] replay:request failed', communityId, err);
+      reply(ack, { ok: false, error: 'server-error' });
+    }
+  });
+}
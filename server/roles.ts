@@ -0,0 +1,26 @@
+import { type Actor, type CommunityRole, type GlobalRole, isCommunityRole, isGlobalRole } from '../shared/permissions';
+import { db } from './firebase';
+import type { SocketUser } from './types';
+
+export function memberRef(communityId: string, uid: string) {
+  return db.collection('communities').doc(communityId).collection('members').doc(uid);
+}
+
+// The `role` custom claim, verified with the rest of the ID token
+export function globalRole(user: SocketUser): GlobalRole | null {
+  return isGlobalRole(user.claims.role) ? user.claims.role : null;
+}
+
+export async function loadCommunityRole(communityId: string, uid: string): Promise<CommunityRole | undefined> {
+  const snap = await memberRef(communityId, uid).get();
+  const role = snap.exists ? snap.get('role') : undefined;
+  return isCommunityRole(role) ? role : undefined;
+}
+
+// What can() needs to decide on resources of one community
+export async function loadActor(user: SocketUser, communityId: string): Promise<Actor> {
+  const role = globalRole(user);
+  // A global admin outranks any community role; skip the read
+  if (role === 'admin') return { uid: user.uid, role };
+  return { uid: user.uid, role, communityRoles: { [communityId]: await loadCommunityRole(communityId, user.uid) } };
+}
@@ -0,0 +1,47 @@
+import type { AckError, ReplayCursor } from '../shared/socket-events';
+import { checkCommunityAccess } from './access';
+import { reply } from './ack';
+import { trackJoin, trackLeave } from './presence';
+import type { ReplayLog } from './replay';
+import type { RealtimeServer, RealtimeSocket } from './types';
+
+export function registerRoomHandlers(io: RealtimeServer, socket: RealtimeSocket, replay: ReplayLog) {
+  socket.on('room:join', async (communityId, ack) => {
+    if (typeof communityId !== 'string' || !communityId) {
+      return reply(ack, { ok: false, error: 'invalid-community' });
+    }
+    let error: AckError | null;
+    try {
+      error = await checkCommunityAccess(socket.data.user, communityId);
+    } catch (err) {
+      console.error('[room] access check failed', communityId, err);
+      error = 'server-error';
+    }
+    if (error) {
+      socket.emit('room:error', { type: error, communityId });
+      return reply(ack, { ok: false, error });
+    }
+    const room = `community:${communityId}`;
+    const alreadyJoined = socket.rooms.has(room);
+    await socket.join(room);
+    // The replay cursor lets the client ask for what it misses while offline
+    let cursor: ReplayCursor | undefined;
+    try {
+      cursor = await replay.cursor(room);
+    } catch (err) {
+      console.error('[replay] cursor failed', room, (err as Error).message || err);
+    }
+    reply(ack, { ok: true, replay: cursor });
+    trackJoin(io, socket, communityId, alreadyJoined).catch((err) => console.error('[presence] join failed', communityId, err));
+  });
+
+  socket.on('room:leave', async (communityId) => {
+    if (typeof communityId !== 'string' || !communityId) return;
+    try {
+      await trackLeave(io, socket, communityId);
+    } catch (err) {
+      console.error('[presence] leave failed', communityId, err);
+    }
+    socket.leave(`community:${communityId}`);
+  });
+}
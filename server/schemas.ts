@@ -0,0 +1,105 @@
+// Payload schemas for client events, checked by guard.ts before any handler
+// runs. They cover shape and size only; handlers still own the rules that
+// need data (membership, thread depth, who may delete what).
+
+import type { AckError, ClientToServerEvents } from '../shared/socket-events';
+
+type Check = (v: unknown) => boolean;
+
+const id: Check = (v) => typeof v === 'string' && v.length > 0 && v.length <= 128 && !v.includes('/');
+const text = (max: number): Check => (v) => typeof v === 'string' && v.length <= max;
+const optional = (check: Check): Check => (v) => v === undefined || v === null || check(v);
+const oneOf = (...values: unknown[]): Check => (v) => values.includes(v);
+const arrayOf = (check: Check, max: number): Check => (v) => Array.isArray(v) && v.length <= max && v.every(check);
+const isPlainObject = (v: unknown): v is Record<string, unknown> => Boolean(v) && typeof v === 'object' && !Array.isArray(v);
+
+// `strict` objects reject unknown keys.
+function object(shape: Record<string, Check>, { strict = true } = {}): Check {
+  return (v) => isPlainObject(v)
+    && Object.entries(shape).every(([key, check]) => check(v[key]))
+    && (!strict || Object.keys(v).every((key) => key in shape));
+}
+
+const targetType = oneOf('post', 'comment');
+const media = object({ url: text(2048), type: oneOf('image', 'gif', 'video'), alt: optional(text(300)) });
+
+// event -> { payload: predicate, maxBytes }. maxBytes bounds the serialized
+// payload so oversized relays are refused even if their shape is fine.
+// Keyed by the shared contract, so every client event needs a schema.
+export const SCHEMAS: Record<keyof ClientToServerEvents, { payload: Check; maxBytes: number }> = {
+  'post:create': {
+    payload: object({
+      communityId: id,
+      title: text(300),
+      content: text(50000),
+      media: optional(arrayOf(media, 10)),
+      tags: optional(arrayOf(text(50), 10)),
+    }),
+    maxBytes: 240 * 1024,
+  },
+  'comment:create': {
+    payload: object({ postId: id, parentId: optional(id), content: text(10000) }),
+    maxBytes: 48 * 1024,
+  },
+  'vote:cast': {
+    payload: object({ targetId: id, targetType, voteType: optional(oneOf('up', 'down')) }),
+    maxBytes: 1024,
+  },
+  'reaction:toggle': {
+    payload: object({ targetId: id, targetType, emoji: text(16) }),
+    maxBytes: 1024,
+  },
+  'community:follow': {
+    payload: object({ communityId: id, follow: (v) => typeof v === 'boolean' }),
+    maxBytes: 512,
+  },
+  // The rule itself is checked by validateRule in achievement-rules.ts
+  'achievementRule:save': {
+    payload: object({ communityId: id, ruleId: optional(id), rule: isPlainObject }),
+    maxBytes: 4 * 1024,
+  },
+  'achievementRule:delete': { payload: object({ communityId: id, ruleId: id }), maxBytes: 512 },
+  // The season itself is checked by validateSeason in seasons.ts
+  'season:start': { payload: object({ communityId: id, season: isPlainObject }), maxBytes: 1024 },
+  'season:end': { payload: object({ seasonId: id }), maxBytes: 512 },
+  'voteCase:resolve': { payload: object({ caseId: id, decision: oneOf('dismiss', 'confirm') }), maxBytes: 512 },
+  'poll:new': { payload: object({ id }), maxBytes: 512 },
+  'poll:cast': { payload: object({ pollId: id, optionIds: arrayOf(id, 20) }), maxBytes: 4 * 1024 },
+  'poll:vote': { payload: object({ pollId: id, optionId: id }), maxBytes: 512 },
+  'user:activity': {
+    payload: object({ communityId: id, type: optional(text(64)), targetId: optional(id) }, { strict: false }),
+    maxBytes: 2 * 1024,
+  },
+  'post:delete': { payload: object({ postId: id, communityId: id }), maxBytes: 1024 },
+  'comment:delete': { payload: object({ commentId: id, communityId: id }), maxBytes: 1024 },
+  'reaction:remove': {
+    payload: object({ targetId: id, targetType, emoji: text(16), communityId: id }),
+    maxBytes: 1024,
+  },
+  'room:join': { payload: id, maxBytes: 256 },
+  'room:leave': { payload: id, maxBytes: 256 },
+  'post:watch': { payload: id, maxBytes: 256 },
+  'post:unwatch': { payload: id, maxBytes: 256 },
+  'typing:start': { payload: object({ postId: id }), maxBytes: 256 },
+  'typing:stop': { payload: object({ postId: id }), maxBytes: 256 },
+  'presence:get': { payload: id, maxBytes: 256 },
+  'presence:counts': { payload: arrayOf(id, 20), maxBytes: 4 * 1024 },
+  'presence:heartbeat': { payload: optional(() => false), maxBytes: 64 },
+  'replay:request': {
+    payload: object({ communityId: id, epoch: text(64), lastSeq: (v) => Number.isInteger(v) && (v as number) >= 0 }),
+    maxBytes: 512,
+  },
+};
+
+// Returns null when the payload is acceptable, else an ack error code.
+// Events without a schema are refused: there is no handler for them anyway.
+export function isKnownEvent(event: string): event is keyof ClientToServerEvents {
+  return Object.hasOwn(SCHEMAS, event);
+}
+
+export function validatePayload(event: string, payload: unknown): AckError | null {
+  if (!isKnownEvent(event)) return 'unknown-event';
+  const schema = SCHEMAS[event];
+  if (payload !== undefined && Buffer.byteLength(JSON.stringify(payload)) > schema.maxBytes) return 'payload-too-large';
+  return schema.payload(payload) ? null : 'invalid-payload';
+}
@@ -0,0 +1,114 @@
+// Starts two realtime server instances on the Redis adapter, backed by the
+// stub broker (or REDIS_URL when set), and checks that a post:new broadcast
+// to `community:{id}` on node A reaches a client connected to node B, and
+// that a client which was offline can replay what node A published meanwhile.
+//   npm run check:cluster
+import type { AddressInfo } from 'net';
+import type { Server as HttpServer } from 'http';
+import { io as connect, type Socket } from 'socket.io-client';
+import type { ClientToServerEvents, ReplayMeta, ServerToClientEvents, WirePost } from '../../shared/socket-events';
+import { createRealtimeServer } from '../app';
+import type { RealtimeServer } from '../types';
+import { startStubRedis } from './stub-redis';
+
+type ClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const COMMUNITY_ROOM = 'community:cluster-check';
+const TIMEOUT_MS = 5000;
+
+function listen(server: HttpServer): Promise<number> {
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+}
+
+function connectTo(port: number, what: string) {
+  const client: ClientSocket = connect(`http://127.0.0.1:${port}`, { transports: ['websocket'], reconnection: false });
+  const connected = withTimeout(new Promise<void>((resolve, reject) => {
+    client.on('connect', () => resolve());
+    client.on('connect_error', reject);
+  }), what);
+  return { client, connected };
+}
+
+// socketsJoin() is not awaitable, so poll until the socket shows up in the room
+async function joinRoom(io: RealtimeServer, socketId: string | undefined) {
+  if (!socketId) throw new Error('Client is not connected');
+  io.in(socketId).socketsJoin(COMMUNITY_ROOM);
+  await withTimeout((async () => {
+    while (!(await io.in(COMMUNITY_ROOM).fetchSockets()).some((s) => s.id === socketId)) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  })(), `${socketId} to join ${COMMUNITY_ROOM}`);
+}
+
+function withTimeout<T>(promise: Promise<T>, what: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out waiting for ${what}`)), TIMEOUT_MS);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+(async () => {
+  const broker = process.env.REDIS_URL ? null : await startStubRedis();
+  const url = process.env.REDIS_URL || `redis://127.0.0.1:${broker?.port}`;
+  const adapter = { kind: 'redis', url };
+
+  const nodeA = await createRealtimeServer({ adapter });
+  const nodeB = await createRealtimeServer({ adapter });
+  const portB = await listen(nodeB.server);
+  await listen(nodeA.server);
+
+  const { client, connected } = connectTo(portB, 'client to connect to node B');
+  let rejoined: ClientSocket | undefined;
+  try {
+    await connected;
+
+    // Join server-side: room:join would need Firestore to check access
+    await joinRoom(nodeB.io, client.id);
+
+    const now = new Date().toISOString();
+    const post = {
+      id: `check-${Date.now()}`, communityId: 'cluster-check', authorId: 'cluster-check', title: 'Hello from node A', content: '',
+      media: [], tags: [], reactions: {}, voteScore: 0, upvotes: [], downvotes: [], commentCount: 0,
+      isPinned: false, isLocked: false, createdAt: now, updatedAt: now,
+    };
+    const received = withTimeout(new Promise<WirePost>((resolve) => client.on('post:new', resolve)), 'post:new on node B');
+    nodeA.io.to(COMMUNITY_ROOM).emit('post:new', post);
+    const got = await received;
+    if (got.id !== post.id) throw new Error(`Unexpected payload ${JSON.stringify(got)}`);
+
+    console.log(`OK: post:new emitted on node A reached a client on node B (${url})`);
+
+    // Sequenced publish: the client records its cursor, then goes offline
+    const seen = withTimeout(new Promise<ReplayMeta | undefined>((resolve) => client.on('post:new', (_post, meta) => resolve(meta))), 'sequenced post:new on node B');
+    await nodeA.replay.publish(nodeA.io, COMMUNITY_ROOM, 'post:new', { ...post, id: `${post.id}-1` });
+    const cursor = await seen;
+    if (!cursor || !Number.isInteger(cursor.seq)) throw new Error(`Missing replay metadata ${JSON.stringify(cursor)}`);
+    client.close();
+
+    const missed = { ...post, id: `${post.id}-2` };
+    await nodeA.replay.publish(nodeA.io, COMMUNITY_ROOM, 'post:new', missed);
+
+    const again = connectTo(portB, 'client to reconnect to node B');
+    rejoined = again.client;
+    await again.connected;
+    await joinRoom(nodeB.io, rejoined.id);
+    const communityId = COMMUNITY_ROOM.slice('community:'.length);
+    const res = await withTimeout(rejoined.emitWithAck('replay:request', { communityId, epoch: cursor.epoch, lastSeq: cursor.seq }), 'replay:request ack');
+    if (!res.ok || res.resync || res.events?.length !== 1 || (res.events[0].payload as { id: string }).id !== missed.id) {
+      throw new Error(`Unexpected replay ${JSON.stringify(res)}`);
+    }
+    const stale = await withTimeout(rejoined.emitWithAck('replay:request', { communityId, epoch: 'stale-epoch', lastSeq: cursor.seq }), 'replay:request ack');
+    if (!stale.ok || !stale.resync) throw new Error(`Expected resync for an unknown epoch, got ${JSON.stringify(stale)}`);
+
+    console.log('OK: a reconnecting client on node B replayed the post:new node A sent while it was offline');
+  } finally {
+    client.close();
+    if (rejoined) rejoined.close();
+    await Promise.allSettled([nodeA.close(), nodeB.close()]);
+    if (broker) await broker.close();
+  }
+})().then(() => process.exit(0), (err) => {
+  console.error('FAIL:', (err as Error).message || err);
+  process.exit(1);
+});
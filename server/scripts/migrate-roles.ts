@@ -0,0 +1,46 @@
+// One-off move from the admins / moderators arrays and createdBy on
+// communities to communities/{id}/members/{uid} docs. Existing member docs are
+// only ever raised, never lowered, so the script is safe to re-run.
+//   npm run migrate:roles
+import { type CommunityRole, type MemberDoc, ROLE_RANK, isCommunityRole } from '../../shared/permissions';
+import { db } from '../firebase';
+
+function uids(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.length > 0) : [];
+}
+
+async function main() {
+  const communities = await db.collection('communities').get();
+  let written = 0;
+  for (const community of communities.docs) {
+    const wanted = new Map<string, CommunityRole>();
+    uids(community.get('moderators')).forEach((uid) => wanted.set(uid, 'moderator'));
+    uids(community.get('admins')).forEach((uid) => wanted.set(uid, 'admin'));
+    const createdBy = community.get('createdBy');
+    if (typeof createdBy === 'string' && createdBy) wanted.set(createdBy, 'admin');
+    if (!wanted.size) continue;
+
+    const members = community.ref.collection('members');
+    const existing = await db.getAll(...[...wanted.keys()].map((uid) => members.doc(uid)));
+    const batch = db.batch();
+    let changes = 0;
+    existing.forEach((snap) => {
+      const role = wanted.get(snap.id) as CommunityRole;
+      const current = snap.get('role');
+      if (isCommunityRole(current) && ROLE_RANK[current] >= ROLE_RANK[role]) return;
+      const doc: MemberDoc = { uid: snap.id, role };
+      batch.set(snap.ref, doc, { merge: true });
+      changes += 1;
+    });
+    if (!changes) continue;
+    await batch.commit();
+    written += changes;
+    console.log(`${community.id}: ${changes} role(s) written`);
+  }
+  console.log(`Done, ${written} member doc(s) written across ${communities.size} communities.`);
+}
+
+main().then(() => process.exit(0)).catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
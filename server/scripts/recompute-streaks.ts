@@ -0,0 +1,31 @@
+// Rebuilds every user's streak from their posts, comments and votes, in their
+// own time zone (see streaks.ts). Use it to backfill currentStreak,
+// longestStreak and daysActive; safe to re-run.
+//   npm run recompute:streaks
+import { db } from '../firebase';
+import { recomputeStreak } from '../streaks';
+
+const PAGE_SIZE = 200;
+
+async function main() {
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+  let done = 0;
+  for (;;) {
+    let page = db.collection('users').orderBy('__name__').select().limit(PAGE_SIZE);
+    if (last) page = page.startAfter(last);
+    const users = await page.get();
+    if (users.empty) break;
+    for (const user of users.docs) {
+      const state = await recomputeStreak(user.id);
+      if (state?.daysActive) console.log(`${user.id}: ${state.current} current, ${state.longest} longest, ${state.daysActive} days`);
+      done += 1;
+    }
+    last = users.docs[users.docs.length - 1];
+  }
+  console.log(`Done, ${done} user(s) recomputed.`);
+}
+
+main().then(() => process.exit(0)).catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
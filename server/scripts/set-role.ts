@@ -0,0 +1,24 @@
+// Grants or clears a global role (the `role` custom claim, see
+// shared/permissions.ts). The user picks it up on their next ID token
+// refresh, i.e. after signing in again or within the hour.
+//   npm run role -- <uid> admin|moderator|none
+import { isGlobalRole } from '../../shared/permissions';
+import { admin } from '../firebase';
+
+async function main() {
+  const [uid, role] = process.argv.slice(2);
+  if (!uid || !(role === 'none' || isGlobalRole(role))) {
+    throw new Error('usage: npm run role -- <uid> admin|moderator|none');
+  }
+  const user = await admin.auth().getUser(uid);
+  const claims = { ...(user.customClaims || {}) };
+  if (role === 'none') delete claims.role;
+  else claims.role = role;
+  await admin.auth().setCustomUserClaims(uid, claims);
+  console.log(`${uid}: role ${role === 'none' ? 'cleared' : `set to ${role}`}`);
+}
+
+main().then(() => process.exit(0)).catch((err) => {
+  console.error(err.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,213 @@
+// Minimal stand-in for a Redis server: just enough of RESP2/RESP3 pub/sub
+// (SUBSCRIBE, PSUBSCRIBE, PUBLISH, PUBSUB NUMSUB) for the Socket.io Redis
+// adapter, plus the few string/list commands the replay log uses, so the
+// multi-node setup can be exercised without installing Redis.
+// Not a general-purpose Redis: keys never expire and nothing is persisted.
+//   node dist/server/scripts/stub-redis.js [port]   (after npm run build)
+import net from 'net';
+
+type Reply = null | number | string | Buffer | Error | { status: string } | Reply[];
+
+interface Client {
+  socket: net.Socket;
+  resp3: boolean;
+  channels: Set<string>;
+  patterns: Map<string, RegExp>;
+}
+
+// RESP3 clients (HELLO 3) expect pub/sub frames as push types rather than arrays.
+function encodePush(client: Client, items: Reply[]): Buffer {
+  const frame = encode(items);
+  if (client.resp3) frame[0] = 0x3e; // '>'
+  return frame;
+}
+
+function encode(value: Reply): Buffer {
+  if (value === null) return Buffer.from('$-1\r\n');
+  if (typeof value === 'number') return Buffer.from(`:${value}\r\n`);
+  if (Array.isArray(value)) return Buffer.concat([Buffer.from(`*${value.length}\r\n`), ...value.map(encode)]);
+  if (value instanceof Error) return Buffer.from(`-ERR ${value.message}\r\n`);
+  if (value && typeof value === 'object' && 'status' in value) return Buffer.from(`+${value.status}\r\n`);
+  const buf = Buffer.isBuffer(value) ? value : Buffer.from(String(value));
+  return Buffer.concat([Buffer.from(`$${buf.length}\r\n`), buf, Buffer.from('\r\n')]);
+}
+
+// Parses as many complete commands (arrays of bulk strings) as `buf` holds.
+function parseCommands(buf: Buffer): { commands: Buffer[][]; rest: Buffer } {
+  const commands: Buffer[][] = [];
+  let offset = 0;
+  for (;;) {
+    if (offset >= buf.length || buf[offset] !== 0x2a /* '*' */) break;
+    let end = buf.indexOf('\r\n', offset);
+    if (end === -1) break;
+    const count = Number(buf.subarray(offset + 1, end).toString());
+    let pos = end + 2;
+    const args: Buffer[] = [];
+    for (let i = 0; i < count; i++) {
+      end = buf.indexOf('\r\n', pos);
+      if (end === -1) return { commands, rest: buf.slice(offset) };
+      const len = Number(buf.subarray(pos + 1, end).toString());
+      if (end + 2 + len + 2 > buf.length) return { commands, rest: buf.slice(offset) };
+      args.push(buf.slice(end + 2, end + 2 + len));
+      pos = end + 2 + len + 2;
+    }
+    commands.push(args);
+    offset = pos;
+  }
+  return { commands, rest: buf.slice(offset) };
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+function asList(value: string | string[] | undefined): string[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// Redis-style list index: negative values count from the end.
+function listIndex(index: string, length: number): number {
+  const i = Number(index);
+  return i < 0 ? Math.max(length + i, 0) : i;
+}
+
+export function startStubRedis(port = 0): Promise<{ port: number; close: () => Promise<void> }> {
+  const clients = new Set<Client>();
+  const keys = new Map<string, string | string[]>();
+
+  function subscriptionCount(client: Client): number {
+    return client.channels.size + client.patterns.size;
+  }
+
+  function handle(client: Client, [rawName, ...args]: Buffer[]) {
+    const name = rawName.toString().toUpperCase();
+    const strings = args.map((a) => a.toString());
+    switch (name) {
+      case 'HELLO':
+        client.resp3 = strings[0] === '3';
+        return client.socket.write(encode({ status: 'OK' }));
+      case 'PING':
+        return client.socket.write(encode({ status: 'PONG' }));
+      case 'SUBSCRIBE':
+        for (const channel of strings) {
+          client.channels.add(channel);
+          client.socket.write(encodePush(client, ['subscribe', channel, subscriptionCount(client)]));
+        }
+        return;
+      case 'PSUBSCRIBE':
+        for (const pattern of strings) {
+          client.patterns.set(pattern, globToRegExp(pattern));
+          client.socket.write(encodePush(client, ['psubscribe', pattern, subscriptionCount(client)]));
+        }
+        return;
+      case 'UNSUBSCRIBE':
+      case 'PUNSUBSCRIBE': {
+        const kind = name.toLowerCase();
+        const set = name === 'UNSUBSCRIBE' ? client.channels : client.patterns;
+        for (const key of strings.length ? strings : Array.from(set.keys())) {
+          set.delete(key);
+          client.socket.write(encodePush(client, [kind, key, subscriptionCount(client)]));
+        }
+        return;
+      }
+      case 'PUBLISH': {
+        const [channel, message] = [strings[0], args[1]];
+        let receivers = 0;
+        for (const other of clients) {
+          if (other.channels.has(channel)) {
+            other.socket.write(encodePush(other, ['message', channel, message]));
+            receivers++;
+          }
+          for (const [pattern, re] of other.patterns) {
+            if (re.test(channel)) {
+              other.socket.write(encodePush(other, ['pmessage', pattern, channel, message]));
+              receivers++;
+            }
+          }
+        }
+        return client.socket.write(encode(receivers));
+      }
+      case 'PUBSUB': {
+        if (strings[0] && strings[0].toUpperCase() === 'NUMSUB') {
+          const reply = [];
+          for (const channel of strings.slice(1)) {
+            let n = 0;
+            for (const other of clients) if (other.channels.has(channel)) n++;
+            reply.push(channel, n);
+          }
+          return client.socket.write(encode(reply));
+        }
+        return client.socket.write(encode(new Error('unsupported PUBSUB subcommand')));
+      }
+      case 'GET': {
+        const value = keys.get(strings[0]);
+        return client.socket.write(encode(typeof value === 'string' ? value : null));
+      }
+      case 'SET': {
+        const nx = strings.slice(2).some((flag) => flag.toUpperCase() === 'NX');
+        if (nx && keys.has(strings[0])) return client.socket.write(encode(null));
+        keys.set(strings[0], strings[1]);
+        return client.socket.write(encode({ status: 'OK' }));
+      }
+      case 'INCR': {
+        const next = Number(keys.get(strings[0]) || 0) + 1;
+        keys.set(strings[0], String(next));
+        return client.socket.write(encode(next));
+      }
+      case 'RPUSH': {
+        const list = asList(keys.get(strings[0]));
+        list.push(...strings.slice(1));
+        keys.set(strings[0], list);
+        return client.socket.write(encode(list.length));
+      }
+      case 'LRANGE':
+      case 'LTRIM': {
+        const list = asList(keys.get(strings[0]));
+        const slice = list.slice(listIndex(strings[1], list.length), listIndex(strings[2], list.length) + 1);
+        if (name === 'LRANGE') return client.socket.write(encode(slice));
+        keys.set(strings[0], slice);
+        return client.socket.write(encode({ status: 'OK' }));
+      }
+      case 'EXPIRE':
+        return client.socket.write(encode(keys.has(strings[0]) ? 1 : 0));
+      case 'QUIT':
+        client.socket.write(encode({ status: 'OK' }));
+        return client.socket.end();
+      default:
+        // CLIENT SETINFO, SELECT and friends sent by clients on connect
+        return client.socket.write(encode({ status: 'OK' }));
+    }
+  }
+
+  const server = net.createServer((socket) => {
+    const client: Client = { socket, resp3: false, channels: new Set(), patterns: new Map() };
+    clients.add(client);
+    let pending: Buffer = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => {
+      const { commands, rest } = parseCommands(Buffer.concat([pending, chunk]));
+      pending = rest;
+      commands.forEach((command) => handle(client, command));
+    });
+    socket.on('close', () => clients.delete(client));
+    socket.on('error', () => clients.delete(client));
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as net.AddressInfo).port,
+        close: () => new Promise<void>((done) => {
+          clients.forEach((c) => c.socket.destroy());
+          server.close(() => done());
+        }),
+      });
+    });
+  });
+}
+
+if (require.main === module) {
+  startStubRedis(Number(process.argv[2] || 6379)).then(({ port }) => {
+    console.log(`Stub Redis pub/sub broker listening on 127.0.0.1:${port}`);
+  });
+}
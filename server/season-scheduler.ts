@@ -0,0 +1,69 @@
+import { admin, db } from './firebase';
+import { awardPlaces, closeSeason, toSeason } from './seasons';
+
+const { Timestamp } = admin.firestore;
+
+const SEASON_SCHEDULER_INTERVAL_MS = Number(process.env.SEASON_SCHEDULER_INTERVAL_MS) || 60_000;
+// Seasons handled per query per tick; the rest wait for the next one
+const TICK_LIMIT = 20;
+
+// Ends community seasons (see seasons.ts) on a timer: once endsAt has passed
+// the standings are archived and the places awarded their badges. Seasons a
+// moderator ended whose awards did not finish are awarded again; unlocking is
+// idempotent, so nobody gets a badge twice.
+
+// One pass over due seasons; exported for scripts and tests.
+export async function runSeasonScheduler(now = new Date()): Promise<{ ended: number; awarded: number }> {
+  const seasons = db.collection('seasons');
+  const [expired, unawarded] = await Promise.all([
+    seasons.where('status', '==', 'active').where('endsAt', '<=', Timestamp.fromDate(now)).limit(TICK_LIMIT).get(),
+    seasons.where('status', '==', 'ended').where('awarded', '==', false).limit(TICK_LIMIT).get(),
+  ]);
+
+  let ended = 0;
+  let awarded = 0;
+  for (const d of expired.docs) {
+    try {
+      const season = await closeSeason(d.ref, now);
+      if (!season) continue;
+      ended += 1;
+      awarded += await awardPlaces(d.ref, season);
+    } catch (err) {
+      console.error(`[season-scheduler] ending ${d.id} failed`, err);
+    }
+  }
+  for (const d of unawarded.docs) {
+    try {
+      awarded += await awardPlaces(d.ref, toSeason(d));
+    } catch (err) {
+      console.error(`[season-scheduler] awarding ${d.id} failed`, err);
+    }
+  }
+  return { ended, awarded };
+}
+
+// Runs the scheduler every SEASON_SCHEDULER_INTERVAL_MS, skipping a tick
+// while the previous one is still going.
+export function startSeasonScheduler(intervalMs = SEASON_SCHEDULER_INTERVAL_MS) {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { ended, awarded } = await runSeasonScheduler();
+      if (ended || awarded) console.log(`[season-scheduler] ended ${ended}, awarded ${awarded}`);
+    } catch (err) {
+      console.error('[season-scheduler] tick failed', err);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+
+  return {
+    close: () => clearInterval(timer),
+  };
+}
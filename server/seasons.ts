@@ -0,0 +1,186 @@
+import { can } from '../shared/permissions';
+import {
+  rankStandings,
+  seasonBoardId,
+  validateSeason,
+  type Season,
+  type Standing,
+} from '../shared/seasons';
+import type { AckError, AckResult } from '../shared/socket-events';
+import { reply } from './ack';
+import { awardSeason } from './achievements';
+import { requireUser } from './auth';
+import { admin, db } from './firebase';
+import { forgetSeason } from './leaderboards';
+import { loadActor } from './roles';
+import type { RealtimeSocket, SocketUser } from './types';
+
+const { Timestamp } = admin.firestore;
+
+// Community seasons (see shared/seasons.ts). Moderators start and end them
+// through the events below; leaderboards.ts scores into the active season's
+// board, and season-scheduler.ts ends seasons whose time is up.
+//
+// Ending is two steps, each safe to repeat: closeSeason archives the
+// standings in a transaction that re-reads the season, so it happens once
+// however many nodes try; awardPlaces then hands out the badges and marks
+// the season awarded. The scheduler retries seasons left unawarded.
+
+type SeasonRef = FirebaseFirestore.DocumentReference;
+
+class SeasonError extends Error {
+  code: AckError;
+
+  constructor(code: AckError) {
+    super(code);
+    this.code = code;
+  }
+}
+
+function seasonsRef() {
+  return db.collection('seasons');
+}
+
+function iso(value: unknown): string | null {
+  return value instanceof Timestamp ? value.toDate().toISOString() : null;
+}
+
+export function toSeason(snap: FirebaseFirestore.DocumentSnapshot): Season {
+  return {
+    id: snap.id,
+    communityId: snap.get('communityId'),
+    name: snap.get('name'),
+    status: snap.get('status'),
+    startsAt: iso(snap.get('startsAt')) ?? '',
+    endsAt: iso(snap.get('endsAt')) ?? '',
+    topN: snap.get('topN'),
+    startedBy: snap.get('startedBy'),
+    endedAt: iso(snap.get('endedAt')),
+    standings: snap.get('standings') ?? null,
+  };
+}
+
+async function assertCanModerate(user: SocketUser, communityId: string) {
+  const [community, actor] = await Promise.all([
+    db.collection('communities').doc(communityId).get(),
+    loadActor(user, communityId),
+  ]);
+  if (!community.exists) throw new SeasonError('not-found');
+  if (!can(actor, 'content:moderate', { communityId })) throw new SeasonError('forbidden');
+}
+
+async function startSeason(user: SocketUser, communityId: string, input: unknown): Promise<Season> {
+  const now = new Date();
+  const checked = validateSeason(input, now);
+  if (!checked.ok) throw new SeasonError('invalid-payload');
+  await assertCanModerate(user, communityId);
+
+  const ref = seasonsRef().doc();
+  const season = {
+    communityId,
+    name: checked.season.name,
+    status: 'active',
+    startsAt: Timestamp.fromDate(now),
+    endsAt: Timestamp.fromDate(new Date(checked.season.endsAt)),
+    topN: checked.season.topN,
+    startedBy: user.uid,
+    endedAt: null,
+    endedBy: null,
+    standings: null,
+    awarded: false,
+  };
+  await db.runTransaction(async (tx) => {
+    // One active season per community
+    const active = await tx.get(seasonsRef().where('communityId', '==', communityId).where('status', '==', 'active').limit(1));
+    if (!active.empty) throw new SeasonError('invalid-payload');
+    tx.create(ref, season);
+  });
+  forgetSeason(communityId);
+  return { ...checked.season, id: ref.id, communityId, status: 'active', startsAt: now.toISOString(), startedBy: user.uid, endedAt: null, standings: null };
+}
+
+// Ends the season and archives its standings: when endedBy is given, at once,
+// otherwise only once endsAt has passed. Resolves to null when there was
+// nothing to do, e.g. another node got there first.
+export async function closeSeason(ref: SeasonRef, now: Date, endedBy: string | null = null): Promise<Season | null> {
+  const closed = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists || snap.get('status') !== 'active') return null;
+    const endsAt: Date = snap.get('endsAt').toDate();
+    if (!endedBy && endsAt > now) return null;
+
+    const communityId: string = snap.get('communityId');
+    const top = await tx.get(db.collection('leaderboards').doc(seasonBoardId(communityId, ref.id)).collection('entries')
+      .orderBy('points', 'desc')
+      .limit(snap.get('topN')));
+    const standings = rankStandings(top.docs.map((d) => ({ ...d.data(), uid: d.id })), snap.get('topN'));
+    const end = Timestamp.fromDate(endsAt < now ? endsAt : now);
+    tx.update(ref, {
+      status: 'ended',
+      // When it actually ended. Standings are final from here; scores other
+      // nodes still record until their cache expires are not archived.
+      endsAt: end,
+      endedAt: Timestamp.fromDate(now),
+      endedBy,
+      standings,
+    });
+    return { ...toSeason(snap), status: 'ended' as const, endsAt: end.toDate().toISOString(), endedAt: now.toISOString(), standings };
+  });
+  if (closed) forgetSeason(closed.communityId);
+  return closed;
+}
+
+// Awards the badges of an ended season and marks it awarded
+export async function awardPlaces(ref: SeasonRef, season: Pick<Season, 'id' | 'communityId' | 'name'> & { standings: Standing[] | null }): Promise<number> {
+  const awarded = await awardSeason(season, season.standings ?? []);
+  await ref.update({ awarded: true });
+  return awarded;
+}
+
+async function endSeason(user: SocketUser, seasonId: string): Promise<Season> {
+  const ref = seasonsRef().doc(seasonId);
+  const snap = await ref.get();
+  if (!snap.exists) throw new SeasonError('not-found');
+  await assertCanModerate(user, snap.get('communityId'));
+  if (snap.get('status') !== 'active') throw new SeasonError('invalid-payload');
+
+  const season = await closeSeason(ref, new Date(), user.uid);
+  if (!season) throw new SeasonError('invalid-payload');
+  try {
+    await awardPlaces(ref, season);
+  } catch (err) {
+    // The standings are archived; the scheduler finishes the awards
+    console.error(`[seasons] awarding ${seasonId} failed`, err);
+  }
+  return season;
+}
+
+function fail(ack: ((res: AckResult) => void) | undefined, event: string, err: unknown) {
+  if (err instanceof SeasonError) return reply(ack, { ok: false, error: err.code });
+  console.error(`[seasons] ${event} failed`, err);
+  reply(ack, { ok: false, error: 'server-error' });
+}
+
+export function registerSeasonHandlers(socket: RealtimeSocket) {
+  socket.on('season:start', async (payload, ack) => {
+    const user = requireUser(socket, 'season:start', ack);
+    if (!user) return;
+    try {
+      const season = await startSeason(user, payload.communityId, payload.season);
+      reply(ack, { ok: true, season });
+    } catch (err) {
+      fail(ack, 'season:start', err);
+    }
+  });
+
+  socket.on('season:end', async (payload, ack) => {
+    const user = requireUser(socket, 'season:end', ack);
+    if (!user) return;
+    try {
+      const season = await endSeason(user, payload.seasonId);
+      reply(ack, { ok: true, season });
+    } catch (err) {
+      fail(ack, 'season:end', err);
+    }
+  });
+}
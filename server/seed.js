@@ -17,9 +17,9 @@ async function seed() {
   const now = admin.firestore.Timestamp.fromDate(new Date());
 
   const communities = [
-    { id: "tech", name: "Tech", description: "Latest gadgets, dev tools, and trends.", category: "technology", memberCount: 128 },
-    { id: "fitness", name: "Fitness", description: "Workouts, nutrition, and recovery.", category: "health", memberCount: 96 },
-    { id: "books", name: "Books", description: "Fiction, non-fiction, and recommendations.", category: "reading", memberCount: 54 }
+    { id: "tech", name: "Tech", description: "Latest gadgets, dev tools, and trends.", category: "technology", memberCount: 128, public: true, isActive: true },
+    { id: "fitness", name: "Fitness", description: "Workouts, nutrition, and recovery.", category: "health", memberCount: 96, public: true, isActive: true },
+    { id: "books", name: "Books", description: "Fiction, non-fiction, and recommendations.", category: "reading", memberCount: 54, public: true, isActive: true }
   ];
 
   const posts = [
@@ -0,0 +1,114 @@
+import { addDays, isAtRisk, localDay, localHour, settle } from '../shared/streaks';
+import { db } from './firebase';
+import { notifyUsers } from './notifications';
+import { streakFields, streakOf, timeZoneOf } from './streaks';
+
+const STREAK_SCHEDULER_INTERVAL_MS = Number(process.env.STREAK_SCHEDULER_INTERVAL_MS) || 15 * 60 * 1000;
+// Local hour from which a streak that ends tonight is worth a warning
+const STREAK_WARNING_HOUR = 18;
+// Users handled per query per tick; the rest wait for the next one
+const TICK_LIMIT = 200;
+
+// Watches streak deadlines (see streaks.ts) on a timer:
+//   - on the deadline day, from STREAK_WARNING_HOUR local time, the user is
+//     notified once that their streak ends at midnight
+//   - once the deadline has passed, currentStreak drops to 0, so profiles and
+//     leaderboards stop showing a streak that is over
+//
+// Deadlines are local days, and somewhere it is already tomorrow or still
+// yesterday, so a tick looks at deadlines from yesterday to tomorrow (UTC)
+// and checks each against the user's own clock. Older deadlines have passed
+// everywhere. Each step is a transaction that re-reads the user, so several
+// nodes may run the scheduler.
+
+type UserRef = FirebaseFirestore.DocumentReference;
+
+async function endStreak(ref: UserRef, now: Date): Promise<boolean> {
+  return db.runTransaction(async (tx) => {
+    const user = await tx.get(ref);
+    const timeZone = user.get('streak.timeZone') ?? timeZoneOf(user);
+    const state = streakOf(user);
+    const settled = settle(state, localDay(now, timeZone));
+    if (settled === state) return false;
+    tx.set(ref, streakFields(settled, timeZone), { merge: true });
+    return true;
+  });
+}
+
+// Resolves to the streak length to warn about, or 0 when there is nothing to do
+async function markWarned(ref: UserRef, now: Date): Promise<number> {
+  return db.runTransaction(async (tx) => {
+    const user = await tx.get(ref);
+    const timeZone = user.get('streak.timeZone') ?? timeZoneOf(user);
+    const state = streakOf(user);
+    const today = localDay(now, timeZone);
+    if (!isAtRisk(state, today) || user.get('streak.warnedFor') === today) return 0;
+    if (localHour(now, timeZone) < STREAK_WARNING_HOUR) return 0;
+    if (user.get('notificationSettings.streaks') === false) return 0;
+    tx.update(ref, { 'streak.warnedFor': today });
+    return state.current;
+  });
+}
+
+// One pass over due streaks; exported for scripts and tests.
+export async function runStreakScheduler(now = new Date()): Promise<{ warned: number; ended: number }> {
+  const users = db.collection('users');
+  const utcToday = now.toISOString().slice(0, 10);
+  const [expired, due] = await Promise.all([
+    users.where('streak.deadline', '<', addDays(utcToday, -1)).limit(TICK_LIMIT).get(),
+    users.where('streak.deadline', 'in', [addDays(utcToday, -1), utcToday, addDays(utcToday, 1)]).limit(TICK_LIMIT).get(),
+  ]);
+
+  let ended = 0;
+  for (const d of expired.docs) {
+    if (await endStreak(d.ref, now)) ended += 1;
+  }
+
+  let warned = 0;
+  for (const d of due.docs) {
+    try {
+      if (await endStreak(d.ref, now)) {
+        ended += 1;
+        continue;
+      }
+      const days = await markWarned(d.ref, now);
+      if (!days) continue;
+      await notifyUsers([d.id], {
+        type: 'streak',
+        title: 'Your streak ends tonight',
+        message: `Post, comment or vote before midnight to keep your ${days}-day streak going.`,
+        data: { targetType: 'streak', actionUrl: '/' },
+      });
+      warned += 1;
+    } catch (err) {
+      console.error(`[streak-scheduler] ${d.id} failed`, err);
+    }
+  }
+  return { warned, ended };
+}
+
+// Runs the scheduler every STREAK_SCHEDULER_INTERVAL_MS, skipping a tick
+// while the previous one is still going.
+export function startStreakScheduler(intervalMs = STREAK_SCHEDULER_INTERVAL_MS) {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { warned, ended } = await runStreakScheduler();
+      if (warned || ended) console.log(`[streak-scheduler] warned ${warned}, ended ${ended}`);
+    } catch (err) {
+      console.error('[streak-scheduler] tick failed', err);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+
+  return {
+    close: () => clearInterval(timer),
+  };
+}
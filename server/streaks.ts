@@ -0,0 +1,106 @@
+import {
+  computeStreak,
+  isTimeZone,
+  localDay,
+  recordDay,
+  settle,
+  streakDeadline,
+  type StreakState,
+} from '../shared/streaks';
+import { db } from './firebase';
+
+// Keeps users/{uid}.currentStreak, longestStreak and daysActive, plus the
+// `streak` map behind them:
+//   { lastActiveDay, graceDays, deadline, timeZone, warnedFor? }
+// deadline is the last local day activity keeps the streak (null without
+// one); streak-scheduler.ts reads it to warn users and to end broken streaks.
+//
+// recordActiveDay runs after each post, comment and vote (see
+// scheduleEvaluation in achievements.ts, which runs one user's evaluations
+// one at a time). When the stored state was counted in another time zone, or
+// there is none yet, the streak is rebuilt from the user's history instead.
+
+type Snapshot = FirebaseFirestore.DocumentSnapshot;
+
+function userRef(uid: string) {
+  return db.collection('users').doc(uid);
+}
+
+export function timeZoneOf(user: Snapshot): string {
+  const timeZone = user.get('preferences.timezone');
+  return isTimeZone(timeZone) ? timeZone : 'UTC';
+}
+
+function number(value: unknown): number {
+  return typeof value === 'number' && value > 0 ? value : 0;
+}
+
+export function streakOf(user: Snapshot): StreakState {
+  const lastActiveDay = user.get('streak.lastActiveDay');
+  return {
+    current: number(user.get('currentStreak')),
+    longest: number(user.get('longestStreak')),
+    daysActive: number(user.get('daysActive')),
+    lastActiveDay: typeof lastActiveDay === 'string' ? lastActiveDay : null,
+    graceDays: number(user.get('streak.graceDays')),
+  };
+}
+
+// The user document fields for state, written with merge so warnedFor stays;
+// it only silences warnings for the deadline it names.
+export function streakFields(state: StreakState, timeZone: string) {
+  return {
+    currentStreak: state.current,
+    longestStreak: state.longest,
+    daysActive: state.daysActive,
+    streak: {
+      lastActiveDay: state.lastActiveDay,
+      graceDays: state.graceDays,
+      deadline: streakDeadline(state),
+      timeZone,
+    },
+  };
+}
+
+// Every day the user posted, commented or voted, in timeZone. Withdrawn votes
+// are deleted, so they no longer count.
+async function activeDays(uid: string, timeZone: string): Promise<string[]> {
+  const [posts, comments, votes] = await Promise.all([
+    db.collection('posts').where('authorId', '==', uid).select('createdAt').get(),
+    db.collection('comments').where('authorId', '==', uid).select('createdAt').get(),
+    db.collection('votes').where('userId', '==', uid).select('createdAt').get(),
+  ]);
+  const days: string[] = [];
+  for (const d of [...posts.docs, ...comments.docs, ...votes.docs]) {
+    const createdAt = d.get('createdAt');
+    if (createdAt && typeof createdAt.toDate === 'function') days.push(localDay(createdAt.toDate(), timeZone));
+  }
+  return days;
+}
+
+// Rebuilds the streak from the user's history in their current time zone.
+export async function recomputeStreak(uid: string, now = new Date()): Promise<StreakState | null> {
+  const user = await userRef(uid).get();
+  if (!user.exists) return null;
+  const timeZone = timeZoneOf(user);
+  const state = settle(computeStreak(await activeDays(uid, timeZone)), localDay(now, timeZone));
+  await userRef(uid).set(streakFields(state, timeZone), { merge: true });
+  return state;
+}
+
+// Counts the local day of `at` as active for the user.
+export async function recordActiveDay(uid: string, at = new Date()): Promise<void> {
+  const stale = await db.runTransaction(async (tx) => {
+    const user = await tx.get(userRef(uid));
+    if (!user.exists) return false;
+    const timeZone = timeZoneOf(user);
+    if (user.get('streak.timeZone') !== timeZone) return true;
+
+    const today = localDay(at, timeZone);
+    const before = streakOf(user);
+    const after = recordDay(settle(before, today), today);
+    if (after !== before) tx.set(userRef(uid), streakFields(after, timeZone), { merge: true });
+    return false;
+  });
+  if (stale) await recomputeStreak(uid, at);
+}
@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  MAX_RULE_POINTS,
+  changesCriteria,
+  describeRule,
+  isRuleMet,
+  matchesEvent,
+  validateRule,
+  windowKey,
+  type AchievementRule,
+  type RuleInput,
+} from '../../shared/achievement-rules';
+import { recordCommunityScore, recordScore } from '../leaderboards';
+
+const input = {
+  name: 'Marathoner',
+  description: '',
+  icon: '🏃',
+  points: 50,
+  rarity: 'rare',
+  metric: 'posts',
+  tags: ['marathon'],
+  threshold: 10,
+  window: 'monthly',
+  enabled: true,
+};
+
+function valid(overrides: object = {}): RuleInput {
+  const checked = validateRule({ ...input, ...overrides });
+  assert.ok(checked.ok);
+  return checked.rule;
+}
+
+function problemsOf(overrides: object): string[] {
+  const checked = validateRule({ ...input, ...overrides });
+  assert.ok(!checked.ok);
+  return checked.problems.map((p) => p.field);
+}
+
+function rule(overrides: Partial<AchievementRule> = {}): AchievementRule {
+  return { ...valid(), id: 'r1', communityId: 'c1', createdBy: 'admin', ...overrides };
+}
+
+describe('validateRule', () => {
+  it('trims the rule, normalizes its tags and drops unknown keys', () => {
+    const checked = valid({ name: '  Marathoner ', tags: ['#Marathon', 'marathon', ' Trail '], extra: true });
+    assert.equal(checked.name, 'Marathoner');
+    assert.deepEqual(checked.tags, ['marathon', 'trail']);
+    assert.ok(!('extra' in checked));
+  });
+
+  it('turns rules on unless told otherwise', () => {
+    assert.equal(valid({ enabled: undefined }).enabled, true);
+    assert.equal(valid({ enabled: false }).enabled, false);
+  });
+
+  it('caps points and thresholds at whole numbers', () => {
+    assert.equal(valid({ points: MAX_RULE_POINTS }).points, MAX_RULE_POINTS);
+    assert.deepEqual(problemsOf({ points: MAX_RULE_POINTS + 1 }), ['points']);
+    assert.deepEqual(problemsOf({ points: -1 }), ['points']);
+    assert.deepEqual(problemsOf({ points: 2.5 }), ['points']);
+    assert.deepEqual(problemsOf({ threshold: 0 }), ['threshold']);
+  });
+
+  it('rejects unknown metrics, windows and rarities', () => {
+    assert.deepEqual(problemsOf({ metric: 'follows', window: 'yearly', rarity: 'mythic' }), ['rarity', 'metric', 'window']);
+  });
+
+  it('rejects too many or malformed tags', () => {
+    assert.deepEqual(problemsOf({ tags: ['a', 'b', 'c', 'd', 'e', 'f'] }), ['tags']);
+    assert.deepEqual(problemsOf({ tags: ['#'] }), ['tags']);
+    assert.deepEqual(problemsOf({ tags: 'marathon' }), ['tags']);
+  });
+
+  it('reports every problem of a non-object', () => {
+    assert.deepEqual(problemsOf({ name: '', icon: '', points: undefined }), ['name', 'icon', 'points']);
+    assert.ok(!validateRule(null).ok);
+  });
+});
+
+describe('changesCriteria', () => {
+  it('is true only when what the rule counts changes', () => {
+    const before = valid();
+    assert.equal(changesCriteria(before, valid({ name: 'Renamed', points: 10, threshold: 5 })), false);
+    assert.equal(changesCriteria(before, valid({ tags: ['MARATHON'] })), false);
+    assert.equal(changesCriteria(before, valid({ metric: 'comments' })), true);
+    assert.equal(changesCriteria(before, valid({ window: 'weekly' })), true);
+    assert.equal(changesCriteria(before, valid({ tags: ['trail'] })), true);
+    assert.equal(changesCriteria(before, valid({ tags: ['marathon', 'trail'] })), true);
+  });
+});
+
+describe('matchesEvent', () => {
+  const event = { metric: 'posts' as const, communityId: 'c1', tags: ['Marathon', 'race'] };
+
+  it('matches the metric in the community with any of the tags', () => {
+    assert.equal(matchesEvent(rule(), event), true);
+    assert.equal(matchesEvent(rule(), { ...event, tags: ['race'] }), false);
+    assert.equal(matchesEvent(rule({ tags: [] }), { ...event, tags: [] }), true);
+  });
+
+  it('ignores other metrics, other communities and disabled rules', () => {
+    assert.equal(matchesEvent(rule(), { ...event, metric: 'comments' }), false);
+    assert.equal(matchesEvent(rule(), { ...event, communityId: 'c2' }), false);
+    assert.equal(matchesEvent(rule({ enabled: false }), event), false);
+  });
+});
+
+describe('isRuleMet', () => {
+  it('unlocks enabled rules once the count reaches the threshold', () => {
+    assert.equal(isRuleMet(rule(), 9), false);
+    assert.equal(isRuleMet(rule(), 10), true);
+    assert.equal(isRuleMet(rule({ enabled: false }), 10), false);
+  });
+});
+
+describe('windowKey', () => {
+  it('counts all-time rules in one window and the rest per period', () => {
+    const at = new Date('2026-10-19T12:00:00Z');
+    assert.equal(windowKey('all-time', at), 'all-time');
+    assert.notEqual(windowKey('daily', at), windowKey('daily', new Date('2026-10-20T12:00:00Z')));
+    assert.equal(windowKey('monthly', at), windowKey('monthly', new Date('2026-10-01T00:00:00Z')));
+  });
+});
+
+describe('describeRule', () => {
+  it('says what unlocks the rule', () => {
+    assert.equal(describeRule(valid()), 'Create 10 posts tagged #marathon in one month');
+    assert.equal(describeRule(valid({ metric: 'votes', threshold: 1, tags: [], window: 'all-time' })), 'Cast 1 vote');
+  });
+});
+
+describe('rule points', () => {
+  // The board ids a score was written to, through a recording writer
+  function boards(record: (writer: { set: (ref: FirebaseFirestore.DocumentReference) => void }) => void): string[] {
+    const written: string[] = [];
+    record({ set: (ref) => written.push(ref.parent.parent!.id) });
+    return written;
+  }
+  const at = new Date('2026-10-19T12:00:00Z');
+
+  it('stay on the community\'s own boards', () => {
+    const community = boards((w) => recordCommunityScore(w, 'alice', 'c1', { points: 50 }, at));
+    assert.ok(community.length > 0);
+    assert.ok(community.every((id) => id.startsWith('c-c1_')));
+  });
+
+  it('where other scores reach the global boards too', () => {
+    const all = boards((w) => recordScore(w, 'alice', 'c1', { points: 50 }, at));
+    assert.ok(all.some((id) => id.startsWith('global_')));
+    assert.deepEqual(all.filter((id) => !id.startsWith('global_')), boards((w) => recordCommunityScore(w, 'alice', 'c1', { points: 50 }, at)));
+  });
+});
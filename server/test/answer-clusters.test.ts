@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { clusterAnswers, normalizeAnswer, type AnswerInput } from '../../shared/answer-clusters';
+import { db } from '../firebase';
+import { tallyPoll } from '../polls';
+
+function answers(...texts: string[]): AnswerInput[] {
+  return texts.map((text, i) => ({ id: `a${i}`, text }));
+}
+
+describe('normalizeAnswer', () => {
+  it('ignores case, accents and punctuation', () => {
+    assert.equal(normalizeAnswer('  Crème Brûlée!! '), 'creme brulee');
+    assert.equal(normalizeAnswer('trail-running, mostly'), 'trail running mostly');
+  });
+});
+
+describe('clusterAnswers', () => {
+  it('groups different wordings of one answer', () => {
+    const clusters = clusterAnswers(answers('The lakes', 'lake', 'Lake!', 'Mountains', 'the mountain'));
+    assert.deepEqual(clusters.map((c) => [c.count, c.answerIds]), [
+      [3, ['a0', 'a1', 'a2']],
+      [2, ['a3', 'a4']],
+    ]);
+  });
+
+  it('keeps dissimilar answers apart', () => {
+    const clusters = clusterAnswers(answers('Trail running', 'Road running', 'Swimming'));
+    assert.equal(clusters.length, 3);
+  });
+
+  it('labels a cluster with its most common wording, the earliest on a tie', () => {
+    const [tie] = clusterAnswers(answers('Mountains', 'The mountain', 'the mountain', 'mountains'));
+    assert.equal(tie.label, 'Mountains');
+    assert.equal(tie.key, 'mountains');
+    const [cluster] = clusterAnswers(answers('mountains', 'The mountain', 'the mountain'));
+    assert.equal(cluster.label, 'The mountain');
+  });
+
+  it('orders clusters by size, then by their first answer', () => {
+    const clusters = clusterAnswers(answers('Swimming', 'Cycling', 'Hiking', 'hiking'));
+    assert.deepEqual(clusters.map((c) => c.label), ['Hiking', 'Swimming', 'Cycling']);
+  });
+
+  it('has nothing to group without answers', () => {
+    assert.deepEqual(clusterAnswers([]), []);
+    // Blank answers and bare punctuation are skipped
+    assert.deepEqual(clusterAnswers(answers('   ', '?!')), []);
+  });
+
+  it('groups more loosely under a lower threshold', () => {
+    const texts = answers('Trail running', 'Road running');
+    assert.equal(clusterAnswers(texts, 0.3).length, 1);
+  });
+});
+
+describe('tallyPoll', () => {
+  it('clusters approved answers only', async () => {
+    const ref = db.collection('polls').doc('q1');
+    const responses = [
+      { id: 'r1', text: 'Autumn', status: 'approved', at: 1 },
+      { id: 'r2', text: 'autumn', status: 'pending', at: 2 },
+      { id: 'r3', text: 'Spring', status: 'pending', at: 3 },
+    ];
+    const poll = { type: 'open-ended', options: [], totalVotes: 3 } as Record<string, unknown>;
+    const snap = { ref, get: (field: string) => poll[field] } as unknown as FirebaseFirestore.DocumentSnapshot;
+    const read = async (query: FirebaseFirestore.Query) => {
+      const approvedOnly = query.isEqual(ref.collection('responses').where('status', '==', 'approved'));
+      const docs = responses
+        .filter((r) => !approvedOnly || r.status === 'approved')
+        .map((r) => ({ id: r.id, get: (field: string) => (field === 'createdAt' ? undefined : r[field as 'text']) }));
+      return { docs } as unknown as FirebaseFirestore.QuerySnapshot;
+    };
+
+    const results = await tallyPoll(snap, read);
+    assert.deepEqual(results.clusters, [{ label: 'Autumn', count: 1 }]);
+  });
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { normalizeBallot, tallyInstantRunoff } from '../../shared/instant-runoff';
+
+function repeat(ranking: string[], times: number): string[][] {
+  return Array.from({ length: times }, () => ranking);
+}
+
+describe('tallyInstantRunoff', () => {
+  it('ends in the first round when an option has a majority', () => {
+    const result = tallyInstantRunoff(['a', 'b', 'c'], [['a', 'b'], ['a', 'c'], ['a'], ['b'], ['c']]);
+    assert.equal(result.winner, 'a');
+    assert.equal(result.totalBallots, 5);
+    assert.deepEqual(result.rounds, [{ counts: { a: 3, b: 1, c: 1 }, exhausted: 0, eliminated: [] }]);
+  });
+
+  it('eliminates the last option each round and moves its ballots on', () => {
+    const result = tallyInstantRunoff(['a', 'b', 'c', 'd'], [
+      ...repeat(['a'], 4),
+      ...repeat(['b', 'a'], 3),
+      ...repeat(['c', 'b'], 2),
+      ['d', 'c'],
+    ]);
+    assert.deepEqual(result.rounds.map((r) => r.eliminated), [['d'], ['c'], []]);
+    assert.deepEqual(result.rounds.map((r) => r.counts), [
+      { a: 4, b: 3, c: 2, d: 1 },
+      { a: 4, b: 3, c: 3 },
+      { a: 4, b: 5 },
+    ]);
+    assert.equal(result.winner, 'b');
+  });
+
+  it('drops options nobody ranks together', () => {
+    const result = tallyInstantRunoff(['a', 'b', 'c', 'd'], [['a', 'c'], ['a'], ['b'], ['b']]);
+    assert.deepEqual(result.rounds[0].eliminated, ['c', 'd']);
+    assert.deepEqual(result.rounds[1].counts, { a: 2, b: 2 });
+  });
+
+  describe('ties', () => {
+    it('breaks a tie for last by the earlier rounds', () => {
+      // b and c are level in round 2; c had fewer in round 1
+      const result = tallyInstantRunoff(['a', 'b', 'c', 'd'], [
+        ...repeat(['a'], 4),
+        ...repeat(['b', 'a'], 3),
+        ...repeat(['c', 'b'], 2),
+        ['d', 'c'],
+      ]);
+      assert.deepEqual(result.rounds[1].eliminated, ['c']);
+    });
+
+    it('eliminates the later-listed option when no round separates them', () => {
+      const result = tallyInstantRunoff(['a', 'b', 'c'], [['a'], ['b'], ['c'], ['a']]);
+      assert.deepEqual(result.rounds[0].eliminated, ['c']);
+      assert.equal(result.winner, 'a');
+    });
+
+    it('has no winner when the options left are level in every round', () => {
+      const result = tallyInstantRunoff(['a', 'b'], [['a'], ['b']]);
+      assert.equal(result.winner, null);
+      assert.deepEqual(result.tied, ['a', 'b']);
+      assert.equal(result.rounds.length, 1);
+    });
+  });
+
+  it('stops counting exhausted ballots towards the majority', () => {
+    const result = tallyInstantRunoff(['a', 'b', 'c'], [...repeat(['a'], 3), ...repeat(['b'], 2), ...repeat(['c'], 2)]);
+    assert.deepEqual(result.rounds[1], { counts: { a: 3, b: 2 }, exhausted: 2, eliminated: [] });
+    // 3 of the 5 ballots still counting, not of all 7
+    assert.equal(result.winner, 'a');
+    assert.equal(result.totalBallots, 7);
+  });
+
+  it('has no rounds and no winner without ballots', () => {
+    assert.deepEqual(tallyInstantRunoff(['a', 'b'], []), { rounds: [], winner: null, tied: [], totalBallots: 0 });
+    // Ballots naming no known option are not counted
+    assert.deepEqual(tallyInstantRunoff(['a', 'b'], [[], ['z']]), { rounds: [], winner: null, tied: [], totalBallots: 0 });
+  });
+});
+
+describe('normalizeBallot', () => {
+  it('drops unknown options and repeats', () => {
+    assert.deepEqual(normalizeBallot(['b', 'z', 'a', 'b'], ['a', 'b', 'c']), ['b', 'a']);
+  });
+});
@@ -0,0 +1,216 @@
+// Firestore rules (../firestore.rules) against the emulator:
+//   npm run test:rules   (firebase-tools is a devDependency; its emulators need Java 11+)
+import { readFileSync } from 'fs';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+const { FieldValue } = firebase.firestore;
+
+let env: RulesTestEnvironment;
+
+const post = {
+  authorId: 'alice',
+  communityId: 'c1',
+  title: 'Hello',
+  content: 'First post',
+  voteScore: 0,
+  upvotes: [],
+  downvotes: [],
+  reactions: {},
+  commentCount: 0,
+  isPinned: false,
+  isLocked: false,
+};
+
+function as(uid: string, claims?: Record<string, unknown>) {
+  return env.authenticatedContext(uid, claims).firestore();
+}
+
+async function seed(docs: Record<string, object>) {
+  await env.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await Promise.all(Object.entries(docs).map(([path, data]) => db.doc(path).set(data)));
+  });
+}
+
+before(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-rules-test',
+    firestore: { rules: readFileSync('../firestore.rules', 'utf8') },
+  });
+});
+
+after(() => env.cleanup());
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await seed({
+    'communities/c1': { name: 'Runners', createdBy: 'admin', isActive: true, memberCount: 2 },
+    'communities/c1/members/mod': { uid: 'mod', role: 'moderator' },
+    'posts/p1': post,
+  });
+});
+
+describe('posts', () => {
+  it('lets the author edit their post', async () => {
+    await assertSucceeds(as('alice').doc('posts/p1').update({ title: 'Hello again' }));
+  });
+
+  it('keeps others from editing it', async () => {
+    await assertFails(as('bob').doc('posts/p1').update({ title: 'Mine now' }));
+  });
+
+  it('lets community moderators delete it', async () => {
+    await assertSucceeds(as('mod').doc('posts/p1').delete());
+  });
+
+  it('keeps the author and other members from deleting it', async () => {
+    await assertFails(as('alice').doc('posts/p1').delete());
+    await assertFails(as('bob').doc('posts/p1').delete());
+  });
+});
+
+describe('votes', () => {
+  const vote = { userId: 'bob', targetId: 'p1', targetType: 'post', type: 'up', createdAt: new Date() };
+
+  it('are cast through the server only', async () => {
+    const db = as('bob');
+    const batch = db.batch();
+    batch.update(db.doc('posts/p1'), { voteScore: 1, upvotes: ['bob'] });
+    batch.set(db.doc('votes/bob_p1'), vote);
+    await assertFails(batch.commit());
+    await assertFails(as('bob').doc('posts/p1').update({ voteScore: 1, upvotes: ['bob'] }));
+    await assertFails(as('bob').doc('votes/bob_p1').set(vote));
+  });
+
+  it('can\'t be taken back around the server', async () => {
+    await seed({
+      'posts/p1': { ...post, voteScore: 1, upvotes: ['bob'] },
+      'votes/bob_p1': { ...vote, pointsAwarded: 10, pointsWithheld: 0 },
+    });
+    const db = as('bob');
+    const batch = db.batch();
+    batch.update(db.doc('posts/p1'), { voteScore: 0, upvotes: [] });
+    batch.delete(db.doc('votes/bob_p1'));
+    await assertFails(batch.commit());
+    await assertFails(as('bob').doc('votes/bob_p1').delete());
+  });
+});
+
+describe('users', () => {
+  it('keeps server-owned fields out of the user\'s hands', async () => {
+    await seed({ 'users/alice': { displayName: 'Alice', points: 0 } });
+    await assertSucceeds(as('alice').doc('users/alice').update({ displayName: 'Al' }));
+    await assertFails(as('alice').doc('users/alice').update({ points: 1000 }));
+  });
+});
+
+describe('polls', () => {
+  const options = [
+    { id: 'o1', text: 'Yes', votes: 0, voters: [] },
+    { id: 'o2', text: 'No', votes: 0, voters: [] },
+  ];
+  const poll = {
+    title: 'Marathon in spring?',
+    createdBy: 'alice',
+    communityId: 'c1',
+    type: 'single',
+    status: 'active',
+    endsAt: null,
+    isAnonymous: false,
+    settings: { showResults: 'always', allowAddOptions: true },
+    options,
+    totalVotes: 0,
+    uniqueVoters: [],
+    finalResults: null,
+  };
+
+  it('leave single and multiple choice counts to the server', async () => {
+    await seed({ 'polls/q1': poll });
+    const db = as('bob');
+    const batch = db.batch();
+    batch.set(db.doc('polls/q1/votes/bob'), { uid: 'bob', optionIds: ['o1'], createdAt: FieldValue.serverTimestamp() });
+    batch.update(db.doc('polls/q1'), {
+      options: [{ ...options[0], votes: 1, voters: ['bob'] }, { ...options[1], votes: 50 }],
+      totalVotes: 1,
+      uniqueVoters: ['bob'],
+      lastVoteAt: FieldValue.serverTimestamp(),
+    });
+    await assertFails(batch.commit());
+  });
+
+  it('let voters cast a ranked ballot that leaves the options alone', async () => {
+    await seed({ 'polls/q1': { ...poll, type: 'ranked' } });
+    const db = as('bob');
+    const cast = (pollUpdate: object) => {
+      const batch = db.batch();
+      const ballot = db.collection('polls/q1/ballots').doc();
+      batch.set(ballot, { uid: 'bob', ranking: ['o2', 'o1'], createdAt: FieldValue.serverTimestamp() });
+      batch.set(db.doc('polls/q1/votes/bob'), { uid: 'bob', ballotId: ballot.id, createdAt: FieldValue.serverTimestamp() });
+      batch.update(db.doc('polls/q1'), { totalVotes: 1, uniqueVoters: ['bob'], lastVoteAt: FieldValue.serverTimestamp(), ...pollUpdate });
+      return batch.commit();
+    };
+    await assertFails(cast({ options: [{ ...options[0], text: 'Nope' }, options[1]] }));
+    await assertSucceeds(cast({}));
+  });
+
+  it('let voters add an option without touching the others', async () => {
+    await seed({ 'polls/q1': poll });
+    const added = { id: 'o3', text: 'Maybe', votes: 0, voters: [] };
+    await assertFails(as('bob').doc('polls/q1').update({ options: [{ ...options[0], votes: 9 }, options[1], added] }));
+    await assertSucceeds(as('bob').doc('polls/q1').update({ options: [...options, added] }));
+  });
+  it('keep open-ended answers pending until the creator approves them', async () => {
+    await seed({ 'polls/q1': { ...poll, type: 'open-ended', options: [] } });
+    const db = as('bob');
+    const answer = (status: string) => {
+      const batch = db.batch();
+      const response = db.collection('polls/q1/responses').doc();
+      batch.set(response, { uid: 'bob', text: 'Autumn', status, createdAt: FieldValue.serverTimestamp() });
+      batch.set(db.doc('polls/q1/votes/bob'), { uid: 'bob', ballotId: response.id, createdAt: FieldValue.serverTimestamp() });
+      batch.update(db.doc('polls/q1'), { totalVotes: 1, uniqueVoters: ['bob'], lastVoteAt: FieldValue.serverTimestamp() });
+      return batch.commit().then(() => response.id);
+    };
+    await assertFails(answer('approved'));
+    const id = await assertSucceeds(answer('pending'));
+    await assertFails(as('bob').doc(`polls/q1/responses/${id}`).update({ status: 'approved' }));
+    await assertSucceeds(as('alice').doc(`polls/q1/responses/${id}`).update({ status: 'approved' }));
+  });
+});
+
+describe('notifications', () => {
+  const notification = {
+    userId: 'alice',
+    actorId: 'bob',
+    type: 'comment',
+    title: 'New Comment',
+    message: 'bob commented on "Hello"',
+    data: { targetId: 'p1', targetType: 'post' },
+    isRead: false,
+    createdAt: new Date(),
+  };
+
+  it('are readable by their recipient only', async () => {
+    await seed({ 'notifications/n1': notification });
+    await assertSucceeds(as('alice').doc('notifications/n1').get());
+    await assertFails(as('bob').doc('notifications/n1').get());
+  });
+
+  it('name the caller as actor', async () => {
+    await assertSucceeds(as('bob').collection('notifications').add(notification));
+    await assertFails(as('carol').collection('notifications').add(notification));
+  });
+
+  it('leave server-sent types to the server', async () => {
+    for (const type of ['achievement', 'poll', 'streak']) {
+      await assertFails(as('bob').collection('notifications').add({ ...notification, type }));
+    }
+  });
+});
@@ -0,0 +1,76 @@
+// Storage rules (../storage.rules) against the emulator:
+//   npm run test:rules   (firebase-tools is a devDependency; its emulators need Java 11+)
+import { readFileSync } from 'fs';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+const MB = 1024 * 1024;
+
+let env: RulesTestEnvironment;
+
+async function upload(uid: string | null, path: string, size: number, contentType: string) {
+  const context = uid ? env.authenticatedContext(uid) : env.unauthenticatedContext();
+  await context.storage().ref(path).put(new Uint8Array(size), { contentType });
+}
+
+before(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-rules-test',
+    storage: { rules: readFileSync('../storage.rules', 'utf8') },
+  });
+});
+
+after(() => env.cleanup());
+
+beforeEach(() => env.clearStorage());
+
+describe('avatars', () => {
+  it('lets the owner upload an image', async () => {
+    await assertSucceeds(upload('alice', 'avatars/alice/me.png', 1024, 'image/png'));
+  });
+
+  it('keeps others out of the owner\'s prefix', async () => {
+    await assertFails(upload('bob', 'avatars/alice/me.png', 1024, 'image/png'));
+    await assertFails(upload(null, 'avatars/alice/me.png', 1024, 'image/png'));
+  });
+
+  it('rejects anything but images', async () => {
+    await assertFails(upload('alice', 'avatars/alice/me.mp4', 1024, 'video/mp4'));
+  });
+
+  it('rejects images over 5 MB', async () => {
+    await assertSucceeds(upload('alice', 'avatars/alice/max.png', 5 * MB, 'image/png'));
+    await assertFails(upload('alice', 'avatars/alice/big.png', 5 * MB + 1, 'image/png'));
+  });
+});
+
+describe('post media', () => {
+  it('lets the owner upload images and videos', async () => {
+    await assertSucceeds(upload('alice', 'posts/alice/photo.jpg', 1024, 'image/jpeg'));
+    await assertSucceeds(upload('alice', 'posts/alice/clip.mp4', 1024, 'video/mp4'));
+  });
+
+  it('keeps others out of the owner\'s prefix', async () => {
+    await assertFails(upload('bob', 'posts/alice/photo.jpg', 1024, 'image/jpeg'));
+  });
+
+  it('rejects other types', async () => {
+    await assertFails(upload('alice', 'posts/alice/notes.pdf', 1024, 'application/pdf'));
+  });
+
+  it('rejects files over 10 MB', async () => {
+    await assertFails(upload('alice', 'posts/alice/long.mp4', 10 * MB + 1, 'video/mp4'));
+  });
+});
+
+describe('other paths', () => {
+  it('are denied', async () => {
+    await assertFails(upload('alice', 'uploads/photo.jpg', 1024, 'image/jpeg'));
+    await assertFails(upload('alice', 'alice/photo.jpg', 1024, 'image/jpeg'));
+  });
+});
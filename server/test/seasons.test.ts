@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  MAX_SEASON_DAYS,
+  MAX_SEASON_TOP_N,
+  MIN_SEASON_HOURS,
+  isInSeason,
+  rankStandings,
+  validateSeason,
+} from '../../shared/seasons';
+
+const HOUR_MS = 3_600_000;
+const now = new Date('2026-10-19T12:00:00Z');
+const after = (ms: number) => new Date(now.getTime() + ms).toISOString();
+const input = { name: 'Autumn', endsAt: after(30 * 24 * HOUR_MS), topN: 10 };
+
+function problemsOf(overrides: object): string[] {
+  const checked = validateSeason({ ...input, ...overrides }, now);
+  assert.ok(!checked.ok);
+  return checked.problems.map((p) => p.field);
+}
+
+describe('validateSeason', () => {
+  it('trims the season and normalizes its end', () => {
+    const checked = validateSeason({ ...input, name: '  Autumn ', endsAt: '2026-11-18T12:00:00.000+00:00' }, now);
+    assert.ok(checked.ok);
+    assert.deepEqual(checked.season, { name: 'Autumn', endsAt: '2026-11-18T12:00:00.000Z', topN: 10 });
+  });
+
+  it('rejects an end in the past or too soon', () => {
+    assert.deepEqual(problemsOf({ endsAt: after(-HOUR_MS) }), ['endsAt']);
+    assert.deepEqual(problemsOf({ endsAt: after(MIN_SEASON_HOURS * HOUR_MS - 1) }), ['endsAt']);
+    assert.ok(validateSeason({ ...input, endsAt: after(MIN_SEASON_HOURS * HOUR_MS) }, now).ok);
+  });
+
+  it('rejects a season longer than the limit', () => {
+    assert.ok(validateSeason({ ...input, endsAt: after(MAX_SEASON_DAYS * 24 * HOUR_MS) }, now).ok);
+    assert.deepEqual(problemsOf({ endsAt: after(MAX_SEASON_DAYS * 24 * HOUR_MS + 1) }), ['endsAt']);
+  });
+
+  it('rejects an end that is not a date', () => {
+    assert.deepEqual(problemsOf({ endsAt: 'next spring' }), ['endsAt']);
+    assert.deepEqual(problemsOf({ endsAt: Date.parse(input.endsAt) }), ['endsAt']);
+  });
+
+  it('archives from 1 to the most places', () => {
+    assert.deepEqual(problemsOf({ topN: 0 }), ['topN']);
+    assert.deepEqual(problemsOf({ topN: MAX_SEASON_TOP_N + 1 }), ['topN']);
+    assert.deepEqual(problemsOf({ topN: 2.5 }), ['topN']);
+  });
+
+  it('reports every problem at once', () => {
+    assert.deepEqual(problemsOf({ name: ' ', endsAt: undefined, topN: undefined }), ['name', 'endsAt', 'topN']);
+  });
+});
+
+describe('isInSeason', () => {
+  const season = { startsAt: new Date('2026-10-01T00:00:00Z'), endsAt: new Date('2026-11-01T00:00:00Z') };
+  const next = { startsAt: season.endsAt, endsAt: new Date('2026-12-01T00:00:00Z') };
+
+  it('counts from the start up to, not including, the end', () => {
+    assert.equal(isInSeason(season, season.startsAt), true);
+    assert.equal(isInSeason(season, new Date(season.startsAt.getTime() - 1)), false);
+    assert.equal(isInSeason(season, new Date(season.endsAt.getTime() - 1)), true);
+    assert.equal(isInSeason(season, season.endsAt), false);
+  });
+
+  it('leaves no moment in two back-to-back seasons', () => {
+    for (const at of [new Date(season.endsAt.getTime() - 1), season.endsAt]) {
+      assert.equal(isInSeason(season, at) && isInSeason(next, at), false);
+      assert.equal(isInSeason(season, at) || isInSeason(next, at), true);
+    }
+  });
+});
+
+describe('rankStandings', () => {
+  it('ranks by points and fills in missing counts', () => {
+    assert.deepEqual(rankStandings([{ uid: 'a', points: 30, posts: 2 }, { uid: 'b', points: 10 }], 10), [
+      { uid: 'a', rank: 1, points: 30, posts: 2, comments: 0, votes: 0, achievements: 0 },
+      { uid: 'b', rank: 2, points: 10, posts: 0, comments: 0, votes: 0, achievements: 0 },
+    ]);
+  });
+
+  it('shares a rank on a tie and skips the places the tie took', () => {
+    const standings = rankStandings([
+      { uid: 'a', points: 30 },
+      { uid: 'b', points: 20 },
+      { uid: 'c', points: 20 },
+      { uid: 'd', points: 10 },
+    ], 10);
+    assert.deepEqual(standings.map((s) => [s.uid, s.rank]), [['a', 1], ['b', 2], ['c', 2], ['d', 4]]);
+  });
+
+  it('keeps only the top places, even within a tie', () => {
+    const standings = rankStandings([{ uid: 'a', points: 20 }, { uid: 'b', points: 20 }, { uid: 'c', points: 20 }], 2);
+    assert.deepEqual(standings.map((s) => [s.uid, s.rank]), [['a', 1], ['b', 1]]);
+  });
+
+  it('places nobody without points', () => {
+    assert.deepEqual(rankStandings([{ uid: 'a', points: 5 }, { uid: 'b', points: 0 }, { uid: 'c' }], 10).map((s) => s.uid), ['a']);
+    assert.deepEqual(rankStandings([], 10), []);
+  });
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  EMPTY_STREAK,
+  GRACE_EARN_EVERY,
+  MAX_GRACE_DAYS,
+  addDays,
+  computeStreak,
+  isAtRisk,
+  isTimeZone,
+  localDay,
+  localHour,
+  recordDay,
+  settle,
+  streakDeadline,
+} from '../../shared/streaks';
+
+// n consecutive days from start
+function run(start: string, n: number): string[] {
+  return Array.from({ length: n }, (_, i) => addDays(start, i));
+}
+
+describe('localDay', () => {
+  it('rolls over at midnight in the user\'s time zone', () => {
+    const at = new Date('2026-10-19T23:30:00Z');
+    assert.equal(localDay(at, 'UTC'), '2026-10-19');
+    assert.equal(localDay(at, 'Europe/Berlin'), '2026-10-20');
+    assert.equal(localDay(new Date('2026-10-20T03:00:00Z'), 'America/New_York'), '2026-10-19');
+    assert.equal(localHour(at, 'Europe/Berlin'), 1);
+  });
+
+  it('keeps a day whole across a daylight saving change', () => {
+    // Berlin leaves summer time on 2026-10-25 at 03:00 local
+    assert.equal(localDay(new Date('2026-10-24T22:30:00Z'), 'Europe/Berlin'), '2026-10-25');
+    assert.equal(localDay(new Date('2026-10-25T22:30:00Z'), 'Europe/Berlin'), '2026-10-25');
+  });
+
+  it('knows a time zone from anything else', () => {
+    assert.equal(isTimeZone('Asia/Tokyo'), true);
+    assert.equal(isTimeZone('Mars/Olympus'), false);
+    assert.equal(isTimeZone(''), false);
+  });
+});
+
+describe('addDays', () => {
+  it('crosses months and years', () => {
+    assert.equal(addDays('2026-10-31', 1), '2026-11-01');
+    assert.equal(addDays('2026-12-31', 1), '2027-01-01');
+    assert.equal(addDays('2028-03-01', -1), '2028-02-29');
+  });
+});
+
+describe('recordDay', () => {
+  it('counts consecutive days', () => {
+    const state = computeStreak(run('2026-10-01', 3));
+    assert.deepEqual(state, { current: 3, longest: 3, daysActive: 3, lastActiveDay: '2026-10-03', graceDays: 0 });
+  });
+
+  it('ignores a repeat of the same day, or an earlier one', () => {
+    const state = computeStreak(run('2026-10-01', 3));
+    assert.equal(recordDay(state, '2026-10-03'), state);
+    assert.equal(recordDay(state, '2026-10-01'), state);
+  });
+
+  it('starts over after a gap with no grace days banked', () => {
+    const state = recordDay(computeStreak(run('2026-10-01', 3)), '2026-10-05');
+    assert.equal(state.current, 1);
+    assert.equal(state.longest, 3);
+    assert.equal(state.daysActive, 4);
+  });
+
+  it('banks a grace day every week, up to the cap', () => {
+    assert.equal(computeStreak(run('2026-10-01', GRACE_EARN_EVERY - 1)).graceDays, 0);
+    assert.equal(computeStreak(run('2026-10-01', GRACE_EARN_EVERY)).graceDays, 1);
+    assert.equal(computeStreak(run('2026-10-01', GRACE_EARN_EVERY * (MAX_GRACE_DAYS + 1))).graceDays, MAX_GRACE_DAYS);
+  });
+
+  it('spends grace days on a gap they cover, without counting the missed days', () => {
+    const week = computeStreak(run('2026-10-01', GRACE_EARN_EVERY));
+    const kept = recordDay(week, addDays(week.lastActiveDay!, 2));
+    assert.equal(kept.current, GRACE_EARN_EVERY + 1);
+    assert.equal(kept.graceDays, 0);
+    const lost = recordDay(week, addDays(week.lastActiveDay!, 3));
+    assert.equal(lost.current, 1);
+  });
+});
+
+describe('computeStreak', () => {
+  it('matches folding the days in order, whatever order they come in', () => {
+    const days = ['2026-10-04', '2026-10-01', '2026-10-02', '2026-10-02', '2026-10-06'];
+    const folded = ['2026-10-01', '2026-10-02', '2026-10-04', '2026-10-06'].reduce(recordDay, EMPTY_STREAK);
+    assert.deepEqual(computeStreak(days), folded);
+  });
+});
+
+describe('settle', () => {
+  const state = computeStreak(run('2026-10-01', 3));
+
+  it('keeps the streak through the day after the last active one', () => {
+    assert.equal(streakDeadline(state), '2026-10-04');
+    assert.equal(settle(state, '2026-10-04').current, 3);
+    assert.equal(isAtRisk(state, '2026-10-04'), true);
+    assert.equal(isAtRisk(state, '2026-10-03'), false);
+  });
+
+  it('ends it once the deadline has passed', () => {
+    assert.deepEqual(settle(state, '2026-10-05'), { ...state, current: 0, graceDays: 0 });
+    assert.equal(streakDeadline(EMPTY_STREAK), null);
+  });
+});
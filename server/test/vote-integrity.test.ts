@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  BURST_MIN,
+  NEW_ACCOUNT_DAYS,
+  RECIPROCAL_MIN,
+  SHARED_NETWORK_MIN,
+  assessUpvote,
+  releasedPoints,
+  signalsOf,
+  votePoints,
+  type UpvoteFacts,
+} from '../../shared/vote-integrity';
+
+// An upvote nothing is suspicious about
+const clean: UpvoteFacts = { given: 1, received: 0, accountAgeHours: 24 * 365, newAccountVotes: 0, networkAccounts: [] };
+
+function signals(facts: Partial<UpvoteFacts>) {
+  return signalsOf(assessUpvote({ ...clean, ...facts }));
+}
+
+describe('assessUpvote', () => {
+  it('flags nothing for an ordinary upvote', () => {
+    assert.deepEqual(assessUpvote(clean), {});
+  });
+
+  it('flags reciprocal voting once both ways reach the minimum', () => {
+    assert.deepEqual(signals({ given: RECIPROCAL_MIN, received: RECIPROCAL_MIN - 1 }), []);
+    assert.deepEqual(signals({ given: RECIPROCAL_MIN - 1, received: RECIPROCAL_MIN }), []);
+    assert.deepEqual(assessUpvote({ ...clean, given: RECIPROCAL_MIN, received: RECIPROCAL_MIN + 2 }), {
+      reciprocal: { given: RECIPROCAL_MIN, received: RECIPROCAL_MIN + 2 },
+    });
+  });
+
+  it('flags a burst only from accounts younger than the limit', () => {
+    const young = NEW_ACCOUNT_DAYS * 24 - 0.5;
+    assert.deepEqual(signals({ accountAgeHours: young, newAccountVotes: BURST_MIN - 1 }), []);
+    assert.deepEqual(signals({ accountAgeHours: NEW_ACCOUNT_DAYS * 24, newAccountVotes: BURST_MIN }), []);
+    assert.deepEqual(signals({ accountAgeHours: null, newAccountVotes: BURST_MIN }), []);
+    assert.deepEqual(assessUpvote({ ...clean, accountAgeHours: young, newAccountVotes: BURST_MIN }), {
+      'new-account': { accountAgeHours: Math.floor(young), newAccountVotes: BURST_MIN },
+    });
+  });
+
+  it('flags accounts sharing a network from the minimum on', () => {
+    const accounts = Array.from({ length: SHARED_NETWORK_MIN }, (_, i) => `u${i}`);
+    assert.deepEqual(signals({ networkAccounts: accounts.slice(1) }), []);
+    assert.deepEqual(assessUpvote({ ...clean, networkAccounts: accounts }), { 'shared-network': { accounts } });
+  });
+
+  it('reports every signal that fired, in order', () => {
+    assert.deepEqual(signals({
+      given: RECIPROCAL_MIN,
+      received: RECIPROCAL_MIN,
+      accountAgeHours: 1,
+      newAccountVotes: BURST_MIN,
+      networkAccounts: ['a', 'b', 'c'],
+    }), ['reciprocal', 'new-account', 'shared-network']);
+  });
+});
+
+describe('votePoints', () => {
+  const upvote = { previous: null, voteType: 'up' as const, points: 10, flagged: false };
+
+  it('pays an upvote in full', () => {
+    assert.deepEqual(votePoints(upvote), { awarded: 10, withheld: 0, revoked: 0 });
+  });
+
+  it('withholds the points of a flagged upvote', () => {
+    assert.deepEqual(votePoints({ ...upvote, flagged: true }), { awarded: 0, withheld: 10, revoked: 0 });
+  });
+
+  it('revokes what the previous upvote paid, and nothing it withheld', () => {
+    assert.deepEqual(votePoints({ ...upvote, previous: 'up', voteType: null, paid: 0 }), { awarded: 0, withheld: 0, revoked: 0 });
+    assert.deepEqual(votePoints({ ...upvote, previous: 'up', voteType: 'down', paid: 10 }), { awarded: 0, withheld: 0, revoked: 10 });
+  });
+
+  it('revokes nothing for upvotes with no record of what they paid', () => {
+    assert.deepEqual(votePoints({ ...upvote, previous: 'up', voteType: null }), { awarded: 0, withheld: 0, revoked: 0 });
+  });
+
+  it('moves nothing for downvotes or one\'s own content', () => {
+    assert.deepEqual(votePoints({ ...upvote, voteType: 'down' }), { awarded: 0, withheld: 0, revoked: 0 });
+    assert.deepEqual(votePoints({ ...upvote, points: 0, flagged: true }), { awarded: 0, withheld: 0, revoked: 0 });
+  });
+});
+
+describe('releasedPoints', () => {
+  const vote = { type: 'up', pointsWithheld: 10 };
+
+  it('pays withheld points when the case is dismissed', () => {
+    assert.equal(releasedPoints('dismiss', vote), 10);
+  });
+
+  it('keeps them withheld when the case is confirmed', () => {
+    assert.equal(releasedPoints('confirm', vote), 0);
+  });
+
+  it('pays nothing for upvotes taken back or switched since', () => {
+    assert.equal(releasedPoints('dismiss', undefined), 0);
+    assert.equal(releasedPoints('dismiss', { ...vote, type: 'down' }), 0);
+  });
+
+  it('pays nothing twice', () => {
+    assert.equal(releasedPoints('dismiss', { ...vote, pointsWithheld: 0 }), 0);
+    assert.equal(releasedPoints('dismiss', { type: 'up' }), 0);
+  });
+});
@@ -0,0 +1,35 @@
+import type { Server, Socket } from 'socket.io';
+import type { ClientToServerEvents, ServerToClientEvents } from '../shared/socket-events';
+
+// What authenticateSocket attaches for a verified Firebase ID token.
+export interface SocketUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  // Custom claims: every non-standard field of the decoded token
+  claims: Record<string, unknown>;
+}
+
+export interface Profile {
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+export interface PresenceState {
+  // communityId -> when this socket joined that room
+  joinedAt: Record<string, number>;
+  lastHeartbeat: number;
+}
+
+// socket.data; visible to other nodes through fetchSockets()
+export interface SocketData {
+  user: SocketUser | null;
+  profile?: Profile;
+  presence?: PresenceState;
+}
+
+// No node-to-node events besides the adapter's own
+export type InterServerEvents = Record<string, never>;
+
+export type RealtimeServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+export type RealtimeSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
@@ -0,0 +1,87 @@
+import { checkCommunityAccess } from './access';
+import { reply } from './ack';
+import { requireUser } from './auth';
+import { db } from './firebase';
+import { displayNameFor } from './presence';
+import type { RealtimeServer, RealtimeSocket } from './types';
+
+// A typing:start is re-broadcast at most once per debounce window; clients
+// re-send it while the user keeps typing. Without a refresh the server sends
+// typing:stop on the user's behalf once the expiry passes.
+const TYPING_DEBOUNCE_MS = 2000;
+const TYPING_EXPIRY_MS = 6000;
+
+const postRoom = (postId: string) => `post:${postId}`;
+
+function isPostId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= 128 && !value.includes('/');
+}
+
+export function registerTypingHandlers(_io: RealtimeServer, socket: RealtimeSocket) {
+  const typing = new Map<string, { lastBroadcast: number; timer: NodeJS.Timeout | null }>();
+
+  function stop(postId: string, { broadcast }: { broadcast: boolean }) {
+    const entry = typing.get(postId);
+    const user = socket.data.user;
+    if (!entry || !user) return;
+    if (entry.timer) clearTimeout(entry.timer);
+    typing.delete(postId);
+    if (broadcast) socket.to(postRoom(postId)).emit('typing:stop', { postId, uid: user.uid });
+  }
+
+  // Comment threads live in post:{postId} sub-rooms so typing cues only reach
+  // people looking at that post. Access follows the post's community.
+  socket.on('post:watch', async (postId, ack) => {
+    if (!isPostId(postId)) return reply(ack, { ok: false, error: 'invalid-payload' });
+    try {
+      const snap = await db.collection('posts').doc(postId).get();
+      if (!snap.exists) return reply(ack, { ok: false, error: 'not-found' });
+      const error = await checkCommunityAccess(socket.data.user, snap.get('communityId'));
+      if (error) return reply(ack, { ok: false, error });
+      await socket.join(postRoom(postId));
+      reply(ack, { ok: true });
+    } catch (err) {
+      console.error('[typing] post:watch failed', postId, err);
+      reply(ack, { ok: false, error: 'server-error' });
+    }
+  });
+
+  socket.on('post:unwatch', (postId) => {
+    if (!isPostId(postId)) return;
+    stop(postId, { broadcast: true });
+    socket.leave(postRoom(postId));
+  });
+
+  socket.on('typing:start', async (payload) => {
+    const user = requireUser(socket, 'typing:start');
+    if (!user) return;
+    const postId = payload && payload.postId;
+    if (!isPostId(postId) || !socket.rooms.has(postRoom(postId))) return;
+    // Identity comes from the verified token / profile, never from the payload
+    const { displayName } = await displayNameFor(socket);
+
+    const now = Date.now();
+    const entry = typing.get(postId) || { lastBroadcast: 0, timer: null };
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = setTimeout(() => stop(postId, { broadcast: true }), TYPING_EXPIRY_MS);
+    typing.set(postId, entry);
+    if (now - entry.lastBroadcast < TYPING_DEBOUNCE_MS) return;
+    entry.lastBroadcast = now;
+    socket.to(postRoom(postId)).emit('typing:start', {
+      postId,
+      uid: user.uid,
+      displayName: displayName || 'Someone',
+      expiresIn: TYPING_EXPIRY_MS,
+    });
+  });
+
+  socket.on('typing:stop', (payload) => {
+    const postId = payload && payload.postId;
+    if (!isPostId(postId)) return;
+    stop(postId, { broadcast: true });
+  });
+
+  socket.on('disconnecting', () => {
+    Array.from(typing.keys()).forEach((postId) => stop(postId, { broadcast: true }));
+  });
+}
@@ -0,0 +1,261 @@
+import { createHash } from 'crypto';
+import { can } from '../shared/permissions';
+import type { AckError, AckResult } from '../shared/socket-events';
+import {
+  BURST_WINDOW_MINUTES,
+  NEW_ACCOUNT_DAYS,
+  RECIPROCAL_WINDOW_DAYS,
+  SHARED_NETWORK_WINDOW_HOURS,
+  VOTE_SIGNALS,
+  assessUpvote,
+  releasedPoints,
+  signalsOf,
+  type CaseDecision,
+  type VoteEvidence,
+  type VoteSignal,
+} from '../shared/vote-integrity';
+import { reply } from './ack';
+import { requireUser } from './auth';
+import { admin, db } from './firebase';
+import { recordScore, seasonFor } from './leaderboards';
+import { loadActor } from './roles';
+import type { RealtimeSocket, SocketUser } from './types';
+
+const { FieldValue, Timestamp } = admin.firestore;
+
+// Vote-ring detection (see shared/vote-integrity.ts). castVote in content.ts
+// calls checkUpvote inside its transaction for every upvote that would earn
+// the author points, withholds the points of flagged ones and records them
+// with flagUpvote, which opens the author's case in the community:
+//
+//   voteCases/{communityId}_{authorId}            the case moderators see
+//   voteCases/{communityId}_{authorId}/evidence/{voteId}
+//   voteOrigins/{voteId}                          the network of each upvote
+//
+// Networks are kept as salted hashes of the client address, in a collection
+// no client can read. Behind a proxy set CLIENT_IP_HEADER (e.g.
+// x-forwarded-for); otherwise every vote would seem to share one network.
+
+const CLIENT_IP_HEADER = process.env.CLIENT_IP_HEADER?.toLowerCase();
+const NETWORK_SALT = process.env.VOTE_NETWORK_SALT ?? '';
+const HOUR_MS = 3_600_000;
+// Evidence settled per transaction when a case is resolved
+const RESOLVE_BATCH = 100;
+// Account creation times kept per node; they never change
+const MAX_CACHED_ACCOUNTS = 10_000;
+
+type Transaction = FirebaseFirestore.Transaction;
+type Snapshot = FirebaseFirestore.DocumentSnapshot;
+
+class CaseError extends Error {
+  code: AckError;
+
+  constructor(code: AckError) {
+    super(code);
+    this.code = code;
+  }
+}
+
+export function caseRef(communityId: string, authorId: string) {
+  return db.collection('voteCases').doc(`${communityId}_${authorId}`);
+}
+
+function originRef(voteId: string) {
+  return db.collection('voteOrigins').doc(voteId);
+}
+
+// The socket's network as a hash, or null when the address is unknown
+export function networkOf(socket: RealtimeSocket): string | null {
+  let address = socket.handshake.address;
+  if (CLIENT_IP_HEADER) {
+    const header = socket.handshake.headers[CLIENT_IP_HEADER];
+    const value = Array.isArray(header) ? header[0] : header;
+    if (value) address = value.split(',')[0].trim();
+  }
+  if (!address) return null;
+  return createHash('sha256').update(`${NETWORK_SALT}${address}`).digest('hex').slice(0, 32);
+}
+
+const accounts = new Map<string, Promise<number | null>>();
+
+// When the account was created (Firebase Auth), or null when unknown
+function accountCreatedAt(uid: string): Promise<number | null> {
+  const hit = accounts.get(uid);
+  if (hit) return hit;
+  const created = admin.auth().getUser(uid)
+    .then((u) => Date.parse(u.metadata.creationTime) || null)
+    .catch(() => null);
+  if (accounts.size >= MAX_CACHED_ACCOUNTS) accounts.delete(accounts.keys().next().value!);
+  accounts.set(uid, created);
+  // An unknown age is looked up again next time
+  void created.then((at) => {
+    if (at === null) accounts.delete(uid);
+  });
+  return created;
+}
+
+export interface UpvoteCheck {
+  evidence: VoteEvidence;
+  signals: VoteSignal[];
+  // Whether the voter's account is new, kept on the vote for later bursts
+  newAccount: boolean;
+}
+
+// Gathers the votes around an upvote from voterId on authorId at `now` and
+// assesses it. Reads outside the caller's transaction: the counts only need
+// to be about right.
+export async function checkUpvote(voterId: string, authorId: string, network: string | null, now: Date): Promise<UpvoteCheck> {
+  const votes = db.collection('votes');
+  const since = (ms: number) => Timestamp.fromMillis(now.getTime() - ms);
+  const createdAt = await accountCreatedAt(voterId);
+  const accountAgeHours = createdAt === null ? null : (now.getTime() - createdAt) / HOUR_MS;
+  const newAccount = accountAgeHours !== null && accountAgeHours < NEW_ACCOUNT_DAYS * 24;
+
+  const reciprocalSince = since(RECIPROCAL_WINDOW_DAYS * 24 * HOUR_MS);
+  const [given, received, burst, origins] = await Promise.all([
+    votes.where('userId', '==', voterId).where('targetAuthorId', '==', authorId)
+      .where('type', '==', 'up').where('createdAt', '>=', reciprocalSince).count().get(),
+    votes.where('userId', '==', authorId).where('targetAuthorId', '==', voterId)
+      .where('type', '==', 'up').where('createdAt', '>=', reciprocalSince).count().get(),
+    newAccount
+      ? votes.where('targetAuthorId', '==', authorId).where('newAccount', '==', true)
+        .where('type', '==', 'up').where('createdAt', '>=', since(BURST_WINDOW_MINUTES * 60_000)).count().get()
+      : null,
+    network
+      ? db.collection('voteOrigins').where('targetAuthorId', '==', authorId).where('network', '==', network)
+        .where('createdAt', '>=', since(SHARED_NETWORK_WINDOW_HOURS * HOUR_MS)).select('userId').limit(50).get()
+      : null,
+  ]);
+
+  const networkAccounts = origins ? new Set<string>(origins.docs.map((d) => d.get('userId'))) : new Set<string>();
+  if (network) networkAccounts.add(voterId);
+  // The counts include the upvote being checked
+  const evidence = assessUpvote({
+    given: given.data().count + 1,
+    received: received.data().count,
+    accountAgeHours,
+    newAccountVotes: burst ? burst.data().count + 1 : 0,
+    networkAccounts: [...networkAccounts],
+  });
+  return { evidence, signals: signalsOf(evidence), newAccount };
+}
+
+// Keeps where an upvote came from while it stands
+export function recordOrigin(tx: Transaction, voteId: string, origin: { userId: string; targetAuthorId: string; network: string; createdAt: FirebaseFirestore.Timestamp } | null) {
+  if (origin) tx.set(originRef(voteId), origin);
+  else tx.delete(originRef(voteId));
+}
+
+export interface Flag {
+  communityId: string;
+  authorId: string;
+  voterId: string;
+  voteId: string;
+  targetId: string;
+  targetType: string;
+  // Points withheld from the author
+  points: number;
+  check: UpvoteCheck;
+  at: FirebaseFirestore.Timestamp;
+}
+
+// Records a flagged upvote on the author's case, reopening a resolved one.
+// caseSnap must have been read in tx.
+export function flagUpvote(tx: Transaction, caseSnap: Snapshot, flag: Flag) {
+  const { evidence, signals } = flag.check;
+  const reopened = caseSnap.get('status') !== 'open';
+  const counts = reopened
+    ? Object.fromEntries(VOTE_SIGNALS.map((s) => [s, signals.includes(s) ? 1 : 0]))
+    : Object.fromEntries(signals.map((s) => [s, FieldValue.increment(1)]));
+  tx.set(caseSnap.ref, {
+    communityId: flag.communityId,
+    authorId: flag.authorId,
+    status: 'open',
+    signals: counts,
+    ...(reopened
+      ? { flaggedVotes: 1, pointsWithheld: flag.points, voterIds: [flag.voterId], openedAt: flag.at, decision: null, resolvedBy: null, resolvedAt: null }
+      : { flaggedVotes: FieldValue.increment(1), pointsWithheld: FieldValue.increment(flag.points), voterIds: FieldValue.arrayUnion(flag.voterId) }),
+    lastFlaggedAt: flag.at,
+  }, { merge: true });
+  tx.set(caseSnap.ref.collection('evidence').doc(flag.voteId), {
+    voteId: flag.voteId,
+    voterId: flag.voterId,
+    targetId: flag.targetId,
+    targetType: flag.targetType,
+    points: flag.points,
+    signals,
+    evidence,
+    resolved: false,
+    createdAt: flag.at,
+  });
+}
+
+// Settles every flagged upvote of an open case. Dismissing pays the points
+// still withheld on upvotes that stand; confirming keeps them withheld.
+// Resolves to the points paid out.
+async function resolveCase(user: SocketUser, caseId: string, decision: CaseDecision): Promise<number> {
+  const ref = db.collection('voteCases').doc(caseId);
+  const snap = await ref.get();
+  if (!snap.exists) throw new CaseError('not-found');
+  const communityId: string = snap.get('communityId');
+  const authorId: string = snap.get('authorId');
+  const actor = await loadActor(user, communityId);
+  if (!can(actor, 'content:moderate', { communityId })) throw new CaseError('forbidden');
+  if (snap.get('status') !== 'open') throw new CaseError('invalid-payload');
+
+  const season = await seasonFor(communityId);
+  let paid = 0;
+  for (;;) {
+    const round = await db.runTransaction(async (tx) => {
+      const pending = await tx.get(ref.collection('evidence').where('resolved', '==', false).limit(RESOLVE_BATCH));
+      const votes = pending.empty ? [] : await tx.getAll(...pending.docs.map((d) => db.collection('votes').doc(d.id)));
+      const now = Timestamp.now();
+      let points = 0;
+      pending.docs.forEach((d, i) => {
+        const vote = votes[i];
+        const released = releasedPoints(decision, vote.data());
+        if (released) {
+          tx.update(vote.ref, { pointsAwarded: FieldValue.increment(released), pointsWithheld: 0 });
+          points += released;
+        }
+        tx.update(d.ref, { resolved: true });
+      });
+      if (points) {
+        tx.set(db.collection('users').doc(authorId), { points: FieldValue.increment(points) }, { merge: true });
+        recordScore(tx, authorId, communityId, { points }, now.toDate(), season);
+      }
+      const done = pending.size < RESOLVE_BATCH;
+      if (done) {
+        tx.update(ref, {
+          status: decision === 'dismiss' ? 'dismissed' : 'confirmed',
+          decision,
+          pointsWithheld: 0,
+          resolvedBy: user.uid,
+          resolvedAt: now,
+        });
+      }
+      return { points, done };
+    });
+    paid += round.points;
+    if (round.done) return paid;
+  }
+}
+
+function fail(ack: ((res: AckResult) => void) | undefined, event: string, err: unknown) {
+  if (err instanceof CaseError) return reply(ack, { ok: false, error: err.code });
+  console.error(`[vote-integrity] ${event} failed`, err);
+  reply(ack, { ok: false, error: 'server-error' });
+}
+
+export function registerVoteCaseHandlers(socket: RealtimeSocket) {
+  socket.on('voteCase:resolve', async (payload, ack) => {
+    const user = requireUser(socket, 'voteCase:resolve', ack);
+    if (!user) return;
+    try {
+      const restored = await resolveCase(user, payload.caseId, payload.decision);
+      reply(ack, { ok: true, restored });
+    } catch (err) {
+      fail(ack, 'voteCase:resolve', err);
+    }
+  });
+}
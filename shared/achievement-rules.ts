@@ -0,0 +1,186 @@
+// Community achievement rules: achievements a community's admins define for
+// their own community, next to the built-in catalog in achievements.ts. A
+// rule is declarative:
+//
+//   { metric: 'posts', tags: ['marathon'], threshold: 10, window: 'monthly' }
+//   -> "Create 10 posts tagged #marathon in one month"
+//
+// Rules live in communities/{communityId}/achievementRules/{ruleId} and are
+// only written by the realtime server, which validates them with
+// validateRule. Every post, comment, vote and reaction the server writes is
+// matched against the community's enabled rules (matchesEvent) and counted
+// per rule and window; the rule unlocks once a window's count reaches the
+// threshold. Counting starts when the rule is created, so earlier activity
+// does not count towards it.
+//
+// What a rule counts (metric, tags, window) is fixed once it exists: its
+// counters would mean something else after a change. Admins create a new rule
+// instead; everything else can be edited.
+
+import { periodKey, type AchievementDefinition, type AchievementPeriod } from './achievements'
+
+export type RuleMetric = 'posts' | 'comments' | 'votes' | 'reactions'
+export type RuleRarity = AchievementDefinition['rarity']
+
+export const RULE_METRICS: readonly RuleMetric[] = ['posts', 'comments', 'votes', 'reactions']
+export const RULE_WINDOWS: readonly AchievementPeriod[] = ['all-time', 'daily', 'weekly', 'monthly']
+export const RULE_RARITIES: readonly RuleRarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary']
+
+export const MAX_RULES_PER_COMMUNITY = 50
+export const MAX_RULE_TAGS = 5
+export const MAX_RULE_THRESHOLD = 100_000
+export const MAX_RULE_POINTS = 1000
+const MAX_NAME = 60
+const MAX_DESCRIPTION = 200
+const MAX_ICON = 16
+const MAX_TAG = 50
+
+// What an admin authors
+export interface RuleInput {
+  name: string
+  description: string
+  icon: string
+  points: number
+  rarity: RuleRarity
+  metric: RuleMetric
+  // Any of these tags; empty counts everything in the community
+  tags: string[]
+  threshold: number
+  window: AchievementPeriod
+  enabled: boolean
+}
+
+export interface AchievementRule extends RuleInput {
+  id: string
+  communityId: string
+  createdBy: string
+}
+
+export interface RuleProblem {
+  field: keyof RuleInput
+  message: string
+}
+
+export type RuleValidation = { ok: true; rule: RuleInput } | { ok: false; problems: RuleProblem[] }
+
+// One write, as the server sees it. tags are the post's: a comment counts with
+// the tags of the post it is on, and votes and reactions on comments carry none.
+export interface RuleEvent {
+  metric: RuleMetric
+  communityId: string
+  tags: string[]
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').toLowerCase()
+}
+
+function isWholeNumber(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+}
+
+// Checks an authored rule and returns it trimmed, with tags normalized and
+// deduplicated. Unknown keys are dropped.
+export function validateRule(input: unknown): RuleValidation {
+  const raw = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof RuleInput, unknown>>
+  const problems: RuleProblem[] = []
+  const problem = (field: keyof RuleInput, message: string) => problems.push({ field, message })
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+
+  const name = text(raw.name)
+  if (!name || name.length > MAX_NAME) problem('name', `Name must be 1-${MAX_NAME} characters`)
+  const description = text(raw.description)
+  if (description.length > MAX_DESCRIPTION) problem('description', `Description must be at most ${MAX_DESCRIPTION} characters`)
+  const icon = text(raw.icon)
+  if (!icon || icon.length > MAX_ICON) problem('icon', 'Pick an icon')
+  if (!isWholeNumber(raw.points, 0, MAX_RULE_POINTS)) problem('points', `Points must be a whole number from 0 to ${MAX_RULE_POINTS}`)
+  if (!RULE_RARITIES.includes(raw.rarity as RuleRarity)) problem('rarity', 'Unknown rarity')
+  if (!RULE_METRICS.includes(raw.metric as RuleMetric)) problem('metric', 'Unknown metric')
+  if (!RULE_WINDOWS.includes(raw.window as AchievementPeriod)) problem('window', 'Unknown window')
+  if (!isWholeNumber(raw.threshold, 1, MAX_RULE_THRESHOLD)) problem('threshold', `Threshold must be a whole number from 1 to ${MAX_RULE_THRESHOLD.toLocaleString()}`)
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') problem('enabled', 'Must be on or off')
+
+  const tags: string[] = []
+  if (raw.tags !== undefined && !Array.isArray(raw.tags)) {
+    problem('tags', 'Tags must be a list')
+  } else {
+    for (const tag of (raw.tags as unknown[] | undefined) ?? []) {
+      const clean = typeof tag === 'string' ? normalizeTag(tag) : ''
+      if (!clean || clean.length > MAX_TAG) {
+        problem('tags', `Tags must be 1-${MAX_TAG} characters`)
+        break
+      }
+      if (!tags.includes(clean)) tags.push(clean)
+    }
+    if (tags.length > MAX_RULE_TAGS) problem('tags', `At most ${MAX_RULE_TAGS} tags`)
+  }
+
+  if (problems.length) return { ok: false, problems }
+  return {
+    ok: true,
+    rule: {
+      name,
+      description,
+      icon,
+      points: raw.points as number,
+      rarity: raw.rarity as RuleRarity,
+      metric: raw.metric as RuleMetric,
+      tags,
+      threshold: raw.threshold as number,
+      window: raw.window as AchievementPeriod,
+      enabled: raw.enabled !== false,
+    },
+  }
+}
+
+// Whether changing before into after would change what the rule counts
+export function changesCriteria(before: RuleInput, after: RuleInput): boolean {
+  return before.metric !== after.metric
+    || before.window !== after.window
+    || before.tags.length !== after.tags.length
+    || before.tags.some((tag) => !after.tags.includes(tag))
+}
+
+export function matchesEvent(rule: AchievementRule, event: RuleEvent): boolean {
+  if (!rule.enabled || rule.metric !== event.metric || rule.communityId !== event.communityId) return false
+  if (!rule.tags.length) return true
+  return event.tags.some((tag) => rule.tags.includes(normalizeTag(tag)))
+}
+
+// The window the count at `at` belongs to: 'all-time' or a period key from
+// achievements.ts (UTC, weeks start Monday)
+export function windowKey(window: AchievementPeriod, at: Date): string {
+  return window === 'all-time' ? 'all-time' : periodKey(window, at)
+}
+
+export function isRuleMet(rule: RuleInput, count: number): boolean {
+  return rule.enabled && count >= rule.threshold
+}
+
+// users/{uid}.achievements[].achievementId of an unlocked rule
+export function ruleAchievementId(rule: Pick<AchievementRule, 'communityId' | 'id'>): string {
+  return `${rule.communityId}_${rule.id}`
+}
+
+const METRIC_VERBS: Record<RuleMetric, [string, string]> = {
+  posts: ['Create', 'post'],
+  comments: ['Leave', 'comment'],
+  votes: ['Cast', 'vote'],
+  reactions: ['Add', 'reaction'],
+}
+
+const WINDOW_PHRASES: Record<AchievementPeriod, string> = {
+  'all-time': '',
+  daily: ' in one day',
+  weekly: ' in one week',
+  monthly: ' in one month',
+}
+
+// "Create 10 posts tagged #marathon in one month"; the default description
+export function describeRule(rule: Pick<RuleInput, 'metric' | 'tags' | 'threshold' | 'window'>): string {
+  const [verb, noun] = METRIC_VERBS[rule.metric]
+  const what = `${rule.threshold.toLocaleString()} ${noun}${rule.threshold === 1 ? '' : 's'}`
+  const on = rule.metric === 'posts' ? '' : ' on posts'
+  const tagged = rule.tags.length ? `${on} tagged ${rule.tags.map((t) => `#${t}`).join(' or ')}` : ''
+  return `${verb} ${what}${tagged}${WINDOW_PHRASES[rule.window]}`
+}
@@ -0,0 +1,267 @@
+// Achievements: the catalog, and the pure checks the realtime server runs
+// after every post, comment, vote, reaction and follow it writes (see
+// server/achievements.ts). The web app only displays them.
+//
+// All-time criteria read the counters on the user document; criteria with a
+// period read the user's activity counters for the current day, week or
+// month (users/{uid}/activity/{periodKey}). Periods are UTC; weeks start on
+// Monday.
+
+export type AchievementMetric = 'posts' | 'comments' | 'votes' | 'reactions' | 'communities' | 'followers' | 'days' | 'special'
+export type AchievementPeriod = 'daily' | 'weekly' | 'monthly' | 'all-time'
+export type WindowPeriod = Exclude<AchievementPeriod, 'all-time'>
+
+export const WINDOW_PERIODS: readonly WindowPeriod[] = ['daily', 'weekly', 'monthly']
+
+export interface AchievementCriteria {
+  type: AchievementMetric
+  threshold: number
+  period?: AchievementPeriod
+}
+
+export interface AchievementDefinition {
+  // Stored in users/{uid}.achievements[].achievementId; existing unlocks use
+  // the name, so ids keep matching it
+  id: string
+  name: string
+  description: string
+  icon: string
+  category: 'engagement' | 'community' | 'content' | 'social' | 'special'
+  criteria: AchievementCriteria
+  points: number
+  rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary'
+}
+
+export const ACHIEVEMENTS: readonly AchievementDefinition[] = [
+  // Engagement Achievements
+  {
+    id: 'First Steps',
+    name: 'First Steps',
+    description: 'Create your first post',
+    icon: '👶',
+    category: 'engagement',
+    criteria: { type: 'posts', threshold: 1 },
+    points: 10,
+    rarity: 'common',
+  },
+  {
+    id: 'Conversationalist',
+    name: 'Conversationalist',
+    description: 'Leave 10 comments',
+    icon: '💬',
+    category: 'engagement',
+    criteria: { type: 'comments', threshold: 10 },
+    points: 25,
+    rarity: 'common',
+  },
+  {
+    id: 'Active Contributor',
+    name: 'Active Contributor',
+    description: 'Create 25 posts',
+    icon: '✍️',
+    category: 'content',
+    criteria: { type: 'posts', threshold: 25 },
+    points: 100,
+    rarity: 'uncommon',
+  },
+  {
+    id: 'Content Creator',
+    name: 'Content Creator',
+    description: 'Create 100 posts',
+    icon: '🎨',
+    category: 'content',
+    criteria: { type: 'posts', threshold: 100 },
+    points: 500,
+    rarity: 'rare',
+  },
+  {
+    id: 'Community Builder',
+    name: 'Community Builder',
+    description: 'Join 5 communities',
+    icon: '🏗️',
+    category: 'community',
+    criteria: { type: 'communities', threshold: 5 },
+    points: 50,
+    rarity: 'common',
+  },
+  {
+    id: 'Social Butterfly',
+    name: 'Social Butterfly',
+    description: 'React to posts and comments 100 times',
+    icon: '🦋',
+    category: 'social',
+    criteria: { type: 'reactions', threshold: 100 },
+    points: 150,
+    rarity: 'uncommon',
+  },
+  {
+    id: 'Voter',
+    name: 'Voter',
+    description: 'Cast 50 votes',
+    icon: '🗳️',
+    category: 'engagement',
+    criteria: { type: 'votes', threshold: 50 },
+    points: 75,
+    rarity: 'common',
+  },
+  {
+    id: 'Democracy Enthusiast',
+    name: 'Democracy Enthusiast',
+    description: 'Cast 500 votes',
+    icon: '🏛️',
+    category: 'engagement',
+    criteria: { type: 'votes', threshold: 500 },
+    points: 300,
+    rarity: 'rare',
+  },
+  {
+    id: 'Weekly Warrior',
+    name: 'Weekly Warrior',
+    description: 'Be active for 7 consecutive days',
+    icon: '⚡',
+    category: 'engagement',
+    criteria: { type: 'days', threshold: 7 },
+    points: 200,
+    rarity: 'uncommon',
+  },
+  {
+    id: 'Dedication Legend',
+    name: 'Dedication Legend',
+    description: 'Be active for 30 consecutive days',
+    icon: '🏆',
+    category: 'engagement',
+    criteria: { type: 'days', threshold: 30 },
+    points: 1000,
+    rarity: 'epic',
+  },
+  {
+    id: 'Community Explorer',
+    name: 'Community Explorer',
+    description: 'Join 20 different communities',
+    icon: '🌍',
+    category: 'community',
+    criteria: { type: 'communities', threshold: 20 },
+    points: 400,
+    rarity: 'rare',
+  },
+  {
+    id: 'Master Contributor',
+    name: 'Master Contributor',
+    description: 'Create 500 posts',
+    icon: '👑',
+    category: 'content',
+    criteria: { type: 'posts', threshold: 500 },
+    points: 2000,
+    rarity: 'legendary',
+  },
+  {
+    id: 'Busy Day',
+    name: 'Busy Day',
+    description: 'Leave 20 comments in one day',
+    icon: '☕',
+    category: 'engagement',
+    criteria: { type: 'comments', threshold: 20, period: 'daily' },
+    points: 50,
+    rarity: 'uncommon',
+  },
+  {
+    id: 'Weekly Curator',
+    name: 'Weekly Curator',
+    description: 'Cast 100 votes in one week',
+    icon: '🧭',
+    category: 'engagement',
+    criteria: { type: 'votes', threshold: 100, period: 'weekly' },
+    points: 100,
+    rarity: 'uncommon',
+  },
+  {
+    id: 'Monthly Regular',
+    name: 'Monthly Regular',
+    description: 'Create 30 posts in one month',
+    icon: '📅',
+    category: 'content',
+    criteria: { type: 'posts', threshold: 30, period: 'monthly' },
+    points: 300,
+    rarity: 'rare',
+  },
+]
+
+// What one period's counters hold; also what a write adds to them
+export interface ActivityCounts {
+  posts: number
+  comments: number
+  votes: number
+  reactions: number
+  follows: number
+}
+
+export type ActivityMetric = keyof ActivityCounts
+
+// The user document's counters, as the server keeps them
+export interface AchievementStats {
+  totalPosts: number
+  totalComments: number
+  totalVotes: number
+  totalReactions: number
+  communitiesJoined: number
+  currentStreak: number
+}
+
+export interface AchievementInput {
+  stats: AchievementStats
+  periods: Partial<Record<WindowPeriod, Partial<ActivityCounts>>>
+}
+
+// Start of the UTC day, week or month that contains at
+export function periodStart(period: WindowPeriod, at: Date): Date {
+  const day = Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate())
+  if (period === 'daily') return new Date(day)
+  if (period === 'weekly') return new Date(day - ((at.getUTCDay() + 6) % 7) * 86_400_000)
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1))
+}
+
+// Document id of the period's counters, e.g. 'daily-2026-10-19',
+// 'weekly-2026-10-19' (the Monday), 'monthly-2026-10'
+export function periodKey(period: WindowPeriod, at: Date): string {
+  const start = periodStart(period, at).toISOString()
+  return `${period}-${period === 'monthly' ? start.slice(0, 7) : start.slice(0, 10)}`
+}
+
+const ALL_TIME: Partial<Record<AchievementMetric, keyof AchievementStats>> = {
+  posts: 'totalPosts',
+  comments: 'totalComments',
+  votes: 'totalVotes',
+  reactions: 'totalReactions',
+  communities: 'communitiesJoined',
+  days: 'currentStreak',
+}
+
+const IN_PERIOD: Partial<Record<AchievementMetric, ActivityMetric>> = {
+  posts: 'posts',
+  comments: 'comments',
+  votes: 'votes',
+  reactions: 'reactions',
+  communities: 'follows',
+}
+
+// The value a criterion is measured against. 'followers' has no data behind
+// it yet and 'special' achievements are granted by hand, so both stay at 0.
+export function metricValue(input: AchievementInput, criteria: AchievementCriteria): number {
+  const period = criteria.period ?? 'all-time'
+  if (period === 'all-time') {
+    const field = ALL_TIME[criteria.type]
+    return field ? input.stats[field] : 0
+  }
+  const field = IN_PERIOD[criteria.type]
+  return field ? input.periods[period]?.[field] ?? 0 : 0
+}
+
+export function meetsCriteria(input: AchievementInput, criteria: AchievementCriteria): boolean {
+  return criteria.threshold > 0 && metricValue(input, criteria) >= criteria.threshold
+}
+
+// Percent of the way to the threshold, 0-100
+export function achievementProgress(input: AchievementInput, criteria: AchievementCriteria): number {
+  if (criteria.threshold <= 0) return 0
+  return Math.min((metricValue(input, criteria) / criteria.threshold) * 100, 100)
+}
@@ -0,0 +1,92 @@
+// Groups near-duplicate free-text answers to open-ended polls. Pure: no
+// Firestore, no React.
+//
+// Answers are compared on their normalized text: case, accents, punctuation
+// and a few filler words ("the", "a", ...) are ignored, and a trailing plural
+// "s" is dropped from each word. Two answers are similar when the Jaccard
+// index of their word sets reaches the threshold; an answer joins the cluster
+// holding its most similar earlier answer.
+
+export interface AnswerInput {
+  id: string
+  text: string
+}
+
+export interface AnswerCluster {
+  // Normalized text of the label, stable while the label does not change
+  key: string
+  // The most common wording in the cluster, as first written
+  label: string
+  count: number
+  answerIds: string[]
+}
+
+export const DEFAULT_SIMILARITY = 0.6
+
+const FILLER = new Set(['a', 'an', 'the', 'and', 'of', 'by', 'to', 'i', 'we', 'my', 'our'])
+
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+function tokens(normalized: string): Set<string> {
+  const words = normalized.split(' ').filter(Boolean)
+  const kept = words.filter((w) => !FILLER.has(w))
+  // An answer made only of filler words still needs something to compare
+  return new Set((kept.length > 0 ? kept : words).map((w) => (w.length > 3 && w.endsWith('s') ? w.slice(0, -1) : w)))
+}
+
+export function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1
+  let shared = 0
+  for (const t of a) if (b.has(t)) shared += 1
+  return shared / (a.size + b.size - shared)
+}
+
+export function clusterAnswers(answers: readonly AnswerInput[], threshold = DEFAULT_SIMILARITY): AnswerCluster[] {
+  const groups: { members: { id: string; text: string; normalized: string; tokens: Set<string> }[] }[] = []
+
+  for (const answer of answers) {
+    const normalized = normalizeAnswer(answer.text)
+    if (!normalized) continue
+    const member = { id: answer.id, text: answer.text.trim(), normalized, tokens: tokens(normalized) }
+
+    let best: (typeof groups)[number] | null = null
+    let bestScore = threshold
+    for (const group of groups) {
+      for (const other of group.members) {
+        const score = other.normalized === normalized ? 1 : similarity(member.tokens, other.tokens)
+        if (score > bestScore || (!best && score === threshold)) {
+          best = group
+          bestScore = score
+        }
+      }
+    }
+
+    if (best) best.members.push(member)
+    else groups.push({ members: [member] })
+  }
+
+  const clusters = groups.map(({ members }) => {
+    const wordings = new Map<string, { text: string; count: number }>()
+    for (const m of members) {
+      const seen = wordings.get(m.normalized)
+      if (seen) seen.count += 1
+      else wordings.set(m.normalized, { text: m.text, count: 1 })
+    }
+    // Map order is first-seen order, so ties go to the earliest wording
+    let key = members[0].normalized
+    for (const [normalized, w] of wordings) {
+      if (w.count > wordings.get(key)!.count) key = normalized
+    }
+    return { key, label: wordings.get(key)!.text, count: members.length, answerIds: members.map((m) => m.id) }
+  })
+
+  // Stable sort: equal counts keep the order their first answer came in
+  return clusters.sort((a, b) => b.count - a.count)
+}
@@ -0,0 +1,95 @@
+// Instant-runoff tally for ranked-choice polls. Pure: no Firestore, no React.
+//
+// Each round counts every ballot for its highest-ranked option still in the
+// running. An option with more than half of those ballots wins; otherwise the
+// option with the fewest is eliminated and its ballots move on to their next
+// choice. Ballots with no continuing choices left are exhausted and stop
+// counting towards the majority.
+//
+// Options nobody currently ranks are dropped together. Otherwise one option
+// goes per round: a tie for last is broken by the most recent earlier round
+// that separates the tied options, then by listing the later option first.
+
+export interface RunoffRound {
+  // Ballots counted for each option still in the running
+  counts: Record<string, number>
+  // Ballots with no continuing choice left
+  exhausted: number
+  // Options knocked out at the end of this round (empty in the final round)
+  eliminated: string[]
+}
+
+export interface RunoffResult {
+  rounds: RunoffRound[]
+  // null when no ballots were cast or the final options tied exactly
+  winner: string | null
+  // Options still level when the tally could not separate them
+  tied: string[]
+  totalBallots: number
+}
+
+// Drops unknown options and repeats, keeping each option's first position.
+export function normalizeBallot(ranking: readonly string[], optionIds: readonly string[]): string[] {
+  const known = new Set(optionIds)
+  const seen = new Set<string>()
+  const out: string[] = []
+  for (const id of ranking) {
+    if (!known.has(id) || seen.has(id)) continue
+    seen.add(id)
+    out.push(id)
+  }
+  return out
+}
+
+// Lowest-count options among those still running, narrowed by earlier
+// rounds; options level in every round are returned together.
+function lowest(continuing: string[], rounds: RunoffRound[]): string[] {
+  let candidates = continuing
+  for (let r = rounds.length - 1; r >= 0 && candidates.length > 1; r--) {
+    const counts = rounds[r].counts
+    const min = Math.min(...candidates.map((id) => counts[id] ?? 0))
+    candidates = candidates.filter((id) => (counts[id] ?? 0) === min)
+  }
+  return candidates
+}
+
+export function tallyInstantRunoff(optionIds: readonly string[], rankings: readonly (readonly string[])[]): RunoffResult {
+  const ballots = rankings.map((ranking) => normalizeBallot(ranking, optionIds)).filter((b) => b.length > 0)
+  const rounds: RunoffRound[] = []
+  let continuing = [...optionIds]
+
+  if (ballots.length === 0 || continuing.length === 0) {
+    return { rounds, winner: null, tied: [], totalBallots: ballots.length }
+  }
+
+  for (;;) {
+    const running = new Set(continuing)
+    const counts: Record<string, number> = Object.fromEntries(continuing.map((id) => [id, 0]))
+    let exhausted = 0
+    for (const ballot of ballots) {
+      const choice = ballot.find((id) => running.has(id))
+      if (choice === undefined) exhausted += 1
+      else counts[choice] += 1
+    }
+    const round: RunoffRound = { counts, exhausted, eliminated: [] }
+    rounds.push(round)
+
+    const active = ballots.length - exhausted
+    const leader = continuing.reduce((best, id) => (counts[id] > counts[best] ? id : best), continuing[0])
+    if (counts[leader] * 2 > active || continuing.length === 1) {
+      return { rounds, winner: leader, tied: [], totalBallots: ballots.length }
+    }
+
+    let out = continuing.filter((id) => counts[id] === 0)
+    if (out.length === 0 || out.length === continuing.length) {
+      const last = lowest(continuing, rounds)
+      if (last.length === continuing.length) {
+        // Everyone left is level in every round: no winner
+        return { rounds, winner: null, tied: last, totalBallots: ballots.length }
+      }
+      out = [last[last.length - 1]]
+    }
+    round.eliminated = out
+    continuing = continuing.filter((id) => !out.includes(id))
+  }
+}
@@ -0,0 +1,82 @@
+// Leaderboards per period and community, materialized by the realtime server
+// as it writes (server/leaderboards.ts) so the web app can rank with one
+// ordered query.
+//
+//   leaderboards/{boardId}/entries/{uid}
+//     { uid, communityId, period, periodKey, points, posts, comments, votes, achievements, updatedAt }
+//
+// boardId is '{scope}_{periodKey}': scope is 'global' or 'c-{communityId}',
+// periodKey is a day, week or month key from achievements.ts (UTC, weeks
+// start Monday) or 'all-time'. A new period gets a new board, so counts start
+// from zero at every rollover while past boards stay readable. A community's
+// active season has a board of its own as well (see seasons.ts).
+//
+// The global all-time ranking is the users collection itself (points,
+// stats.*, achievementsCount), which predates these boards; every other
+// board counts from when boards were introduced. Boards have no document of their own.
+
+import { periodKey, WINDOW_PERIODS, type AchievementPeriod } from './achievements'
+import { isInSeason, seasonBoardId } from './seasons'
+
+export type LeaderboardPeriod = AchievementPeriod
+
+export interface ScoreCounts {
+  // Earned: upvotes received and achievements unlocked
+  points: number
+  posts: number
+  comments: number
+  votes: number
+  achievements: number
+}
+
+export type ScoreMetric = keyof ScoreCounts
+
+export const SCORE_METRICS: readonly ScoreMetric[] = ['points', 'posts', 'comments', 'votes', 'achievements']
+
+export interface LeaderboardEntry extends ScoreCounts {
+  uid: string
+}
+
+export interface Board {
+  id: string
+  communityId: string | null
+  period: LeaderboardPeriod | 'season'
+  periodKey: string
+}
+
+// The parts of a community's active season its scoring needs
+export interface SeasonWindow {
+  id: string
+  startsAt: Date
+  endsAt: Date
+}
+
+export function boardScope(communityId?: string | null): string {
+  return communityId ? `c-${communityId}` : 'global'
+}
+
+export function boardPeriodKey(period: LeaderboardPeriod, at: Date): string {
+  return period === 'all-time' ? 'all-time' : periodKey(period, at)
+}
+
+export function boardId(communityId: string | null | undefined, period: LeaderboardPeriod, at: Date): string {
+  return `${boardScope(communityId)}_${boardPeriodKey(period, at)}`
+}
+
+// The boards a write at `at` counts towards: the global day, week and month,
+// and the same plus all-time for the community when there is one, plus the
+// community's season while `at` is in it
+export function boardsFor(communityId: string | null | undefined, at: Date, season?: SeasonWindow | null): Board[] {
+  const scopes: (string | null)[] = communityId ? [null, communityId] : [null]
+  const boards: Board[] = []
+  for (const scope of scopes) {
+    const periods: LeaderboardPeriod[] = scope ? [...WINDOW_PERIODS, 'all-time'] : [...WINDOW_PERIODS]
+    for (const period of periods) {
+      boards.push({ id: boardId(scope, period, at), communityId: scope, period, periodKey: boardPeriodKey(period, at) })
+    }
+  }
+  if (communityId && season && isInSeason(season, at)) {
+    boards.push({ id: seasonBoardId(communityId, season.id), communityId, period: 'season', periodKey: `season-${season.id}` })
+  }
+  return boards
+}
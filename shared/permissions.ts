@@ -0,0 +1,85 @@
+// One permission model for the web client, the realtime server and (mirrored
+// by hand) firestore.rules.
+//
+// Global roles are Firebase custom claims: { role: 'admin' | 'moderator' },
+// set with `npm run role` in server/. A global admin may do anything; a
+// global moderator moderates every community.
+//
+// Community roles live in communities/{communityId}/members/{uid} as
+// { uid, role }. A user without a members doc is a plain member.
+
+export type GlobalRole = 'admin' | 'moderator'
+export type CommunityRole = 'member' | 'moderator' | 'admin'
+
+export const GLOBAL_ROLES: readonly GlobalRole[] = ['admin', 'moderator']
+export const COMMUNITY_ROLES: readonly CommunityRole[] = ['member', 'moderator', 'admin']
+
+export interface MemberDoc {
+  uid: string
+  role: CommunityRole
+}
+
+export type Action =
+  // Edit or delete the community itself
+  | 'community:manage'
+  // Change other members' community roles
+  | 'members:manage'
+  // Warn or suspend members
+  | 'members:discipline'
+  // Pin and lock posts, review reports, use the moderation tools, enter
+  // private communities
+  | 'content:moderate'
+  | 'content:edit'
+  | 'content:delete'
+  // Clear every reaction of one emoji
+  | 'reaction:remove'
+
+export interface Actor {
+  uid: string
+  role?: GlobalRole | null
+  // Roles in the communities the caller has loaded; missing means 'member'
+  communityRoles?: Record<string, CommunityRole | undefined>
+}
+
+export interface Resource {
+  communityId?: string
+  authorId?: string
+}
+
+export const ROLE_RANK: Record<CommunityRole, number> = { member: 0, moderator: 1, admin: 2 }
+
+// The community role an action needs, and whether the resource's author may
+// also perform it. A null role means only the author may.
+const RULES: Record<Action, { role: CommunityRole | null; author: boolean }> = {
+  'community:manage': { role: 'admin', author: false },
+  'members:manage': { role: 'admin', author: false },
+  'members:discipline': { role: 'moderator', author: false },
+  'content:moderate': { role: 'moderator', author: false },
+  'content:edit': { role: null, author: true },
+  'content:delete': { role: 'moderator', author: true },
+  'reaction:remove': { role: 'moderator', author: true },
+}
+
+export function isGlobalRole(value: unknown): value is GlobalRole {
+  return GLOBAL_ROLES.includes(value as GlobalRole)
+}
+
+export function isCommunityRole(value: unknown): value is CommunityRole {
+  return COMMUNITY_ROLES.includes(value as CommunityRole)
+}
+
+// The effective role of actor in a community, global roles included
+export function roleIn(actor: Actor, communityId: string | undefined): CommunityRole {
+  if (actor.role === 'admin') return 'admin'
+  const local = (communityId && actor.communityRoles?.[communityId]) || 'member'
+  if (actor.role === 'moderator' && ROLE_RANK[local] < ROLE_RANK.moderator) return 'moderator'
+  return local
+}
+
+export function can(actor: Actor | null | undefined, action: Action, resource: Resource = {}): boolean {
+  if (!actor) return false
+  const rule = RULES[action]
+  if (rule.author && resource.authorId && resource.authorId === actor.uid) return true
+  if (!rule.role) return false
+  return ROLE_RANK[roleIn(actor, resource.communityId)] >= ROLE_RANK[rule.role]
+}
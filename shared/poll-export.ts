@@ -0,0 +1,118 @@
+// Poll results as they leave the app: the public results the embed route
+// shows and the CSV/JSON export organizers download. Served by the realtime
+// server (server/poll-routes.ts). Pure: no Firestore, no React.
+
+import type { FinalResults } from './poll-results'
+
+export type ExportFormat = 'csv' | 'json'
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['csv', 'json']
+
+// Timestamps are ISO strings, null when the poll has none
+export interface PollSummary {
+  id: string
+  title: string
+  description: string | null
+  type: 'single' | 'multiple' | 'ranked' | 'open-ended'
+  status: 'draft' | 'active' | 'paused' | 'ended'
+  communityId: string | null
+  isAnonymous: boolean
+  totalVotes: number
+  createdAt: string | null
+  startsAt: string | null
+  endsAt: string | null
+  endedAt: string | null
+}
+
+export interface ResultOption {
+  id: string
+  text: string
+  votes: number
+  // Of the poll's voters, one decimal; a multiple-choice poll can pass 100 in total
+  percentage: number
+}
+
+// GET /polls/:pollId/results, readable without signing in
+export interface PublicPollResults {
+  poll: PollSummary
+  options: { id: string; text: string }[]
+  // null while the poll's showResults setting keeps them hidden
+  results: FinalResults | null
+  // Whether results are the frozen finalResults rather than a live tally
+  final: boolean
+}
+
+// One voter of a poll that is not anonymous
+export interface VoterRow {
+  uid: string
+  displayName: string | null
+  votedAt: string | null
+  // Option texts; ranked ballots in order of preference
+  choices: string[]
+  // Open-ended polls
+  response?: string
+  status?: 'approved' | 'pending'
+}
+
+// GET /polls/:pollId/export?format=json
+export interface PollExport {
+  poll: PollSummary & { exportedAt: string }
+  options: ResultOption[]
+  results: FinalResults
+  // Left out entirely for anonymous polls
+  voters?: VoterRow[]
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat)
+}
+
+// Options with their counts from results; first preferences for ranked polls
+export function resultOptions(options: readonly { id: string; text: string }[], results: FinalResults): ResultOption[] {
+  return options.map(({ id, text }) => {
+    const votes = results.counts[id] ?? 0
+    const percentage = results.totalVotes > 0 ? Math.round((votes / results.totalVotes) * 1000) / 10 : 0
+    return { id, text, votes, percentage }
+  })
+}
+
+// Quotes what needs quoting, and defuses cells a spreadsheet would run as a
+// formula: voter names and answers are user input.
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  let text = String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function csvRows(rows: (string | number | null | undefined)[][]): string[] {
+  return rows.map((row) => row.map(csvCell).join(','))
+}
+
+// Up to three tables separated by a blank line: the poll, its options, and
+// its voters when the poll is not anonymous.
+export function toCsv(data: PollExport): string {
+  const { poll } = data
+  const lines = [
+    ...csvRows([
+      ['poll_id', 'title', 'type', 'status', 'anonymous', 'total_votes', 'winner', 'created_at', 'starts_at', 'ends_at', 'ended_at', 'exported_at'],
+      [
+        poll.id, poll.title, poll.type, poll.status, String(poll.isAnonymous), poll.totalVotes,
+        data.options.find((o) => o.id === data.results.winner)?.text ?? '',
+        poll.createdAt, poll.startsAt, poll.endsAt, poll.endedAt, poll.exportedAt,
+      ],
+    ]),
+    '',
+    ...csvRows([
+      ['option_id', 'option', 'votes', 'percentage'],
+      ...data.options.map((o) => [o.id, o.text, o.votes, o.percentage]),
+    ]),
+  ]
+  if (data.voters) {
+    const separator = poll.type === 'ranked' ? ' > ' : '; '
+    lines.push('', ...csvRows([
+      ['voter_id', 'display_name', 'voted_at', 'choices', 'response', 'status'],
+      ...data.voters.map((v) => [v.uid, v.displayName, v.votedAt, v.choices.join(separator), v.response, v.status]),
+    ]))
+  }
+  return lines.join('\r\n') + '\r\n'
+}
@@ -0,0 +1,69 @@
+// Final results of a closed poll, frozen onto polls/{id}.finalResults by the
+// server's poll scheduler. Pure: no Firestore, no React.
+//
+// Single and multiple choice polls count their options. Ranked polls keep
+// every instant-runoff round; open-ended polls keep their largest answer
+// clusters alongside any answers promoted to options.
+
+import { clusterAnswers, type AnswerInput } from './answer-clusters'
+import { tallyInstantRunoff, type RunoffRound } from './instant-runoff'
+
+export const FINAL_CLUSTER_LIMIT = 10
+
+export interface FinalCluster {
+  label: string
+  count: number
+}
+
+export interface FinalResults {
+  // Voters, as on the poll document
+  totalVotes: number
+  // Votes per option id; first-round counts for ranked polls
+  counts: Record<string, number>
+  // null when nobody voted or the leaders tied
+  winner: string | null
+  tied: string[]
+  rounds?: RunoffRound[]
+  clusters?: FinalCluster[]
+}
+
+export interface ClosingPoll {
+  type: 'single' | 'multiple' | 'ranked' | 'open-ended'
+  options: { id: string; votes: number }[]
+  totalVotes: number
+}
+
+function leaders(counts: Record<string, number>): Pick<FinalResults, 'winner' | 'tied'> {
+  const max = Math.max(0, ...Object.values(counts))
+  if (max === 0) return { winner: null, tied: [] }
+  const top = Object.keys(counts).filter((id) => counts[id] === max)
+  return top.length === 1 ? { winner: top[0], tied: [] } : { winner: null, tied: top }
+}
+
+// rankings are the ranked ballots, answers the approved open-ended answers
+// in the order they were given; each is ignored for other poll types.
+export function computeFinalResults(
+  poll: ClosingPoll,
+  rankings: readonly (readonly string[])[] = [],
+  answers: readonly AnswerInput[] = [],
+): FinalResults {
+  if (poll.type === 'ranked') {
+    const tally = tallyInstantRunoff(poll.options.map((o) => o.id), rankings)
+    return {
+      totalVotes: poll.totalVotes,
+      counts: tally.rounds[0]?.counts ?? {},
+      winner: tally.winner,
+      tied: tally.tied,
+      rounds: tally.rounds,
+    }
+  }
+
+  const counts = Object.fromEntries(poll.options.map((o) => [o.id, o.votes]))
+  const results: FinalResults = { totalVotes: poll.totalVotes, counts, ...leaders(counts) }
+  if (poll.type === 'open-ended') {
+    results.clusters = clusterAnswers(answers)
+      .slice(0, FINAL_CLUSTER_LIMIT)
+      .map(({ label, count }) => ({ label, count }))
+  }
+  return results
+}
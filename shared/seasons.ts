@@ -0,0 +1,127 @@
+// Community leaderboard seasons. A community moderator starts one with a
+// name, an end and how many places to archive; until it ends, everything the
+// community's members score there (see leaderboards.ts) also counts on the
+// season's own board, 'c-{communityId}_season-{seasonId}'. When the season
+// ends, on time or early by a moderator's hand, the realtime server archives
+// the top places into the season document and awards each of them a badge
+// through the achievement system.
+//
+//   seasons/{seasonId}
+//     { communityId, name, status, startsAt, endsAt, topN, startedBy,
+//       endedAt, endedBy, standings, awarded }
+//
+// A community has at most one active season at a time. Only activity between
+// startsAt and endsAt counts.
+
+import type { ScoreCounts } from './leaderboards'
+
+export type SeasonStatus = 'active' | 'ended'
+
+export const MIN_SEASON_HOURS = 1
+export const MAX_SEASON_DAYS = 366
+export const MAX_SEASON_TOP_N = 25
+export const DEFAULT_SEASON_TOP_N = 10
+const MAX_NAME = 60
+const HOUR_MS = 3_600_000
+
+// What a moderator authors
+export interface SeasonInput {
+  name: string
+  // ISO date
+  endsAt: string
+  topN: number
+}
+
+// A place in the final standings. Users tied on points share a rank.
+export interface Standing extends ScoreCounts {
+  uid: string
+  rank: number
+}
+
+// A season as it goes over the wire: dates are ISO strings
+export interface Season {
+  id: string
+  communityId: string
+  name: string
+  status: SeasonStatus
+  startsAt: string
+  endsAt: string
+  topN: number
+  startedBy: string
+  endedAt: string | null
+  // Set once the season has ended
+  standings: Standing[] | null
+}
+
+export interface SeasonProblem {
+  field: keyof SeasonInput
+  message: string
+}
+
+export type SeasonValidation = { ok: true; season: SeasonInput } | { ok: false; problems: SeasonProblem[] }
+
+// Checks a season about to start at `now` and returns it trimmed
+export function validateSeason(input: unknown, now: Date): SeasonValidation {
+  const raw = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof SeasonInput, unknown>>
+  const problems: SeasonProblem[] = []
+  const problem = (field: keyof SeasonInput, message: string) => problems.push({ field, message })
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : ''
+  if (!name || name.length > MAX_NAME) problem('name', `Name must be 1-${MAX_NAME} characters`)
+
+  const endsAt = typeof raw.endsAt === 'string' ? new Date(raw.endsAt) : null
+  const length = endsAt ? endsAt.getTime() - now.getTime() : NaN
+  if (!(length >= MIN_SEASON_HOURS * HOUR_MS && length <= MAX_SEASON_DAYS * 24 * HOUR_MS)) {
+    problem('endsAt', `A season lasts from ${MIN_SEASON_HOURS} hour to ${MAX_SEASON_DAYS} days`)
+  }
+
+  const topN = raw.topN
+  if (typeof topN !== 'number' || !Number.isInteger(topN) || topN < 1 || topN > MAX_SEASON_TOP_N) {
+    problem('topN', `Archive from 1 to ${MAX_SEASON_TOP_N} places`)
+  }
+
+  if (problems.length) return { ok: false, problems }
+  return { ok: true, season: { name, endsAt: endsAt!.toISOString(), topN: topN as number } }
+}
+
+export function seasonBoardId(communityId: string, seasonId: string): string {
+  return `c-${communityId}_season-${seasonId}`
+}
+
+// Whether activity at `at` counts towards the season
+export function isInSeason(season: { startsAt: Date; endsAt: Date }, at: Date): boolean {
+  return at >= season.startsAt && at < season.endsAt
+}
+
+// The top entries by points, ranked. Entries must be sorted by points,
+// highest first; those without points place nowhere.
+export function rankStandings(entries: (Partial<ScoreCounts> & { uid: string })[], topN: number): Standing[] {
+  const standings: Standing[] = []
+  for (const entry of entries.slice(0, topN)) {
+    const points = entry.points ?? 0
+    if (points <= 0) break
+    const previous = standings[standings.length - 1]
+    standings.push({
+      uid: entry.uid,
+      rank: previous && previous.points === points ? previous.rank : standings.length + 1,
+      points,
+      posts: entry.posts ?? 0,
+      comments: entry.comments ?? 0,
+      votes: entry.votes ?? 0,
+      achievements: entry.achievements ?? 0,
+    })
+  }
+  return standings
+}
+
+export function seasonAchievementId(communityId: string, seasonId: string): string {
+  return `season_${communityId}_${seasonId}`
+}
+
+// The badge for finishing at rank
+export function seasonPrize(rank: number): { title: string; icon: string; points: number } {
+  if (rank === 1) return { title: 'Champion', icon: '🥇', points: 100 }
+  if (rank === 2) return { title: 'Runner-up', icon: '🥈', points: 75 }
+  if (rank === 3) return { title: 'Third place', icon: '🥉', points: 50 }
+  return { title: `Top ${rank <= 10 ? 10 : MAX_SEASON_TOP_N}`, icon: '🏅', points: 25 }
+}
@@ -0,0 +1,381 @@
+// Socket.io event contract shared by the realtime server (server/) and the web
+// client (web/src/lib/socket.ts). Both sides type their Server / Socket
+// instances with these maps, so renaming a field or dropping `communityId`
+// from a payload fails to compile on both ends instead of silently
+// broadcasting something the other side does not understand.
+// Types only: nothing here exists at runtime.
+
+import type { AchievementRule, RuleInput } from './achievement-rules'
+import type { Season, SeasonInput } from './seasons'
+import type { CaseDecision } from './vote-integrity'
+
+export type TargetType = 'post' | 'comment'
+export type VoteType = 'up' | 'down'
+export type MediaType = 'image' | 'gif' | 'video'
+
+// Codes carried in { ok: false, error } acks, room:error and event:error.
+// 'timeout', 'no-ack' and 'no-socket' are produced by the client itself when
+// no usable ack arrives.
+export type AckError =
+  | 'unauthenticated'
+  | 'invalid-payload'
+  | 'invalid-community'
+  | 'payload-too-large'
+  | 'unknown-event'
+  | 'rate_limited'
+  | 'not-found'
+  | 'forbidden'
+  | 'inactive'
+  | 'join-denied'
+  | 'locked'
+  | 'too-deep'
+  | 'not-joined'
+  | 'closed'
+  | 'already-voted'
+  | 'too-many-choices'
+  | 'server-error'
+  | 'timeout'
+  | 'no-ack'
+  | 'no-socket'
+
+// Every ack is { ok, error? } plus whatever the command returns on success.
+export type AckResult<T = object> = { ok: boolean; error?: AckError; retryAfterMs?: number } & Partial<T>
+export type Ack<T = object> = (res: AckResult<T>) => void
+
+// ---------------------------------------------------------------------------
+// Documents as broadcast: Firestore Timestamps are sent as ISO strings.
+
+export type ReactionMap = Record<string, { count: number; users: string[] }>
+
+export interface WireMedia {
+  url: string
+  type: MediaType
+  alt?: string
+}
+
+export interface WirePost {
+  id: string
+  communityId: string
+  authorId: string
+  title: string
+  content: string
+  media: WireMedia[]
+  tags: string[]
+  reactions: ReactionMap
+  voteScore: number
+  upvotes: string[]
+  downvotes: string[]
+  commentCount: number
+  isPinned: boolean
+  isLocked: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WireComment {
+  id: string
+  postId: string
+  communityId: string
+  parentId: string | null
+  authorId: string
+  content: string
+  media: WireMedia[]
+  reactions: ReactionMap
+  voteScore: number
+  upvotes: string[]
+  downvotes: string[]
+  replyCount: number
+  depth: number
+  isDeleted: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface VoteUpdate {
+  targetId: string
+  targetType: TargetType
+  communityId: string
+  voteType: VoteType | null
+  newScore: number
+  userId: string
+}
+
+export interface ReactionUpdate {
+  targetId: string
+  targetType: TargetType
+  communityId: string
+  emoji: string
+  action: 'add' | 'remove'
+  reactions: ReactionMap
+  userId: string
+}
+
+// A newly opened poll, as the server read it from polls/{id}
+export interface PollBroadcast {
+  id: string
+  communityId?: string
+  title: string
+  options: { id: string; text: string }[]
+}
+
+export interface PollVote {
+  pollId: string
+  optionId: string
+  // Stamped by the server from the authenticated socket; absent for
+  // anonymous polls
+  userId?: string
+  communityId?: string
+}
+
+export interface UserActivity {
+  communityId: string
+  type?: string
+  targetId?: string
+  [field: string]: unknown
+}
+
+export interface PostDeleted {
+  postId: string
+  communityId: string
+  by: string
+}
+
+export interface CommentDeleted {
+  commentId: string
+  communityId: string
+  by: string
+}
+
+export interface ReactionRemoved {
+  targetId: string
+  targetType: TargetType
+  emoji: string
+  communityId: string
+  by: string
+}
+
+export interface PresenceMember {
+  uid: string
+  displayName: string
+  photoURL: string | null
+  joinedAt: number
+  lastHeartbeat: number
+  // Number of open tabs/sockets for this user in the room
+  connections: number
+}
+
+export interface TypingStart {
+  postId: string
+  uid: string
+  displayName: string
+  expiresIn: number
+}
+
+export interface TypingStop {
+  postId: string
+  uid: string
+}
+
+export interface RoomError {
+  type: AckError
+  communityId: string
+}
+
+export interface EventError {
+  event: string
+  error: AckError
+  retryAfterMs?: number
+}
+
+// ---------------------------------------------------------------------------
+// Missed-event replay (server/replay.ts)
+
+export interface ReplayCursor {
+  epoch: string
+  seq: number
+}
+
+export interface ReplayMeta extends ReplayCursor {
+  room: string
+}
+
+// Room events that are sequenced and can be replayed after a reconnect.
+export type SequencedEvent =
+  | 'post:new'
+  | 'comment:new'
+  | 'vote:update'
+  | 'reaction:update'
+  | 'poll:new'
+  | 'poll:vote'
+  | 'post:deleted'
+  | 'comment:deleted'
+  | 'reaction:removed'
+
+export interface ReplayEntry {
+  event: SequencedEvent
+  payload: unknown
+  seq: number
+}
+
+export interface ReplayResult extends ReplayCursor {
+  events: ReplayEntry[]
+  resync: boolean
+}
+
+// ---------------------------------------------------------------------------
+// Command payloads
+
+export interface CreatePostPayload {
+  communityId: string
+  title: string
+  content: string
+  media?: WireMedia[]
+  tags?: string[]
+}
+
+export interface CreateCommentPayload {
+  postId: string
+  content: string
+  parentId?: string | null
+}
+
+// voteType is the desired final state; null clears the caller's vote
+export interface CastVotePayload {
+  targetId: string
+  targetType: TargetType
+  voteType: VoteType | null
+}
+
+export interface ToggleReactionPayload {
+  targetId: string
+  targetType: TargetType
+  emoji: string
+}
+
+// Single or multiple choice: the server records the picks and relays the
+// vote. Ranked ballots and open-ended answers are still written by the client.
+export interface CastPollVotePayload {
+  pollId: string
+  optionIds: string[]
+}
+
+// Names a poll the client just created; the server announces what is stored
+export interface NewPollPayload {
+  id: string
+}
+
+// A ranked ballot the client just cast, by its first choice. The server
+// checks it against the voter's ballot before relaying it.
+export interface PollVotePayload {
+  pollId: string
+  optionId: string
+}
+
+// follow is the desired final state
+export interface FollowPayload {
+  communityId: string
+  follow: boolean
+}
+
+// Community admins only. ruleId is absent when creating a rule.
+export interface SaveAchievementRulePayload {
+  communityId: string
+  ruleId?: string
+  rule: RuleInput
+}
+
+export interface DeleteAchievementRulePayload {
+  communityId: string
+  ruleId: string
+}
+
+export interface StartSeasonPayload {
+  communityId: string
+  season: SeasonInput
+}
+
+export interface EndSeasonPayload {
+  seasonId: string
+}
+
+export interface ResolveVoteCasePayload {
+  caseId: string
+  decision: CaseDecision
+}
+
+export interface ReplayRequest {
+  communityId: string
+  epoch: string
+  lastSeq: number
+}
+
+export interface TypingPayload {
+  postId: string
+}
+
+// ---------------------------------------------------------------------------
+// Event maps
+
+export interface ClientToServerEvents {
+  'room:join': (communityId: string, ack: Ack<{ replay: ReplayCursor }>) => void
+  'room:leave': (communityId: string) => void
+
+  'presence:heartbeat': () => void
+  'presence:get': (communityId: string, ack: Ack<{ members: PresenceMember[] }>) => void
+  'presence:counts': (communityIds: string[], ack: Ack<{ counts: Record<string, number> }>) => void
+
+  'post:create': (payload: CreatePostPayload, ack: Ack<{ post: WirePost }>) => void
+  'comment:create': (payload: CreateCommentPayload, ack: Ack<{ comment: WireComment }>) => void
+  'vote:cast': (payload: CastVotePayload, ack: Ack<{ voteType: VoteType | null; newScore: number }>) => void
+  'reaction:toggle': (payload: ToggleReactionPayload, ack: Ack<{ action: 'add' | 'remove'; reactions: ReactionMap }>) => void
+  'community:follow': (payload: FollowPayload, ack: Ack<{ following: boolean }>) => void
+  'achievementRule:save': (payload: SaveAchievementRulePayload, ack: Ack<{ rule: AchievementRule }>) => void
+  'achievementRule:delete': (payload: DeleteAchievementRulePayload, ack: Ack) => void
+  'season:start': (payload: StartSeasonPayload, ack: Ack<{ season: Season }>) => void
+  'season:end': (payload: EndSeasonPayload, ack: Ack<{ season: Season }>) => void
+  // restored: withheld points paid back to the author
+  'voteCase:resolve': (payload: ResolveVoteCasePayload, ack: Ack<{ restored: number }>) => void
+  'poll:cast': (payload: CastPollVotePayload, ack: Ack) => void
+
+  'poll:new': (payload: NewPollPayload) => void
+  'poll:vote': (vote: PollVotePayload) => void
+  'user:activity': (activity: UserActivity) => void
+
+  'post:watch': (postId: string, ack: Ack) => void
+  'post:unwatch': (postId: string) => void
+  'typing:start': (payload: TypingPayload) => void
+  'typing:stop': (payload: TypingPayload) => void
+
+  'replay:request': (request: ReplayRequest, ack: Ack<ReplayResult>) => void
+
+  'post:delete': (payload: { postId: string; communityId: string }, ack: Ack) => void
+  'comment:delete': (payload: { commentId: string; communityId: string }, ack: Ack) => void
+  'reaction:remove': (payload: { targetId: string; targetType: TargetType; emoji: string; communityId: string }, ack: Ack) => void
+}
+
+export interface ServerToClientEvents {
+  // Sequenced room events: the second argument is the replay position
+  'post:new': (post: WirePost, meta?: ReplayMeta) => void
+  'comment:new': (comment: WireComment, meta?: ReplayMeta) => void
+  'vote:update': (vote: VoteUpdate, meta?: ReplayMeta) => void
+  'reaction:update': (reaction: ReactionUpdate, meta?: ReplayMeta) => void
+  'poll:new': (poll: PollBroadcast, meta?: ReplayMeta) => void
+  'poll:vote': (vote: PollVote, meta?: ReplayMeta) => void
+  'post:deleted': (data: PostDeleted, meta?: ReplayMeta) => void
+  'comment:deleted': (data: CommentDeleted, meta?: ReplayMeta) => void
+  'reaction:removed': (data: ReactionRemoved, meta?: ReplayMeta) => void
+
+  'user:activity': (activity: UserActivity) => void
+  'room:error': (err: RoomError) => void
+  'event:error': (err: EventError) => void
+
+  'presence:snapshot': (data: { communityId: string; members: PresenceMember[] }) => void
+  'presence:join': (data: { communityId: string; member: PresenceMember }) => void
+  'presence:leave': (data: { communityId: string; uid: string }) => void
+
+  'typing:start': (data: TypingStart) => void
+  'typing:stop': (data: TypingStop) => void
+}
+
+// Payload type of a sequenced event
+export type SequencedPayload<E extends SequencedEvent> = Parameters<ServerToClientEvents[E]>[0]
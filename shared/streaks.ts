@@ -0,0 +1,124 @@
+// Activity streaks, counted in whole days of the user's own time zone
+// (users/{uid}.preferences.timezone, set in SettingsPage; UTC when unset).
+// A day counts when the user posted, commented or voted on it.
+//
+// Grace days: every GRACE_EARN_EVERY days of a streak bank one grace day, up
+// to MAX_GRACE_DAYS. A gap of missed days the bank can cover spends it and
+// keeps the streak going; the missed days themselves do not count. Anything
+// longer starts the streak over.
+//
+// The realtime server folds each new active day into the stored state
+// (recordDay) and can rebuild it from the user's history (computeStreak);
+// both give the same result for the same days.
+
+export const GRACE_EARN_EVERY = 7
+export const MAX_GRACE_DAYS = 2
+
+// Days are 'YYYY-MM-DD' in the user's time zone
+export interface StreakState {
+  current: number
+  longest: number
+  daysActive: number
+  lastActiveDay: string | null
+  graceDays: number
+}
+
+export const EMPTY_STREAK: StreakState = { current: 0, longest: 0, daysActive: 0, lastActiveDay: null, graceDays: 0 }
+
+const DAY_MS = 86_400_000
+
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function parts(at: Date, timeZone: string): Record<string, string> {
+  let format = formatters.get(timeZone)
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    })
+    formatters.set(timeZone, format)
+  }
+  return Object.fromEntries(format.formatToParts(at).map((p) => [p.type, p.value]))
+}
+
+// The calendar day at `at` in timeZone
+export function localDay(at: Date, timeZone: string): string {
+  const { year, month, day } = parts(at, timeZone)
+  return `${year}-${month}-${day}`
+}
+
+// The hour (0-23) at `at` in timeZone
+export function localHour(at: Date, timeZone: string): number {
+  return Number(parts(at, timeZone).hour)
+}
+
+function dayIndex(day: string): number {
+  return Math.round(Date.parse(`${day}T00:00:00Z`) / DAY_MS)
+}
+
+export function addDays(day: string, days: number): string {
+  return new Date((dayIndex(day) + days) * DAY_MS).toISOString().slice(0, 10)
+}
+
+// Folds one active day into the state. Days at or before the last active day
+// change nothing, so replays and a time zone moving backwards are harmless.
+export function recordDay(state: StreakState, day: string): StreakState {
+  const last = state.lastActiveDay
+  if (last && dayIndex(day) <= dayIndex(last)) return state
+
+  let { current, graceDays } = state
+  const missed = last ? dayIndex(day) - dayIndex(last) - 1 : 0
+  if (!last || state.current === 0 || missed > graceDays) {
+    current = 1
+    graceDays = 0
+  } else {
+    current += 1
+    graceDays -= missed
+  }
+  if (current % GRACE_EARN_EVERY === 0) graceDays = Math.min(graceDays + 1, MAX_GRACE_DAYS)
+
+  return {
+    current,
+    longest: Math.max(state.longest, current),
+    daysActive: state.daysActive + 1,
+    lastActiveDay: day,
+    graceDays,
+  }
+}
+
+// The state after exactly these active days, in any order, duplicates allowed
+export function computeStreak(days: Iterable<string>): StreakState {
+  return [...new Set(days)].sort().reduce(recordDay, EMPTY_STREAK)
+}
+
+// The last day on which activity keeps the streak alive; null without one
+export function streakDeadline(state: StreakState): string | null {
+  if (!state.lastActiveDay || state.current === 0) return null
+  return addDays(state.lastActiveDay, state.graceDays + 1)
+}
+
+// The state as of today: a streak whose deadline has passed is over
+export function settle(state: StreakState, today: string): StreakState {
+  const deadline = streakDeadline(state)
+  if (!deadline || dayIndex(today) <= dayIndex(deadline)) return state
+  return { ...state, current: 0, graceDays: 0 }
+}
+
+// Whether the streak ends tonight unless the user is active today
+export function isAtRisk(state: StreakState, today: string): boolean {
+  return streakDeadline(state) === today && state.lastActiveDay !== today
+}
@@ -0,0 +1,135 @@
+// Vote-ring detection. Every upvote that would earn its author points is
+// checked by the realtime server (server/vote-integrity.ts) against what
+// votes on that author look like:
+//
+//   reciprocal      the voter and the author keep upvoting each other
+//   new-account     accounts created days ago pile upvotes onto one author
+//   shared-network  several accounts upvote one author from the same network
+//
+// A flagged upvote still counts in the score, but its points are withheld
+// and the author's case in the community is opened for moderators, with the
+// evidence behind each flag. Dismissing the case pays the withheld points
+// out; confirming it keeps them withheld.
+//
+// Signals count votes cast since detection was introduced.
+
+import type { VoteType } from './socket-events'
+
+export type VoteSignal = 'reciprocal' | 'new-account' | 'shared-network'
+export type CaseStatus = 'open' | 'dismissed' | 'confirmed'
+export type CaseDecision = 'dismiss' | 'confirm'
+
+export const VOTE_SIGNALS: readonly VoteSignal[] = ['reciprocal', 'new-account', 'shared-network']
+
+// Upvotes each way within the window before a pair counts as reciprocal
+export const RECIPROCAL_MIN = 3
+export const RECIPROCAL_WINDOW_DAYS = 30
+// Accounts younger than this are new
+export const NEW_ACCOUNT_DAYS = 7
+// Upvotes from new accounts on one author within the window that make a burst
+export const BURST_MIN = 5
+export const BURST_WINDOW_MINUTES = 60
+// Accounts upvoting one author from one network within the window
+export const SHARED_NETWORK_MIN = 3
+export const SHARED_NETWORK_WINDOW_HOURS = 24
+
+// What the server knows about an upvote and the votes around it. Counts
+// include the upvote being assessed.
+export interface UpvoteFacts {
+  // Upvotes from the voter on the author, and back, within the reciprocal window
+  given: number
+  received: number
+  // null when the account's age is unknown
+  accountAgeHours: number | null
+  // Upvotes on the author from new accounts within the burst window
+  newAccountVotes: number
+  // Distinct accounts that upvoted the author from the voter's network within
+  // the window; empty when the network is unknown
+  networkAccounts: string[]
+}
+
+// Why an upvote was flagged, one entry per signal that fired
+export interface VoteEvidence {
+  reciprocal?: { given: number; received: number }
+  'new-account'?: { accountAgeHours: number; newAccountVotes: number }
+  'shared-network'?: { accounts: string[] }
+}
+
+export function assessUpvote(facts: UpvoteFacts): VoteEvidence {
+  const evidence: VoteEvidence = {}
+  if (facts.given >= RECIPROCAL_MIN && facts.received >= RECIPROCAL_MIN) {
+    evidence.reciprocal = { given: facts.given, received: facts.received }
+  }
+  if (facts.accountAgeHours !== null && facts.accountAgeHours < NEW_ACCOUNT_DAYS * 24 && facts.newAccountVotes >= BURST_MIN) {
+    evidence['new-account'] = { accountAgeHours: Math.floor(facts.accountAgeHours), newAccountVotes: facts.newAccountVotes }
+  }
+  if (facts.networkAccounts.length >= SHARED_NETWORK_MIN) {
+    evidence['shared-network'] = { accounts: facts.networkAccounts }
+  }
+  return evidence
+}
+
+export function signalsOf(evidence: VoteEvidence): VoteSignal[] {
+  return VOTE_SIGNALS.filter((signal) => evidence[signal] !== undefined)
+}
+
+// A vote changing from previous to voteType, as its author's points see it.
+// `points` is what an upvote on the target earns its author (0 on one's own
+// content) and `paid` what the previous upvote paid out, as recorded on it.
+export interface VoteChange {
+  previous: VoteType | null
+  voteType: VoteType | null
+  points: number
+  flagged: boolean
+  paid?: number
+}
+
+// awarded and withheld are recorded on the new upvote; the author gains
+// awarded - revoked
+export interface VotePoints {
+  awarded: number
+  withheld: number
+  revoked: number
+}
+
+// A flagged upvote earns nothing until its case is dismissed. Taking an
+// upvote back revokes what it is recorded to have paid, and nothing for a
+// vote without a record: the server can't tell it paid anything.
+export function votePoints(change: VoteChange): VotePoints {
+  const earned = change.voteType === 'up' ? change.points : 0
+  const withheld = change.flagged ? earned : 0
+  const revoked = change.previous === 'up' ? change.paid ?? 0 : 0
+  return { awarded: earned - withheld, withheld, revoked }
+}
+
+// What resolving a case pays for one of its flagged upvotes, given the vote
+// as it stands now (undefined once it is gone). Only dismissing pays, and
+// only for upvotes that still stand.
+export function releasedPoints(decision: CaseDecision, vote: { type?: unknown; pointsWithheld?: unknown } | undefined): number {
+  if (decision !== 'dismiss' || vote?.type !== 'up') return 0
+  return typeof vote.pointsWithheld === 'number' && vote.pointsWithheld > 0 ? vote.pointsWithheld : 0
+}
+
+export const SIGNAL_LABELS: Record<VoteSignal, string> = {
+  reciprocal: 'Reciprocal voting',
+  'new-account': 'Burst from new accounts',
+  'shared-network': 'Same network',
+}
+
+// The evidence as sentences for moderators
+export function describeEvidence(evidence: VoteEvidence): string[] {
+  const lines: string[] = []
+  const reciprocal = evidence.reciprocal
+  if (reciprocal) {
+    lines.push(`Voter gave ${reciprocal.given} upvotes to the author and got ${reciprocal.received} back in ${RECIPROCAL_WINDOW_DAYS} days`)
+  }
+  const burst = evidence['new-account']
+  if (burst) {
+    lines.push(`Voter's account is ${burst.accountAgeHours} hours old; ${burst.newAccountVotes} new accounts upvoted the author within ${BURST_WINDOW_MINUTES} minutes`)
+  }
+  const network = evidence['shared-network']
+  if (network) {
+    lines.push(`${network.accounts.length} accounts upvoted the author from the same network within ${SHARED_NETWORK_WINDOW_HOURS} hours`)
+  }
+  return lines
+}
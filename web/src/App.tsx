@@ -1,4 +1,4 @@
-import { Route, Routes } from 'react-router-dom'
+import { Route, Routes, useMatch } from 'react-router-dom'
 import { useEffect } from 'react'
 import { AuthProvider } from './features/auth/AuthProvider'
 import RequireAuth from './features/auth/RequireAuth'
@@ -15,11 +15,17 @@ import FeedPage from './features/feed/FeedPage'
 import AuthBanner from './components/AuthBanner'
 import RealTimeNotifications from './components/RealTimeNotifications'
 import { REALTIME_ANIMATION_STYLES } from './hooks/useRealTimeUpdates'
+import { useRateLimitToasts } from './hooks/useRateLimitToasts'
 import ModerationPanel from './features/admin/ModerationPanel'
 import SeederPage from './pages/SeederPage'
 import AuthTestPage from './pages/AuthTestPage'
+import EmbedPollPage from './pages/EmbedPollPage'
 
 export default function App() {
+  useRateLimitToasts();
+  // Embeds are shown in other sites' iframes, without the app around them
+  const embed = useMatch('/embed/poll/:pollId');
+
   useEffect(() => {
     // Add animation styles to document head
     const styleElement = document.createElement('style');
@@ -34,6 +40,16 @@ export default function App() {
     };
   }, []);
 
+  if (embed) {
+    return (
+      <ErrorBoundary>
+        <Routes>
+          <Route path="/embed/poll/:pollId" element={<EmbedPollPage />} />
+        </Routes>
+      </ErrorBoundary>
+    )
+  }
+
   return (
     <ErrorBoundary>
       <AuthProvider>
@@ -2,6 +2,9 @@ import { useState, useEffect } from 'react';
 import { collection, query, where, orderBy, limit, getDocs } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { Link } from 'react-router-dom';
+import { requestPresenceCounts } from '../lib/socket';
+
+const ONLINE_REFRESH_MS = 60_000;
 
 interface ActivityIndicatorsProps {
   className?: string;
@@ -33,6 +36,7 @@ export default function ActivityIndicators({ className = '' }: ActivityIndicator
   const [trendingTags, setTrendingTags] = useState<TrendingTag[]>([]);
   const [recentActivity, setRecentActivity] = useState<RecentActivity[]>([]);
   const [loading, setLoading] = useState(true);
+  const [onlineCounts, setOnlineCounts] = useState<Record<string, number>>({});
 
   useEffect(() => {
     const loadActivityData = async () => {
@@ -116,6 +120,20 @@ export default function ActivityIndicators({ className = '' }: ActivityIndicator
     loadActivityData();
   }, []);
 
+  // Live "online now" counts from the realtime server's presence tracking
+  useEffect(() => {
+    if (trendingCommunities.length === 0) return;
+    const ids = trendingCommunities.map(c => c.id);
+    const refresh = () => {
+      requestPresenceCounts(ids).then(res => {
+        if (res.ok && res.counts) setOnlineCounts(res.counts);
+      });
+    };
+    refresh();
+    const timer = setInterval(refresh, ONLINE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [trendingCommunities]);
+
   if (loading) {
     return (
       <div className={`bg-white rounded-lg border p-4 ${className}`}>
@@ -193,7 +211,12 @@ export default function ActivityIndicators({ className = '' }: ActivityIndicator
                       <p className="text-sm font-medium text-gray-900 group-hover:text-blue-600 transition-colors truncate">
                         {community.name}
                       </p>
-                      <p className="text-xs text-gray-500">{community.memberCount} members</p>
+                      <p className="text-xs text-gray-500">
+                        {community.memberCount} members
+                        {onlineCounts[community.id] !== undefined && (
+                          <span className="text-green-600"> · {onlineCounts[community.id]} online</span>
+                        )}
+                      </p>
                     </div>
                   </div>
                   <div className="flex items-center gap-1 text-xs">
@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../features/auth/AuthProvider';
-import { doc, getDoc, collection, query, where, limit, getDocs } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { db } from '../lib/firebase';
+import { fetchGlobalRole, hasCommunityStaffRole } from '../lib/permissions';
 import NotificationCenter from '../features/notifications/NotificationCenter';
 
 interface NavigationProps {
@@ -101,11 +102,12 @@ export default function Navigation({ className = '' }: NavigationProps) {
           setConnected(false);
         });
         
-        socket.on('reconnect_attempt', (attemptNumber) => {
+        // Reconnection is driven by the Manager, not the socket
+        socket.io.on('reconnect_attempt', (attemptNumber) => {
           console.log(`🔄 Reconnection attempt ${attemptNumber}`);
         });
         
-        socket.on('reconnect_failed', () => {
+        socket.io.on('reconnect_failed', () => {
           console.error('❌ Reconnection failed');
           setConnected(false);
         });
@@ -120,8 +122,8 @@ export default function Navigation({ className = '' }: NavigationProps) {
         // Cleanup function
         return () => {
           socket.off('connect_error');
-          socket.off('reconnect_attempt');
-          socket.off('reconnect_failed');
+          socket.io.off('reconnect_attempt');
+          socket.io.off('reconnect_failed');
         };
         
       } catch (error) {
@@ -133,7 +135,7 @@ export default function Navigation({ className = '' }: NavigationProps) {
     setupSocket();
   }, [user]); // Depend on user so it reconnects when auth state changes
 
-  // Determine if user is moderator/admin of any community to gate Moderation link
+  // Gate the Moderation link on a global role or a staff role in any community
   useEffect(() => {
     const checkRoles = async () => {
       try {
@@ -150,11 +152,7 @@ export default function Navigation({ className = '' }: NavigationProps) {
             }
           } catch {}
         }
-        const communities = collection(db, 'communities');
-        const qAdmins = query(communities, where('admins', 'array-contains', user.uid), limit(1));
-        const qMods = query(communities, where('moderators', 'array-contains', user.uid), limit(1));
-        const [aSnap, mSnap] = await Promise.all([getDocs(qAdmins), getDocs(qMods)]);
-        const can = !aSnap.empty || !mSnap.empty;
+        const can = Boolean(await fetchGlobalRole(user)) || (await hasCommunityStaffRole(user.uid));
         setCanModerate(can);
         sessionStorage.setItem(cacheKey, JSON.stringify({ canModerate: can, ts: Date.now() }));
       } catch {
@@ -162,7 +160,7 @@ export default function Navigation({ className = '' }: NavigationProps) {
       }
     };
     checkRoles();
-  }, [user?.uid]);
+  }, [user]);
 
   const mainNavItems = [
     { id: 'home', label: '🏠 Home', path: '/', description: 'Dashboard & recommendations' },
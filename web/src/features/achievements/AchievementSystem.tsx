@@ -1,29 +1,26 @@
-import { useState, useEffect, useMemo } from 'react';
-import { 
-  doc, 
-  getDoc, 
-  updateDoc, 
-  arrayUnion, 
-  increment, 
-  Timestamp 
-} from 'firebase/firestore';
+import { useState, useEffect, useRef } from 'react';
+import { doc, onSnapshot, Timestamp, type DocumentData } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import { useAuth } from '../auth/AuthProvider';
-import { createRecommendationEngine } from '../../services/RecommendationEngine';
-
-export interface Achievement {
-  id: string;
-  name: string;
-  description: string;
-  icon: string;
-  category: 'engagement' | 'community' | 'content' | 'social' | 'special';
-  criteria: {
-    type: 'posts' | 'comments' | 'votes' | 'reactions' | 'communities' | 'followers' | 'days' | 'special';
-    threshold: number;
-    period?: 'daily' | 'weekly' | 'monthly' | 'all-time';
-  };
-  points: number;
-  rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+import {
+  ACHIEVEMENTS,
+  WINDOW_PERIODS,
+  achievementProgress,
+  periodKey,
+  type AchievementDefinition,
+  type AchievementInput,
+  type ActivityCounts,
+  type WindowPeriod
+} from '../../../../shared/achievements';
+import { RULE_RARITIES } from '../../../../shared/achievement-rules';
+import { isTimeZone, localDay } from '../../../../shared/streaks';
+
+// Unlocks are decided and written by the realtime server after each post,
+// comment, vote, reaction and follow (server/achievements.ts); this only
+// shows them as they arrive. Achievements from community rules are not in the
+// catalog; their unlocks carry what is needed to show them.
+
+export interface Achievement extends AchievementDefinition {
   unlockedBy: string[]; // User IDs who unlocked this
   totalUnlocked: number;
 }
@@ -32,7 +29,7 @@ export interface UserAchievement {
   achievementId: string;
   unlockedAt: Timestamp;
   progress?: number;
-  metadata?: any;
+  metadata?: Record<string, unknown>;
 }
 
 export interface UserStats {
@@ -50,117 +47,7 @@ export interface UserStats {
   badges: string[];
 }
 
-const PREDEFINED_ACHIEVEMENTS: Omit<Achievement, 'id' | 'unlockedBy' | 'totalUnlocked'>[] = [
-  // Engagement Achievements
-  {
-    name: "First Steps",
-    description: "Create your first post",
-    icon: "👶",
-    category: "engagement",
-    criteria: { type: "posts", threshold: 1 },
-    points: 10,
-    rarity: "common"
-  },
-  {
-    name: "Conversationalist",
-    description: "Leave 10 comments",
-    icon: "💬",
-    category: "engagement", 
-    criteria: { type: "comments", threshold: 10 },
-    points: 25,
-    rarity: "common"
-  },
-  {
-    name: "Active Contributor",
-    description: "Create 25 posts",
-    icon: "✍️",
-    category: "content",
-    criteria: { type: "posts", threshold: 25 },
-    points: 100,
-    rarity: "uncommon"
-  },
-  {
-    name: "Content Creator",
-    description: "Create 100 posts",
-    icon: "🎨",
-    category: "content",
-    criteria: { type: "posts", threshold: 100 },
-    points: 500,
-    rarity: "rare"
-  },
-  {
-    name: "Community Builder",
-    description: "Join 5 communities",
-    icon: "🏗️",
-    category: "community",
-    criteria: { type: "communities", threshold: 5 },
-    points: 50,
-    rarity: "common"
-  },
-  {
-    name: "Social Butterfly",
-    description: "Get 100 reactions on your content",
-    icon: "🦋",
-    category: "social",
-    criteria: { type: "reactions", threshold: 100 },
-    points: 150,
-    rarity: "uncommon"
-  },
-  {
-    name: "Voter",
-    description: "Cast 50 votes",
-    icon: "🗳️",
-    category: "engagement",
-    criteria: { type: "votes", threshold: 50 },
-    points: 75,
-    rarity: "common"
-  },
-  {
-    name: "Democracy Enthusiast", 
-    description: "Cast 500 votes",
-    icon: "🏛️",
-    category: "engagement",
-    criteria: { type: "votes", threshold: 500 },
-    points: 300,
-    rarity: "rare"
-  },
-  {
-    name: "Weekly Warrior",
-    description: "Be active for 7 consecutive days",
-    icon: "⚡",
-    category: "engagement",
-    criteria: { type: "days", threshold: 7 },
-    points: 200,
-    rarity: "uncommon"
-  },
-  {
-    name: "Dedication Legend",
-    description: "Be active for 30 consecutive days",
-    icon: "🏆",
-    category: "engagement",
-    criteria: { type: "days", threshold: 30 },
-    points: 1000,
-    rarity: "epic"
-  },
-  {
-    name: "Community Explorer",
-    description: "Join 20 different communities",
-    icon: "🌍",
-    category: "community",
-    criteria: { type: "communities", threshold: 20 },
-    points: 400,
-    rarity: "rare"
-  },
-  {
-    name: "Master Contributor",
-    description: "Create 500 posts",
-    icon: "👑",
-    category: "content",
-    criteria: { type: "posts", threshold: 500 },
-    points: 2000,
-    rarity: "legendary"
-  }
-];
+type PeriodCounts = AchievementInput['periods'];
 
 interface AchievementSystemProps {
   userId?: string;
@@ -168,6 +55,56 @@ interface AchievementSystemProps {
   className?: string;
 }
 
+// The stored streak, unless its deadline has passed and the server has not
+// ended it yet (see server/streak-scheduler.ts)
+function liveStreak(userData: DocumentData): number {
+  const deadline = userData.streak?.deadline;
+  const timeZone = isTimeZone(userData.streak?.timeZone) ? userData.streak.timeZone : 'UTC';
+  if (typeof deadline === 'string' && localDay(new Date(), timeZone) > deadline) return 0;
+  return userData.currentStreak || 0;
+}
+
+function toUserStats(userData: DocumentData): UserStats {
+  const stats = userData.stats || {};
+  return {
+    totalPosts: stats.totalPosts || 0,
+    totalComments: stats.totalComments || 0,
+    totalVotes: stats.totalVotes || 0,
+    totalReactions: stats.totalReactions || 0,
+    communitiesJoined: userData.followedCommunities?.length || 0,
+    daysActive: userData.daysActive || 0,
+    currentStreak: liveStreak(userData),
+    longestStreak: userData.longestStreak || 0,
+    level: userData.level || 1,
+    totalPoints: userData.points || 0,
+    // Onboarding once wrote bare ids, which carry no unlock time
+    achievements: (userData.achievements || []).filter((ua: unknown) => typeof ua === 'object' && ua !== null),
+    badges: userData.badges || []
+  };
+}
+
+// A community rule's or season place's unlock as a catalog entry, or null for
+// catalog unlocks
+function ruleAchievement(ua: UserAchievement): AchievementDefinition | null {
+  const meta = ua.metadata;
+  if (!meta || (typeof meta.ruleId !== 'string' && typeof meta.seasonId !== 'string')) return null;
+  const rarity = RULE_RARITIES.find(r => r === meta.rarity) ?? 'common';
+  return {
+    id: ua.achievementId,
+    name: String(meta.name ?? 'Community achievement'),
+    description: String(meta.description ?? ''),
+    icon: String(meta.icon ?? '🏅'),
+    category: 'community',
+    criteria: { type: 'special', threshold: 1 },
+    points: typeof meta.points === 'number' ? meta.points : 0,
+    rarity
+  };
+}
+
+function communityAchievements(stats: UserStats): AchievementDefinition[] {
+  return stats.achievements.map(ruleAchievement).filter((a): a is AchievementDefinition => a !== null);
+}
+
 export default function AchievementSystem({ 
   userId, 
   showUserStats = true, 
@@ -175,127 +112,58 @@ export default function AchievementSystem({
 }: AchievementSystemProps) {
   const { user } = useAuth();
   const [userStats, setUserStats] = useState<UserStats | null>(null);
+  const [periods, setPeriods] = useState<PeriodCounts>({});
   const [loading, setLoading] = useState(true);
-  const [newAchievements, setNewAchievements] = useState<Achievement[]>([]);
+  const [newAchievements, setNewAchievements] = useState<AchievementDefinition[]>([]);
+  // Achievement ids seen in the first snapshot; later ones are announced
+  const known = useRef<Set<string> | null>(null);
 
   const targetUserId = userId || user?.uid;
   const isOwnProfile = !userId || userId === user?.uid;
 
-  const recommendationEngine = useMemo(() => 
-    user ? createRecommendationEngine(user.uid) : null, 
-    [user]
-  );
-
   useEffect(() => {
     if (!targetUserId || !db) return;
+    known.current = null;
 
-    const loadUserStats = async () => {
-      try {
-        const userDoc = await getDoc(doc(db, 'users', targetUserId));
-        if (userDoc.exists()) {
-          const userData = userDoc.data();
-          setUserStats({
-            totalPosts: userData.totalPosts || 0,
-            totalComments: userData.totalComments || 0,
-            totalVotes: userData.totalVotes || 0,
-            totalReactions: userData.totalReactions || 0,
-            communitiesJoined: userData.followedCommunities?.length || 0,
-            daysActive: userData.daysActive || 0,
-            currentStreak: userData.currentStreak || 0,
-            longestStreak: userData.longestStreak || 0,
-            level: userData.level || 1,
-            totalPoints: userData.points || 0,
-            achievements: userData.achievements || [],
-            badges: userData.badges || []
-          });
+    return onSnapshot(
+      doc(db, 'users', targetUserId),
+      (userDoc) => {
+        setLoading(false);
+        if (!userDoc.exists()) return;
+        const stats = toUserStats(userDoc.data());
+        setUserStats(stats);
+
+        const ids = new Set(stats.achievements.map(ua => ua.achievementId));
+        if (known.current && isOwnProfile) {
+          const fresh = [...ACHIEVEMENTS, ...communityAchievements(stats)]
+            .filter(a => ids.has(a.id) && !known.current!.has(a.id));
+          if (fresh.length > 0) {
+            setNewAchievements(fresh);
+            // Auto-hide after 5 seconds
+            setTimeout(() => setNewAchievements([]), 5000);
+          }
         }
-      } catch (error) {
+        known.current = ids;
+      },
+      (error) => {
         console.error('Error loading user stats:', error);
-      } finally {
         setLoading(false);
       }
-    };
-
-    loadUserStats();
-  }, [targetUserId]);
+    );
+  }, [targetUserId, isOwnProfile]);
 
+  // This day's, week's and month's counters, for progress on achievements with a period
   useEffect(() => {
-    if (!userStats || !isOwnProfile) return;
-
-    const checkAchievements = async () => {
-      const newlyUnlocked: Achievement[] = [];
-
-      for (const achievementTemplate of PREDEFINED_ACHIEVEMENTS) {
-        const hasAchievement = userStats.achievements.some(
-          ua => ua.achievementId === achievementTemplate.name
-        );
-
-        if (!hasAchievement && meetsAchievementCriteria(userStats, achievementTemplate)) {
-          const achievement: Achievement = {
-            ...achievementTemplate,
-            id: achievementTemplate.name,
-            unlockedBy: [],
-            totalUnlocked: 0
-          };
-
-          newlyUnlocked.push(achievement);
-
-          // Update user document
-          try {
-            await updateDoc(doc(db, 'users', user!.uid), {
-              achievements: arrayUnion({
-                achievementId: achievement.id,
-                unlockedAt: Timestamp.now(),
-                metadata: {}
-              }),
-              points: increment(achievement.points),
-              badges: arrayUnion(achievement.icon)
-            });
-
-            // Track achievement unlock for recommendations
-            if (recommendationEngine) {
-              recommendationEngine.trackEngagement(
-                'achievement' as any,
-                achievement.id,
-                'community',
-                { category: achievement.category }
-              );
-            }
-          } catch (error) {
-            console.error('Error unlocking achievement:', error);
-          }
-        }
-      }
-
-      if (newlyUnlocked.length > 0) {
-        setNewAchievements(newlyUnlocked);
-        // Auto-hide after 5 seconds
-        setTimeout(() => setNewAchievements([]), 5000);
-      }
-    };
-
-    checkAchievements();
-  }, [userStats, isOwnProfile, user, recommendationEngine]);
-
-  const meetsAchievementCriteria = (stats: UserStats, achievement: any): boolean => {
-    switch (achievement.criteria.type) {
-      case 'posts':
-        return stats.totalPosts >= achievement.criteria.threshold;
-      case 'comments':
-        return stats.totalComments >= achievement.criteria.threshold;
-      case 'votes':
-        return stats.totalVotes >= achievement.criteria.threshold;
-      case 'reactions':
-        return stats.totalReactions >= achievement.criteria.threshold;
-      case 'communities':
-        return stats.communitiesJoined >= achievement.criteria.threshold;
-      case 'days':
-        return stats.currentStreak >= achievement.criteria.threshold;
-      default:
-        return false;
-    }
-  };
-
+    if (!targetUserId || !db) return;
+    setPeriods({});
+    const now = new Date();
+    const unsubs = WINDOW_PERIODS.map((period: WindowPeriod) => onSnapshot(
+      doc(db, 'users', targetUserId, 'activity', periodKey(period, now)),
+      (snap) => setPeriods(prev => ({ ...prev, [period]: (snap.data() ?? {}) as Partial<ActivityCounts> })),
+      (error) => console.error('Error loading activity:', error)
+    ));
+    return () => unsubs.forEach(unsub => unsub());
+  }, [targetUserId]);
 
   const getProgressToNextLevel = (): { current: number; next: number; percentage: number } => {
     if (!userStats) return { current: 0, next: 100, percentage: 0 };
@@ -330,14 +198,20 @@ export default function AchievementSystem({
 
   if (!userStats) return null;
 
-  const unlockedAchievements = PREDEFINED_ACHIEVEMENTS.filter(achievement =>
-    userStats.achievements.some(ua => ua.achievementId === achievement.name)
-  );
+  const fromCommunities = communityAchievements(userStats);
+  const unlockedAchievements = [
+    ...ACHIEVEMENTS.filter(achievement =>
+      userStats.achievements.some(ua => ua.achievementId === achievement.id)
+    ),
+    ...fromCommunities
+  ];
 
-  const lockedAchievements = PREDEFINED_ACHIEVEMENTS.filter(achievement =>
-    !userStats.achievements.some(ua => ua.achievementId === achievement.name)
+  const lockedAchievements = ACHIEVEMENTS.filter(achievement =>
+    !userStats.achievements.some(ua => ua.achievementId === achievement.id)
   );
 
+  const input: AchievementInput = { stats: userStats, periods };
+
   const progress = getProgressToNextLevel();
 
   return (
@@ -447,7 +321,7 @@ export default function AchievementSystem({
         <div className="p-6 border-b border-gray-200">
           <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
             <span>🎖️</span>
-            <span>Achievements ({unlockedAchievements.length}/{PREDEFINED_ACHIEVEMENTS.length})</span>
+            <span>Achievements ({unlockedAchievements.length}/{ACHIEVEMENTS.length + fromCommunities.length})</span>
           </h3>
         </div>
 
@@ -459,10 +333,10 @@ export default function AchievementSystem({
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {unlockedAchievements.map((achievement) => (
                   <AchievementCard
-                    key={achievement.name}
-                    achievement={{ ...achievement, id: achievement.name, unlockedBy: [], totalUnlocked: 0 }}
+                    key={achievement.id}
+                    achievement={{ ...achievement, unlockedBy: [], totalUnlocked: 0 }}
                     unlocked={true}
-                    userAchievement={userStats.achievements.find(ua => ua.achievementId === achievement.name)}
+                    userAchievement={userStats.achievements.find(ua => ua.achievementId === achievement.id)}
                   />
                 ))}
               </div>
@@ -476,10 +350,10 @@ export default function AchievementSystem({
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {lockedAchievements.map((achievement) => (
                   <AchievementCard
-                    key={achievement.name}
-                    achievement={{ ...achievement, id: achievement.name, unlockedBy: [], totalUnlocked: 0 }}
+                    key={achievement.id}
+                    achievement={{ ...achievement, unlockedBy: [], totalUnlocked: 0 }}
                     unlocked={false}
-                    progress={getAchievementProgress(userStats, achievement)}
+                    progress={achievementProgress(input, achievement.criteria)}
                   />
                 ))}
               </div>
@@ -594,22 +468,3 @@ function AchievementCard({
     </div>
   );
 }
-
-function getAchievementProgress(stats: UserStats, achievement: any): number {
-  switch (achievement.criteria.type) {
-    case 'posts':
-      return Math.min((stats.totalPosts / achievement.criteria.threshold) * 100, 100);
-    case 'comments':
-      return Math.min((stats.totalComments / achievement.criteria.threshold) * 100, 100);
-    case 'votes':
-      return Math.min((stats.totalVotes / achievement.criteria.threshold) * 100, 100);
-    case 'reactions':
-      return Math.min((stats.totalReactions / achievement.criteria.threshold) * 100, 100);
-    case 'communities':
-      return Math.min((stats.communitiesJoined / achievement.criteria.threshold) * 100, 100);
-    case 'days':
-      return Math.min((stats.currentStreak / achievement.criteria.threshold) * 100, 100);
-    default:
-      return 0;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,350 @@
+import { useEffect, useMemo, useState } from 'react';
+import { collection, getDocs, orderBy, query } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import { deleteAchievementRule, describeAckError, saveAchievementRule } from '../../lib/socket';
+import {
+  MAX_RULES_PER_COMMUNITY,
+  RULE_METRICS,
+  RULE_RARITIES,
+  RULE_WINDOWS,
+  describeRule,
+  validateRule,
+  type AchievementRule,
+  type RuleInput,
+  type RuleProblem,
+} from '../../../../shared/achievement-rules';
+
+const METRIC_LABELS: Record<RuleInput['metric'], string> = {
+  posts: 'Posts created',
+  comments: 'Comments left',
+  votes: 'Votes cast',
+  reactions: 'Reactions added',
+};
+
+const WINDOW_LABELS: Record<RuleInput['window'], string> = {
+  'all-time': 'All time',
+  daily: 'In one day',
+  weekly: 'In one week',
+  monthly: 'In one month',
+};
+
+const EMPTY_RULE: RuleInput = {
+  name: '',
+  description: '',
+  icon: '🏅',
+  points: 50,
+  rarity: 'common',
+  metric: 'posts',
+  tags: [],
+  threshold: 10,
+  window: 'all-time',
+  enabled: true,
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:text-gray-500';
+
+interface AchievementRulesProps {
+  communityId: string;
+}
+
+// The Achievements tab of CommunityManagement, for community admins: rules
+// that unlock community achievements (see shared/achievement-rules.ts). The
+// server validates every save with the same validateRule used here.
+export default function AchievementRules({ communityId }: AchievementRulesProps) {
+  const [rules, setRules] = useState<AchievementRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  // null: no form open; '' creates a rule, anything else edits that rule
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RuleInput>(EMPTY_RULE);
+  const [tagText, setTagText] = useState('');
+  const [problems, setProblems] = useState<RuleProblem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getDocs(query(collection(db, 'communities', communityId, 'achievementRules'), orderBy('createdAt', 'asc')))
+      .then(snapshot => {
+        if (cancelled) return;
+        setRules(snapshot.docs.map(d => {
+          const data = d.data();
+          return {
+            ...EMPTY_RULE,
+            ...data,
+            tags: Array.isArray(data.tags) ? data.tags : [],
+            id: d.id,
+            communityId,
+            createdBy: data.createdBy ?? '',
+          } as AchievementRule;
+        }));
+      })
+      .catch(err => console.error('Error loading achievement rules:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [communityId]);
+
+  const candidate = useMemo(
+    () => ({ ...draft, tags: tagText.split(',').map(t => t.trim()).filter(Boolean) }),
+    [draft, tagText]
+  );
+  const preview = useMemo(() => {
+    const checked = validateRule(candidate);
+    return checked.ok ? describeRule(checked.rule) : null;
+  }, [candidate]);
+
+  const problemFor = (field: keyof RuleInput) => problems.find(p => p.field === field)?.message;
+
+  const openForm = (rule?: AchievementRule) => {
+    setEditing(rule ? rule.id : '');
+    setDraft(rule ?? EMPTY_RULE);
+    setTagText(rule ? rule.tags.join(', ') : '');
+    setProblems([]);
+    setError(null);
+  };
+
+  const update = <K extends keyof RuleInput>(field: K, value: RuleInput[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const save = async (input: RuleInput, ruleId?: string) => {
+    const checked = validateRule(input);
+    if (!checked.ok) {
+      setProblems(checked.problems);
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await saveAchievementRule({ communityId, ruleId, rule: checked.rule });
+      if (!res.ok || !res.rule) {
+        setError(describeAckError(res.error));
+        return;
+      }
+      const saved = res.rule;
+      setRules(prev => ruleId ? prev.map(r => r.id === ruleId ? saved : r) : [...prev, saved]);
+      if (editing === (ruleId ?? '')) setEditing(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (rule: AchievementRule) => {
+    if (!window.confirm(`Delete "${rule.name}"? Members who unlocked it keep it.`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await deleteAchievementRule({ communityId, ruleId: rule.id });
+      if (!res.ok) {
+        setError(describeAckError(res.error));
+        return;
+      }
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+      if (editing === rule.id) setEditing(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const isEdit = Boolean(editing);
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Achievement Rules</h2>
+          <p className="text-sm text-gray-600">Achievements members unlock for activity in this community</p>
+        </div>
+        {editing === null && rules.length < MAX_RULES_PER_COMMUNITY && (
+          <button
+            onClick={() => openForm()}
+            className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+          >
+            New rule
+          </button>
+        )}
+      </div>
+
+      {error && <p className="px-6 pt-4 text-sm text-red-600">{error}</p>}
+
+      {editing !== null && (
+        <div className="px-6 py-4 border-b border-gray-200 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <label className="block md:col-span-3">
+              <span className="text-sm font-medium text-gray-700">Name</span>
+              <input value={draft.name} onChange={e => update('name', e.target.value)} className={inputClass} />
+              {problemFor('name') && <span className="text-xs text-red-600">{problemFor('name')}</span>}
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Icon</span>
+              <input value={draft.icon} onChange={e => update('icon', e.target.value)} className={inputClass} />
+              {problemFor('icon') && <span className="text-xs text-red-600">{problemFor('icon')}</span>}
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Counts</span>
+              <select
+                value={draft.metric}
+                disabled={isEdit}
+                onChange={e => update('metric', e.target.value as RuleInput['metric'])}
+                className={inputClass}
+              >
+                {RULE_METRICS.map(m => <option key={m} value={m}>{METRIC_LABELS[m]}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Threshold</span>
+              <input
+                type="number"
+                min={1}
+                value={draft.threshold}
+                onChange={e => update('threshold', Number(e.target.value))}
+                className={inputClass}
+              />
+              {problemFor('threshold') && <span className="text-xs text-red-600">{problemFor('threshold')}</span>}
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Window</span>
+              <select
+                value={draft.window}
+                disabled={isEdit}
+                onChange={e => update('window', e.target.value as RuleInput['window'])}
+                className={inputClass}
+              >
+                {RULE_WINDOWS.map(w => <option key={w} value={w}>{WINDOW_LABELS[w]}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Tags (any of)</span>
+              <input
+                value={tagText}
+                disabled={isEdit}
+                placeholder="marathon, training"
+                onChange={e => setTagText(e.target.value)}
+                className={inputClass}
+              />
+              {problemFor('tags') && <span className="text-xs text-red-600">{problemFor('tags')}</span>}
+            </label>
+          </div>
+          {isEdit && (
+            <p className="text-xs text-gray-500">What a rule counts can't change once it exists; create a new rule instead.</p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <label className="block md:col-span-2">
+              <span className="text-sm font-medium text-gray-700">Description</span>
+              <input
+                value={draft.description}
+                placeholder={preview ?? ''}
+                onChange={e => update('description', e.target.value)}
+                className={inputClass}
+              />
+              {problemFor('description') && <span className="text-xs text-red-600">{problemFor('description')}</span>}
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Points</span>
+              <input
+                type="number"
+                min={0}
+                value={draft.points}
+                onChange={e => update('points', Number(e.target.value))}
+                className={inputClass}
+              />
+              <span className="text-xs text-gray-500">Count on this community's leaderboards only</span>
+              {problemFor('points') && <span className="block text-xs text-red-600">{problemFor('points')}</span>}
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Rarity</span>
+              <select
+                value={draft.rarity}
+                onChange={e => update('rarity', e.target.value as RuleInput['rarity'])}
+                className={inputClass}
+              >
+                {RULE_RARITIES.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={draft.enabled} onChange={e => update('enabled', e.target.checked)} />
+              Enabled
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setEditing(null)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => save(candidate, editing || undefined)}
+                disabled={busy}
+                className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                {busy ? 'Saving...' : isEdit ? 'Save rule' : 'Create rule'}
+              </button>
+            </div>
+          </div>
+          {preview && <p className="text-sm text-gray-600">Unlocks when a member: {preview}.</p>}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-6 animate-pulse space-y-3">
+          <div className="h-12 bg-gray-200 rounded"></div>
+          <div className="h-12 bg-gray-200 rounded"></div>
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">
+          No rules yet. Activity only counts towards a rule from the moment it is created.
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {rules.map(rule => (
+            <div key={rule.id} className="px-6 py-4 flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <span className="text-2xl">{rule.icon}</span>
+                <div>
+                  <div className="font-medium text-gray-900 flex items-center gap-2">
+                    {rule.name}
+                    {!rule.enabled && (
+                      <span className="px-2 py-0.5 text-xs font-semibold rounded bg-gray-100 text-gray-600">disabled</span>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-600">{rule.description || describeRule(rule)}</div>
+                  <div className="text-xs text-gray-500">{rule.points} points • {rule.rarity}</div>
+                </div>
+              </div>
+              <div className="flex gap-3 text-sm font-medium">
+                <button
+                  onClick={() => save({ ...rule, enabled: !rule.enabled }, rule.id)}
+                  disabled={busy}
+                  className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                >
+                  {rule.enabled ? 'Disable' : 'Enable'}
+                </button>
+                <button onClick={() => openForm(rule)} className="text-blue-600 hover:text-blue-900">
+                  Edit
+                </button>
+                <button
+                  onClick={() => remove(rule)}
+                  disabled={busy}
+                  className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,10 +8,15 @@ import {
   doc, 
   where,
   getDoc,
+  getCountFromServer,
   writeBatch
 } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import { useAuth } from '../auth/AuthProvider';
+import { usePermissions } from '../../hooks/usePermissions';
+import { isCommunityRole, memberDoc, type CommunityRole } from '../../lib/permissions';
+import AchievementRules from './AchievementRules';
+import VoteCases from './VoteCases';
 
 interface CommunityStats {
   totalMembers: number;
@@ -38,7 +43,7 @@ interface CommunityMember {
   id: string;
   displayName: string;
   photoURL?: string;
-  role: 'member' | 'moderator' | 'admin';
+  role: CommunityRole;
   joinedAt: Date;
   lastActiveAt: Date;
   totalPosts: number;
@@ -65,7 +70,8 @@ export default function CommunityManagement({ communityId }: CommunityManagement
   });
   const [reportedContent, setReportedContent] = useState<ReportedContent[]>([]);
   const [members, setMembers] = useState<CommunityMember[]>([]);
-  const [userRole, setUserRole] = useState<string>('member');
+  const [openVoteCases, setOpenVoteCases] = useState(0);
+  const { can, loading: permissionsLoading } = usePermissions(communityId);
 
   useEffect(() => {
     loadData();
@@ -80,7 +86,7 @@ export default function CommunityManagement({ communityId }: CommunityManagement
         loadCommunityStats(),
         loadReportedContent(),
         loadMembers(),
-        loadUserRole()
+        loadOpenVoteCases()
       ]);
     } catch (error) {
       console.error('Error loading community management data:', error);
@@ -111,6 +117,19 @@ export default function CommunityManagement({ communityId }: CommunityManagement
     }
   };
 
+  const loadOpenVoteCases = async () => {
+    try {
+      const snapshot = await getCountFromServer(query(
+        collection(db, 'voteCases'),
+        where('communityId', '==', communityId),
+        where('status', '==', 'open')
+      ));
+      setOpenVoteCases(snapshot.data().count);
+    } catch (error) {
+      console.error('Error loading vote cases:', error);
+    }
+  };
+
   const loadReportedContent = async () => {
     try {
       const reportsQuery = query(
@@ -152,14 +171,22 @@ export default function CommunityManagement({ communityId }: CommunityManagement
         limit(100)
       );
 
-      const snapshot = await getDocs(membersQuery);
+      const [snapshot, rolesSnap] = await Promise.all([
+        getDocs(membersQuery),
+        getDocs(collection(db, 'communities', communityId, 'members'))
+      ]);
+      const roles = new Map<string, CommunityRole>();
+      rolesSnap.docs.forEach(d => {
+        const role = d.get('role');
+        if (isCommunityRole(role)) roles.set(d.id, role);
+      });
       const membersList = snapshot.docs.map(doc => {
         const data = doc.data();
         return {
           id: doc.id,
           displayName: data.displayName || 'Anonymous',
           photoURL: data.photoURL,
-          role: data.roles?.[communityId] || 'member',
+          role: roles.get(doc.id) || 'member',
           joinedAt: data.joinedCommunities?.[communityId]?.toDate() || new Date(),
           lastActiveAt: data.lastActiveAt?.toDate() || new Date(),
           totalPosts: data.communityStats?.[communityId]?.posts || 0,
@@ -175,20 +202,6 @@ export default function CommunityManagement({ communityId }: CommunityManagement
     }
   };
 
-  const loadUserRole = async () => {
-    if (!user?.uid) return;
-
-    try {
-      const userDoc = await getDoc(doc(db, 'users', user.uid));
-      if (userDoc.exists()) {
-        const userData = userDoc.data();
-        setUserRole(userData.roles?.[communityId] || 'member');
-      }
-    } catch (error) {
-      console.error('Error loading user role:', error);
-    }
-  };
-
   const handleReportAction = async (reportId: string, action: 'approve' | 'dismiss' | 'remove') => {
     try {
       const reportRef = doc(db, 'reports', reportId);
@@ -223,14 +236,10 @@ export default function CommunityManagement({ communityId }: CommunityManagement
 
       switch (action) {
         case 'promote':
-          batch.update(memberRef, {
-            [`roles.${communityId}`]: 'moderator'
-          });
+          batch.set(memberDoc(communityId, memberId), { uid: memberId, role: 'moderator' });
           break;
         case 'demote':
-          batch.update(memberRef, {
-            [`roles.${communityId}`]: 'member'
-          });
+          batch.set(memberDoc(communityId, memberId), { uid: memberId, role: 'member' });
           break;
         case 'warn':
           batch.update(memberRef, {
@@ -258,12 +267,7 @@ export default function CommunityManagement({ communityId }: CommunityManagement
     }
   };
 
-  const canPerformAction = (requiredRole: string) => {
-    const roleHierarchy = { member: 0, moderator: 1, admin: 2 };
-    return roleHierarchy[userRole as keyof typeof roleHierarchy] >= roleHierarchy[requiredRole as keyof typeof roleHierarchy];
-  };
-
-  if (loading) {
+  if (loading || permissionsLoading) {
     return (
       <div className="max-w-6xl mx-auto p-6">
         <div className="animate-pulse space-y-6">
@@ -278,7 +282,7 @@ export default function CommunityManagement({ communityId }: CommunityManagement
     );
   }
 
-  if (!canPerformAction('moderator')) {
+  if (!can('content:moderate', { communityId })) {
     return (
       <div className="max-w-6xl mx-auto p-6">
         <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
@@ -308,6 +312,8 @@ export default function CommunityManagement({ communityId }: CommunityManagement
               { id: 'overview', label: 'Overview', icon: '📊' },
               { id: 'reports', label: 'Reports', icon: '🚨', badge: reportedContent.length },
               { id: 'members', label: 'Members', icon: '👥' },
+              { id: 'votes', label: 'Vote Integrity', icon: '🕵️', badge: openVoteCases },
+              ...(can('community:manage', { communityId }) ? [{ id: 'achievements', label: 'Achievements', icon: '🏅' }] : []),
               { id: 'settings', label: 'Settings', icon: '⚙️' },
             ].map(tab => (
               <button
@@ -545,7 +551,7 @@ export default function CommunityManagement({ communityId }: CommunityManagement
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex gap-2">
-                        {canPerformAction('admin') && member.role !== 'admin' && (
+                        {can('members:manage', { communityId }) && member.role !== 'admin' && (
                           <>
                             {member.role === 'member' ? (
                               <button
@@ -589,6 +595,14 @@ export default function CommunityManagement({ communityId }: CommunityManagement
           </div>
         </div>
       )}
+
+      {activeTab === 'votes' && (
+        <VoteCases communityId={communityId} onResolved={() => setOpenVoteCases(n => Math.max(0, n - 1))} />
+      )}
+
+      {activeTab === 'achievements' && can('community:manage', { communityId }) && (
+        <AchievementRules communityId={communityId} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,9 +1,10 @@
 import { useEffect, useState } from "react";
 import { useAuth } from "../auth/AuthProvider";
-import { collection, getDocs, limit, orderBy, query, doc, getDoc } from "firebase/firestore";
+import { collection, getDocs, limit, orderBy, query } from "firebase/firestore";
 import { db } from "../../lib/firebase";
 import { useToast } from "../../components/ToastProvider";
 import { emitPostDelete, emitCommentDelete } from "../../lib/socket";
+import { usePermissions } from "../../hooks/usePermissions";
 
 interface PostLite { id: string; title?: string; communityId: string; authorId?: string; createdAt?: any }
 interface CommentLite { id: string; postId: string; communityId: string; authorId?: string; createdAt?: any }
@@ -13,15 +14,14 @@ export default function ModerationPanel() {
   const { showToast } = useToast();
   const [posts, setPosts] = useState<PostLite[]>([]);
   const [comments, setComments] = useState<CommentLite[]>([]);
-  const [roleByCommunity, setRoleByCommunity] = useState<Record<string, { admin: boolean; moderator: boolean }>>({});
   const [communityFilter, setCommunityFilter] = useState<string>("");
   const [postsLimit, setPostsLimit] = useState(20);
   const [commentsLimit, setCommentsLimit] = useState(20);
 
-  const canModerate = (communityId: string) => {
-    const r = roleByCommunity[communityId];
-    return !!(r?.admin || r?.moderator);
-  };
+  const communityIds = Array.from(new Set([...posts.map(p => p.communityId), ...comments.map(c => c.communityId)]));
+  const { can } = usePermissions(...communityIds);
+
+  const canModerate = (communityId: string) => can("content:moderate", { communityId });
 
   useEffect(() => {
     const load = async () => {
@@ -37,25 +37,11 @@ export default function ModerationPanel() {
         setPosts(postsSnap.docs.map(d => ({ id: d.id, communityId: (d.data() as any).communityId, title: (d.data() as any).title, authorId: (d.data() as any).authorId, createdAt: (d.data() as any).createdAt })));
         setComments(commentsSnap.docs.map(d => ({ id: d.id, communityId: (d.data() as any).communityId, postId: (d.data() as any).postId, authorId: (d.data() as any).authorId, createdAt: (d.data() as any).createdAt })));
 
-        // Gather distinct communities and fetch role info for current user
-        const cids = Array.from(new Set([...postsSnap.docs, ...commentsSnap.docs].map(d => (d.data() as any).communityId).filter(Boolean)));
         if (communityFilter) {
           // Filter client-side for now
           setPosts(prev => prev.filter(p => p.communityId === communityFilter));
           setComments(prev => prev.filter(c => c.communityId === communityFilter));
         }
-        const roles: Record<string, { admin: boolean; moderator: boolean }> = {};
-        for (const cid of cids) {
-          try {
-            const c = await getDoc(doc(db, "communities", cid));
-            const data = (c.data() as any) || {};
-            roles[cid] = {
-              admin: Array.isArray(data.admins) && data.admins.includes(user?.uid || ""),
-              moderator: Array.isArray(data.moderators) && data.moderators.includes(user?.uid || ""),
-            };
-          } catch {}
-        }
-        setRoleByCommunity(roles);
       } catch (e) {
         showToast("Failed to load moderation data", "error");
       }
@@ -76,7 +62,7 @@ export default function ModerationPanel() {
               className="border rounded px-2 py-1 text-sm"
             >
               <option value="">All communities</option>
-              {Array.from(new Set([...posts.map(p => p.communityId), ...comments.map(c => c.communityId)])).map(cid => (
+              {communityIds.map(cid => (
                 <option key={cid} value={cid}>{cid}</option>
               ))}
             </select>
@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { collection, documentId, getDocs, limit, orderBy, query, Timestamp, where } from 'firebase/firestore';
+import { Link } from 'react-router-dom';
+import { db } from '../../lib/firebase';
+import { describeAckError, resolveVoteCase } from '../../lib/socket';
+import {
+  SIGNAL_LABELS,
+  VOTE_SIGNALS,
+  describeEvidence,
+  type CaseDecision,
+  type VoteEvidence,
+  type VoteSignal,
+} from '../../../../shared/vote-integrity';
+
+interface VoteCase {
+  id: string;
+  authorId: string;
+  signals: Partial<Record<VoteSignal, number>>;
+  flaggedVotes: number;
+  pointsWithheld: number;
+  voterIds: string[];
+  openedAt: Date | null;
+  lastFlaggedAt: Date | null;
+}
+
+interface FlaggedVote {
+  id: string;
+  voterId: string;
+  targetId: string;
+  targetType: 'post' | 'comment';
+  points: number;
+  signals: VoteSignal[];
+  evidence: VoteEvidence;
+  resolved: boolean;
+  createdAt: Date | null;
+}
+
+// Evidence shown per case, newest first
+const EVIDENCE_LIMIT = 20;
+
+function toDate(value: unknown): Date | null {
+  return value instanceof Timestamp ? value.toDate() : null;
+}
+
+// Display names for uids, 30 per query (the 'in' limit)
+async function loadNames(ids: string[]): Promise<Record<string, string>> {
+  const names: Record<string, string> = {};
+  for (let i = 0; i < ids.length; i += 30) {
+    const snapshot = await getDocs(query(collection(db, 'users'), where(documentId(), 'in', ids.slice(i, i + 30))));
+    snapshot.docs.forEach(d => {
+      names[d.id] = d.get('displayName') || d.id;
+    });
+  }
+  return names;
+}
+
+interface VoteCasesProps {
+  communityId: string;
+  onResolved?: () => void;
+}
+
+// The Vote Integrity tab of CommunityManagement: authors whose upvotes the
+// server flagged as vote-ring activity (see shared/vote-integrity.ts), with
+// the evidence behind each flag. Flagged upvotes earn nothing until the case
+// is dismissed.
+export default function VoteCases({ communityId, onResolved }: VoteCasesProps) {
+  const [cases, setCases] = useState<VoteCase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [open, setOpen] = useState<string | null>(null);
+  const [evidence, setEvidence] = useState<FlaggedVote[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const addNames = async (ids: string[]) => {
+    const missing = [...new Set(ids)].filter(id => !(id in names));
+    if (missing.length === 0) return;
+    try {
+      const found = await loadNames(missing);
+      setNames(prev => ({ ...prev, ...found }));
+    } catch (err) {
+      console.error('Error loading names:', err);
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getDocs(query(
+      collection(db, 'voteCases'),
+      where('communityId', '==', communityId),
+      where('status', '==', 'open'),
+      orderBy('lastFlaggedAt', 'desc'),
+      limit(50)
+    ))
+      .then(snapshot => {
+        if (cancelled) return;
+        const loaded = snapshot.docs.map(d => {
+          const data = d.data();
+          return {
+            id: d.id,
+            authorId: data.authorId,
+            signals: data.signals || {},
+            flaggedVotes: data.flaggedVotes || 0,
+            pointsWithheld: data.pointsWithheld || 0,
+            voterIds: Array.isArray(data.voterIds) ? data.voterIds : [],
+            openedAt: toDate(data.openedAt),
+            lastFlaggedAt: toDate(data.lastFlaggedAt),
+          } as VoteCase;
+        });
+        setCases(loaded);
+        return loadNames([...new Set(loaded.map(c => c.authorId))]).then(found => {
+          if (!cancelled) setNames(prev => ({ ...prev, ...found }));
+        });
+      })
+      .catch(err => console.error('Error loading vote cases:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [communityId]);
+
+  const showEvidence = async (voteCase: VoteCase) => {
+    if (open === voteCase.id) {
+      setOpen(null);
+      return;
+    }
+    setOpen(voteCase.id);
+    setEvidence([]);
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, 'voteCases', voteCase.id, 'evidence'),
+        orderBy('createdAt', 'desc'),
+        limit(EVIDENCE_LIMIT)
+      ));
+      const votes = snapshot.docs.map(d => ({ ...d.data(), id: d.id, createdAt: toDate(d.get('createdAt')) }) as FlaggedVote);
+      setEvidence(votes);
+      addNames(votes.flatMap(v => [v.voterId, ...(v.evidence['shared-network']?.accounts ?? [])]));
+    } catch (err) {
+      console.error('Error loading evidence:', err);
+    }
+  };
+
+  const resolve = async (voteCase: VoteCase, decision: CaseDecision) => {
+    const question = decision === 'dismiss'
+      ? `Dismiss this case? ${voteCase.pointsWithheld} withheld points go to the author.`
+      : 'Confirm this case? The withheld points stay withheld.';
+    if (!window.confirm(question)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await resolveVoteCase({ caseId: voteCase.id, decision });
+      if (!res.ok) {
+        setError(describeAckError(res.error));
+        return;
+      }
+      setCases(prev => prev.filter(c => c.id !== voteCase.id));
+      if (open === voteCase.id) setOpen(null);
+      onResolved?.();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const nameOf = (uid: string) => names[uid] || uid;
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Vote Integrity</h2>
+        <p className="text-sm text-gray-600">
+          Upvotes that look like vote rings. They count in scores but earn no points until you dismiss the case.
+        </p>
+      </div>
+
+      {error && <p className="px-6 pt-4 text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="p-6 animate-pulse space-y-3">
+          <div className="h-12 bg-gray-200 rounded"></div>
+          <div className="h-12 bg-gray-200 rounded"></div>
+        </div>
+      ) : cases.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No suspicious voting right now.</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {cases.map(voteCase => (
+            <div key={voteCase.id} className="px-6 py-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <Link to={`/profile/${voteCase.authorId}`} className="font-medium text-gray-900 hover:text-blue-600">
+                    {nameOf(voteCase.authorId)}
+                  </Link>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {VOTE_SIGNALS.filter(s => voteCase.signals[s]).map(s => (
+                      <span key={s} className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded">
+                        {SIGNAL_LABELS[s]} × {voteCase.signals[s]}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {voteCase.flaggedVotes} flagged upvote{voteCase.flaggedVotes !== 1 ? 's' : ''} from {voteCase.voterIds.length} account{voteCase.voterIds.length !== 1 ? 's' : ''}
+                    {' '}• {voteCase.pointsWithheld} points withheld
+                    {voteCase.lastFlaggedAt && <> • last {voteCase.lastFlaggedAt.toLocaleString()}</>}
+                  </div>
+                </div>
+                <div className="flex gap-2 text-sm">
+                  <button onClick={() => showEvidence(voteCase)} className="px-3 py-1 text-blue-600 hover:text-blue-900">
+                    {open === voteCase.id ? 'Hide evidence' : 'Evidence'}
+                  </button>
+                  <button
+                    onClick={() => resolve(voteCase, 'dismiss')}
+                    disabled={busy}
+                    className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    Dismiss
+                  </button>
+                  <button
+                    onClick={() => resolve(voteCase, 'confirm')}
+                    disabled={busy}
+                    className="px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200 disabled:opacity-50"
+                  >
+                    Confirm
+                  </button>
+                </div>
+              </div>
+
+              {open === voteCase.id && (
+                <ul className="space-y-2">
+                  {evidence.map(vote => (
+                    <li key={vote.id} className={`border rounded p-3 text-sm ${vote.resolved ? 'opacity-60' : ''}`}>
+                      <div className="flex justify-between gap-2">
+                        <span>
+                          <Link to={`/profile/${vote.voterId}`} className="font-medium text-gray-900 hover:text-blue-600">
+                            {nameOf(vote.voterId)}
+                          </Link>
+                          {' upvoted '}
+                          {vote.targetType === 'post' ? (
+                            <Link to={`/c/${communityId}/post/${vote.targetId}`} className="text-blue-600 hover:text-blue-900">a post</Link>
+                          ) : 'a comment'}
+                          {` (${vote.points} points withheld)`}
+                        </span>
+                        <span className="text-xs text-gray-500">{vote.createdAt?.toLocaleString()}</span>
+                      </div>
+                      <ul className="mt-1 text-gray-600 list-disc list-inside">
+                        {describeEvidence(vote.evidence).map((line, i) => <li key={i}>{line}</li>)}
+                      </ul>
+                      {vote.evidence['shared-network'] && (
+                        <div className="mt-1 text-xs text-gray-500">
+                          Same network: {vote.evidence['shared-network'].accounts.map(nameOf).join(', ')}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                  {evidence.length === 0 && <li className="text-sm text-gray-500">Loading evidence...</li>}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -30,7 +30,7 @@ export interface ModerationResult {
 
 export interface ContentAnalysis {
   content: string;
-  contentType: 'post' | 'comment' | 'message' | 'bio';
+  contentType: 'post' | 'comment' | 'message' | 'bio' | 'poll-response';
   userId: string;
   communityId?: string;
   timestamp: Date;
@@ -45,7 +45,7 @@ class ContentModerationService {
    */
   async moderateContent(
     content: string, 
-    contentType: 'post' | 'comment' | 'message' | 'bio',
+    contentType: 'post' | 'comment' | 'message' | 'bio' | 'poll-response',
     userId: string,
     communityId?: string
   ): Promise<ModerationResult> {
@@ -428,7 +428,7 @@ class ContentModerationService {
    */
   async batchModerate(contents: Array<{
     content: string;
-    contentType: 'post' | 'comment' | 'message' | 'bio';
+    contentType: 'post' | 'comment' | 'message' | 'bio' | 'poll-response';
     userId: string;
     communityId?: string;
   }>): Promise<ModerationResult[]> {
@@ -515,7 +515,7 @@ export const contentModerationService = new ContentModerationService();
 // Helper function to check content before posting
 export async function checkContentBeforePost(
   content: string,
-  contentType: 'post' | 'comment' | 'message' | 'bio',
+  contentType: 'post' | 'comment' | 'message' | 'bio' | 'poll-response',
   userId: string,
   communityId?: string
 ): Promise<{ allowed: boolean; reason?: string; result: ModerationResult }> {
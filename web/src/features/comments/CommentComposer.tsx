@@ -1,43 +1,29 @@
 import { useState } from "react";
-import { auth, db } from "../../lib/firebase";
-import { addDoc, collection, serverTimestamp, updateDoc, doc, increment } from "firebase/firestore";
-import { emit } from "../../lib/socket";
+import { auth } from "../../lib/firebase";
+import { createComment, describeAckError } from "../../lib/socket";
+import { useTypingNotifier } from "../../hooks/useTyping";
 
 interface Props {
   postId: string;
-  communityId: string;
   parentId?: string;
 }
 
-export default function CommentComposer({ postId, communityId, parentId }: Props) {
+export default function CommentComposer({ postId, parentId }: Props) {
   const [content, setContent] = useState("");
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { notifyTyping, stopTyping } = useTypingNotifier(postId);
 
   const submit = async () => {
+    stopTyping();
     try {
       setSubmitting(true);
       setError(null);
-      if (!db) throw new Error("Firebase not configured");
       const user = auth?.currentUser;
       if (!user) throw new Error("You must be signed in to comment");
-      const comment = {
-        postId,
-        communityId,
-        parentId: parentId ?? null,
-        authorId: user.uid,
-        content: content.trim(),
-        createdAt: serverTimestamp(),
-      };
-      const ref = await addDoc(collection(db, "comments"), comment);
-      // Update user stats
-      try {
-        await updateDoc(doc(db, 'users', user.uid), {
-          'stats.totalComments': increment(1),
-          lastActiveAt: serverTimestamp(),
-        });
-      } catch {}
-      emit("comment:new", { id: ref.id, ...comment });
+      // The server writes the comment, bumps the counters and broadcasts comment:new
+      const res = await createComment({ postId, parentId: parentId ?? null, content: content.trim() });
+      if (!res.ok) throw new Error(describeAckError(res.error));
       setContent("");
     } catch (e: any) {
       setError(e.message);
@@ -53,7 +39,8 @@ export default function CommentComposer({ postId, communityId, parentId }: Props
         className="w-full border rounded px-3 py-2 min-h-20"
         placeholder={parentId ? "Write a reply..." : "Write a comment..."}
         value={content}
-        onChange={(e) => setContent(e.target.value)}
+        onChange={(e) => { setContent(e.target.value); if (e.target.value.trim()) notifyTyping(); else stopTyping(); }}
+        onBlur={stopTyping}
         onKeyDown={(e) => { if ((e as any).key === 'Enter' && (e as any).ctrlKey) { e.preventDefault(); e.stopPropagation(); submit(); } }}
       />
       <div className="flex gap-2">
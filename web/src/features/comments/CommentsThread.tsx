@@ -7,6 +7,8 @@ import ReactionButtons from "../reactions/ReactionButtons";
 import VotingButtons from "../voting/VotingButtons";
 import { useAuth } from '../auth/AuthProvider';
 import { useToast } from '../../components/ToastProvider';
+import { usePostTyping } from '../../hooks/useTyping';
+import { usePermissions } from '../../hooks/usePermissions';
 
 interface Props {
   postId: string;
@@ -41,6 +43,7 @@ export default function CommentsThread({ postId, communityId }: Props) {
   const [authors, setAuthors] = useState<Record<string, Author>>({});
   const [loading, setLoading] = useState(true);
   const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'top'>('newest');
+  const { label: typingLabel } = usePostTyping(postId);
 
   useEffect(() => {
     if (!db) return;
@@ -127,8 +130,12 @@ export default function CommentsThread({ postId, communityId }: Props) {
         </div>
       </div>
       
+      {typingLabel && (
+        <div className="mb-2 text-sm text-gray-500 italic" aria-live="polite">{typingLabel}</div>
+      )}
+
       <div className="mb-4">
-        <CommentComposer postId={postId} communityId={communityId} />
+        <CommentComposer postId={postId} />
       </div>
       
       <div className="space-y-3">
@@ -170,18 +177,7 @@ function buildTree(items: CommentDoc[]) {
 function CommentNode({ node, authors, postId, communityId, depth }: { node: any; authors: Record<string, Author>; postId: string; communityId: string; depth: number }) {
   const { user } = useAuth();
   const { showToast } = useToast();
-  const [admins, setAdmins] = useState<string[]>([]);
-  const [moderators, setModerators] = useState<string[]>([]);
-
-  useEffect(() => {
-    if (!db) return;
-    const unsub = onSnapshot(doc(db, 'communities', communityId), (snap) => {
-      const data = (snap.data() as any) || {};
-      setAdmins(Array.isArray(data.admins) ? data.admins : []);
-      setModerators(Array.isArray(data.moderators) ? data.moderators : []);
-    });
-    return () => { try { unsub(); } catch {} };
-  }, [communityId]);
+  const { can } = usePermissions(communityId);
   const [showReply, setShowReply] = useState(false);
   const [currentNode, setCurrentNode] = useState(node);
   const [showReplies, setShowReplies] = useState(true);
@@ -292,6 +288,7 @@ function CommentNode({ node, authors, postId, communityId, depth }: { node: any;
                 targetType="comment"
                 reactions={currentNode.reactions}
                 communityId={communityId}
+                canModerate={can('reaction:remove', { communityId, authorId: currentNode.authorId })}
                 className="flex-shrink-0"
               />
               
@@ -305,7 +302,7 @@ function CommentNode({ node, authors, postId, communityId, depth }: { node: any;
                 </button>
               )}
 
-              {(user?.uid === currentNode.authorId || admins.includes(user?.uid || '') || moderators.includes(user?.uid || '')) && (
+              {can('content:delete', { communityId, authorId: currentNode.authorId }) && (
                 <button
                   type="button"
                   className="text-sm text-red-600 hover:text-red-800 hover:underline transition-colors"
@@ -340,7 +337,6 @@ onClick={async () => {
                 <CommentComposer
                   postId={postId}
                   parentId={currentNode.id}
-                  communityId={communityId}
                 />
               </div>
             )}
@@ -1,13 +1,16 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams } from "react-router-dom";
 import { auth, db } from "../../lib/firebase";
-import { collection, onSnapshot, orderBy, query, where, Timestamp, doc } from "firebase/firestore";
+import { collection, onSnapshot, orderBy, query, where, Timestamp } from "firebase/firestore";
 import PostComposer from "../posts/PostComposer";
 import { onPostNew, onPostDeleted, offPostDeleted } from "../../lib/socket";
 import { useCommunityRoom } from "../../hooks/useCommunityRoom";
+import { usePresence } from "../../hooks/usePresence";
+import { usePermissions } from "../../hooks/usePermissions";
 import { useToast } from "../../components/ToastProvider";
 import CommentsThread from "../comments/CommentsThread";
 import ReactionButtons from "../reactions/ReactionButtons";
+import LeaderboardSystem from "../leaderboard/LeaderboardSystem";
 
 interface PostDoc { id: string; title: string; content?: string; authorId: string; createdAt?: Timestamp | null; communityId: string }
 
@@ -15,9 +18,9 @@ export default function CommunityPage() {
   const { communityId = "" } = useParams();
   const [posts, setPosts] = useState<PostDoc[]>([]);
   const { joinError } = useCommunityRoom(communityId);
+  const { members: onlineMembers, onlineCount } = usePresence(communityId);
   const { showToast } = useToast();
-  const [communityAdmins, setCommunityAdmins] = useState<string[]>([]);
-  const [communityModerators, setCommunityModerators] = useState<string[]>([]);
+  const { can } = usePermissions(communityId);
 
   useEffect(() => {
     if (!db || !communityId) return;
@@ -36,15 +39,6 @@ export default function CommunityPage() {
   useEffect(() => {
     if (!communityId || !db) return;
 
-    // Load community admins for UI permissions
-    const unsubCommunity = onSnapshot(doc(db, 'communities', communityId), (snap) => {
-      const data = (snap.data() as any) || {};
-      const admins = data.admins || [];
-      const moderators = data.moderators || [];
-      setCommunityAdmins(Array.isArray(admins) ? admins : []);
-      setCommunityModerators(Array.isArray(moderators) ? moderators : []);
-    }, () => { setCommunityAdmins([]); setCommunityModerators([]); });
-
     const postHandler = (post: any) => {
       if (post?.communityId !== communityId) return;
       setPosts((prev) => {
@@ -62,7 +56,6 @@ export default function CommunityPage() {
     onPostDeleted(deletedHandler);
 
     return () => {
-      try { unsubCommunity(); } catch {}
       try { offPostDeleted(deletedHandler as any) } catch {}
       // Note: we don't remove the post handler explicitly here (simple demo)
     };
@@ -80,6 +73,16 @@ export default function CommunityPage() {
       <div>
         <h2 className="text-xl font-semibold">Community {communityId}</h2>
         <p className="text-gray-600 text-sm">Posts update live via Firestore snapshots and Socket.io events.</p>
+        <div className="mt-2 flex items-center gap-2 text-sm text-gray-600">
+          <span className="w-2 h-2 bg-green-400 rounded-full"></span>
+          <span>{onlineCount} {onlineCount === 1 ? "member" : "members"} online</span>
+          {onlineMembers.length > 0 && (
+            <span className="text-xs text-gray-500 truncate">
+              · {onlineMembers.slice(0, 5).map((m) => m.displayName).join(", ")}
+              {onlineMembers.length > 5 ? ` and ${onlineMembers.length - 5} more` : ""}
+            </span>
+          )}
+        </div>
       </div>
 
 
@@ -119,7 +122,7 @@ export default function CommunityPage() {
             )}
             <div className="text-xs text-gray-500 mt-2 flex items-center justify-between">
               <span>by {p.authorId} • {p.createdAt ? new Date((p.createdAt as any).toDate?.() ?? Date.now()).toLocaleString() : "pending"}</span>
-              {(userId === p.authorId || communityAdmins.includes(userId || '') || communityModerators.includes(userId || '')) && (
+              {can('content:delete', { communityId, authorId: p.authorId }) && (
                 <button
                   type="button"
                   className="text-xs text-red-600 hover:text-red-800 underline"
@@ -141,7 +144,7 @@ onClick={async () => {
                 targetType="post"
                 reactions={(p as any).reactions}
                 communityId={communityId}
-                canModerate={communityAdmins.includes(userId || '') || communityModerators.includes(userId || '')}
+                canModerate={can('reaction:remove', { communityId, authorId: p.authorId })}
               />
             </div>
             {/* Threaded comments */}
@@ -154,6 +157,8 @@ onClick={async () => {
           <div className="text-gray-600">No posts yet. Be the first to post!</div>
         )}
       </div>
+
+      {userId && <LeaderboardSystem communityId={communityId} maxUsers={10} />}
     </div>
   );
 }
\ No newline at end of file
@@ -63,7 +63,6 @@ interface RichTextEditorProps {
   placeholder?: string;
   className?: string;
   enableMedia?: boolean;
-  communityId?: string;
   onSubmit?: () => void;
 }
 
@@ -73,7 +72,6 @@ export default function RichTextEditor({
   placeholder = "Write something...", 
   className = "",
   enableMedia = true,
-  communityId,
   onSubmit,
 }: RichTextEditorProps) {
   const [linkOpen, setLinkOpen] = useState(false);
@@ -131,10 +129,10 @@ export default function RichTextEditor({
       const file = input.files?.[0];
       if (!file) return;
       try {
-        const url = await uploadFile(file, `communities/${communityId || 'general'}/images`);
+        const url = await uploadFile(file, 'posts');
         editor.chain().focus().setImage({ src: url }).run();
       } catch (e) {
-        alert('Failed to upload image');
+        alert(e instanceof Error ? e.message : 'Failed to upload image');
       }
     };
     input.click();
@@ -7,10 +7,10 @@ import PersonalizedRecommendations from '../../components/PersonalizedRecommenda
 import VotingButtons from '../voting/VotingButtons';
 import ReactionButtons from '../reactions/ReactionButtons';
 import PostComposer from '../posts/PostComposer';
-import { doc, updateDoc, arrayUnion, arrayRemove, getDoc, Timestamp } from 'firebase/firestore';
+import { doc, getDoc, Timestamp } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import { Link } from 'react-router-dom';
-import { onPostDeleted } from '../../lib/socket';
+import { describeAckError, onPostDeleted, onReplayResync, offReplayResync, setFollow } from '../../lib/socket';
 import { useToast } from '../../components/ToastProvider';
 
 interface Post {
@@ -86,12 +86,18 @@ export default function FeedPage() {
     }
   }, [activeTab, followedCommunities, filters]);
 
-  const { data: posts, loading, error } = useFirestoreRealtime<Post>({
+  const { data: posts, loading, error, refresh } = useFirestoreRealtime<Post>({
     ...feedQuery,
-    enableRealTimeUpdates: true,
-    emitSocketEvents: false
+    enableRealTimeUpdates: true
   });
 
+  // Events missed while offline that the server could no longer replay
+  useEffect(() => {
+    const handler = () => refresh();
+    onReplayResync(handler);
+    return () => offReplayResync(handler);
+  }, [refresh]);
+
   const { showToast } = useToast();
 
   // Remove posts from view when post:deleted is received
@@ -121,26 +127,18 @@ export default function FeedPage() {
     return filtered;
   }, [posts, filters]);
 
+  // The server records the follow, so it counts toward achievements
   const handleFollowCommunity = async (communityId: string, isFollowing: boolean) => {
-    if (!user?.uid || !db) return;
+    if (!user?.uid) return;
 
-    try {
-      const userRef = doc(db, 'users', user.uid);
-      
-      if (isFollowing) {
-        await updateDoc(userRef, {
-          followedCommunities: arrayRemove(communityId)
-        });
-        setFollowedCommunities(prev => prev.filter(id => id !== communityId));
-      } else {
-        await updateDoc(userRef, {
-          followedCommunities: arrayUnion(communityId)
-        });
-        setFollowedCommunities(prev => [...prev, communityId]);
-      }
-    } catch (error) {
-      console.error('Error following/unfollowing community:', error);
+    const res = await setFollow({ communityId, follow: !isFollowing });
+    if (!res.ok) {
+      showToast(describeAckError(res.error), 'error');
+      return;
     }
+    setFollowedCommunities(prev => res.following
+      ? [...prev.filter(id => id !== communityId), communityId]
+      : prev.filter(id => id !== communityId));
   };
 
   if (loading && posts.length === 0) {
@@ -1,19 +1,29 @@
 import { useState, useEffect } from 'react';
 import { 
   collection, 
+  doc,
+  documentId,
   query, 
   orderBy, 
   limit, 
+  getCountFromServer,
+  getDoc,
   getDocs,
   where,
   startAfter,
-  DocumentSnapshot 
+  DocumentSnapshot,
+  Timestamp
 } from 'firebase/firestore';
-import type { QueryConstraint } from 'firebase/firestore';
+import type { DocumentData, QueryConstraint } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
+import { boardId } from '../../../../shared/leaderboards';
+import { seasonBoardId, type Season } from '../../../../shared/seasons';
 import { useAuth } from '../auth/AuthProvider';
+import { usePermissions } from '../../hooks/usePermissions';
+import SeasonControls from './SeasonControls';
 import { Link } from 'react-router-dom';
 
+// On period and community leaderboards the counts are the period's
 export interface LeaderboardUser {
   id: string;
   displayName: string;
@@ -32,9 +42,11 @@ export interface LeaderboardUser {
 }
 
 export interface LeaderboardFilters {
-  timeframe: 'all-time' | 'monthly' | 'weekly' | 'daily';
+  // 'season' needs a communityId, and shows seasonId
+  timeframe: 'all-time' | 'monthly' | 'weekly' | 'daily' | 'season';
   category: 'overall' | 'posts' | 'comments' | 'votes' | 'achievements';
   communityId?: string;
+  seasonId?: string;
 }
 
 interface LeaderboardSystemProps {
@@ -51,6 +63,7 @@ export default function LeaderboardSystem({
   className = '' 
 }: LeaderboardSystemProps) {
   const { user } = useAuth();
+  const { can } = usePermissions(communityId);
   const [leaderboardData, setLeaderboardData] = useState<LeaderboardUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState<LeaderboardFilters>({
@@ -61,11 +74,37 @@ export default function LeaderboardSystem({
   const [userRank, setUserRank] = useState<number | null>(null);
   const [lastDoc, setLastDoc] = useState<DocumentSnapshot | null>(null);
   const [hasMore, setHasMore] = useState(true);
+  // The community's seasons, newest first
+  const [seasons, setSeasons] = useState<Season[]>([]);
+
+  const season = filters.timeframe === 'season' ? seasons.find(s => s.id === filters.seasonId) ?? null : null;
+  // Ended seasons show their archived standings, which rank by points
+  const archived = filters.timeframe === 'season' && season?.status !== 'active';
+  const category = archived ? 'overall' : filters.category;
 
   useEffect(() => {
     loadLeaderboard();
   }, [filters]);
 
+  useEffect(() => {
+    if (!communityId) return;
+    let cancelled = false;
+    getDocs(query(collection(db, 'seasons'), where('communityId', '==', communityId), orderBy('startsAt', 'desc'), limit(20)))
+      .then(snapshot => {
+        if (!cancelled) setSeasons(snapshot.docs.map(d => toSeason(d.id, d.data())));
+      })
+      .catch(err => console.error('Error loading seasons:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [communityId]);
+
+  // A season just started or ended here: show it
+  const onSeasonChange = (changed: Season) => {
+    setSeasons(prev => [changed, ...prev.filter(s => s.id !== changed.id)]);
+    setFilters(prev => ({ ...prev, timeframe: 'season', seasonId: changed.id }));
+  };
+
   const loadLeaderboard = async (loadMore = false) => {
     if (!db) return;
 
@@ -77,35 +116,27 @@ export default function LeaderboardSystem({
         setUserRank(null);
       }
 
-      let q = collection(db, 'users');
-      
-      // Apply category-based ordering
-      const orderField = getOrderField(filters.category);
-      let constraints: QueryConstraint[] = [
+      if (archived) {
+        await loadStandings();
+        return;
+      }
+
+      const board = getBoardId(filters);
+      const orderField = getOrderField(filters.category, board !== null);
+      const constraints: QueryConstraint[] = [
         orderBy(orderField, 'desc'),
         limit(loadMore ? 20 : maxUsers)
       ];
-
-      // Add community filter if specified
-      if (filters.communityId) {
-        constraints.unshift(where('followedCommunities', 'array-contains', filters.communityId));
-      }
-
-      // Add timeframe constraints for non-all-time
-      if (filters.timeframe !== 'all-time') {
-        const timeConstraint = getTimeConstraint(filters.timeframe);
-        if (timeConstraint) {
-          constraints.unshift(where('lastActiveAt', '>=', timeConstraint));
-        }
-      }
+      // Boards only hold users who scored in the period; keep out those whose
+      // score went back to zero (a withdrawn upvote, say)
+      if (board) constraints.unshift(where(orderField, '>', 0));
 
       // Add pagination
       if (loadMore && lastDoc) {
         constraints.push(startAfter(lastDoc));
       }
 
-      const leaderboardQuery = query(q, ...constraints);
-      const snapshot = await getDocs(leaderboardQuery);
+      const snapshot = await getDocs(query(rankingSource(board), ...constraints));
       
       if (snapshot.empty) {
         setHasMore(false);
@@ -113,24 +144,12 @@ export default function LeaderboardSystem({
         return;
       }
 
+      const profiles = board ? await loadProfiles(snapshot.docs.map(d => d.id)) : null;
       const users = snapshot.docs.map((doc, index) => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          displayName: data.displayName || 'Anonymous',
-          photoURL: data.photoURL,
-          points: data.points || 0,
-          level: data.level || 1,
-          totalPosts: data.totalPosts || 0,
-          totalComments: data.totalComments || 0,
-          totalVotes: data.totalVotes || 0,
-          achievementsCount: data.achievements?.length || 0,
-          communitiesJoined: data.followedCommunities?.length || 0,
-          currentStreak: data.currentStreak || 0,
-          badges: data.badges || [],
-          lastActiveAt: data.lastActiveAt?.toDate() || new Date(),
-          rank: loadMore ? leaderboardData.length + index + 1 : index + 1
-        } as LeaderboardUser;
+        const rank = loadMore ? leaderboardData.length + index + 1 : index + 1;
+        return profiles
+          ? fromEntry(doc.id, doc.data(), profiles.get(doc.id), rank)
+          : fromUserDoc(doc.id, doc.data(), rank);
       });
 
       if (loadMore) {
@@ -160,47 +179,52 @@ export default function LeaderboardSystem({
     }
   };
 
+  // The final standings of an ended season, from the season itself
+  const loadStandings = async () => {
+    const standings = season?.standings ?? [];
+    const profiles = await loadProfiles(standings.map(s => s.uid));
+    const users = standings.map(s => fromEntry(s.uid, s, profiles.get(s.uid), s.rank));
+    setLeaderboardData(users);
+    setUserRank(users.find(u => u.id === user?.uid)?.rank ?? null);
+    setHasMore(false);
+    setLoading(false);
+  };
+
+  // Counts who scored more than the current user instead of reading the
+  // whole ranking
   const findUserRank = async () => {
     if (!user?.uid || !db) return;
 
     try {
-      const orderField = getOrderField(filters.category);
-      const userQuery = query(
-        collection(db, 'users'),
-        orderBy(orderField, 'desc')
-      );
-
-      const snapshot = await getDocs(userQuery);
-      const userIndex = snapshot.docs.findIndex(doc => doc.id === user.uid);
-      if (userIndex !== -1) {
-        setUserRank(userIndex + 1);
-      }
+      const board = getBoardId(filters);
+      const orderField = getOrderField(filters.category, board !== null);
+      const source = rankingSource(board);
+      const own = await getDoc(doc(source, user.uid));
+      const score = own.get(orderField);
+      if (typeof score !== 'number' || score <= 0) return;
+
+      const ahead = await getCountFromServer(query(source, where(orderField, '>', score)));
+      setUserRank(ahead.data().count + 1);
     } catch (error) {
       console.error('Error finding user rank:', error);
     }
   };
 
-  const getOrderField = (category: string): string => {
-    switch (category) {
-      case 'posts': return 'totalPosts';
-      case 'comments': return 'totalComments';
-      case 'votes': return 'totalVotes';
-      case 'achievements': return 'achievementsCount';
-      default: return 'points';
-    }
+  // The board a ranking is read from, or null for the global all-time
+  // ranking, which is the users collection (see shared/leaderboards.ts)
+  const getBoardId = ({ timeframe, communityId }: LeaderboardFilters): string | null => {
+    if (timeframe === 'season') return season && seasonBoardId(season.communityId, season.id);
+    if (timeframe === 'all-time' && !communityId) return null;
+    return boardId(communityId, timeframe, new Date());
   };
 
-  const getTimeConstraint = (timeframe: string): Date | null => {
-    const now = new Date();
-    switch (timeframe) {
-      case 'daily':
-        return new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      case 'weekly':
-        return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      case 'monthly':
-        return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      default:
-        return null;
+  const getOrderField = (category: string, onBoard: boolean): string => {
+    switch (category) {
+      case 'posts': return onBoard ? 'posts' : 'stats.totalPosts';
+      case 'comments': return onBoard ? 'comments' : 'stats.totalComments';
+      case 'votes': return onBoard ? 'votes' : 'stats.totalVotes';
+      case 'achievements': return onBoard ? 'achievements' : 'achievementsCount';
+      default: return 'points';
     }
   };
 
@@ -255,7 +279,9 @@ export default function LeaderboardSystem({
             <span>Leaderboard</span>
           </h2>
           <p className="text-gray-600 mt-1">
-            {getCategoryLabel(filters.category)} - {filters.timeframe.replace('-', ' ')}
+            {getCategoryLabel(category)} - {filters.timeframe === 'season'
+              ? season ? `${season.name}${archived ? ' (final standings)' : ''}` : 'no season yet'
+              : filters.timeframe.replace('-', ' ')}
           </p>
         </div>
         
@@ -274,9 +300,10 @@ export default function LeaderboardSystem({
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
               <select
-                value={filters.category}
+                value={category}
                 onChange={(e) => setFilters(prev => ({ ...prev, category: e.target.value as any }))}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={archived}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
               >
                 <option value="overall">Overall Points</option>
                 <option value="posts">Most Posts</option>
@@ -290,13 +317,17 @@ export default function LeaderboardSystem({
               <label className="block text-sm font-medium text-gray-700 mb-2">Timeframe</label>
               <select
                 value={filters.timeframe}
-                onChange={(e) => setFilters(prev => ({ ...prev, timeframe: e.target.value as any }))}
+                onChange={(e) => {
+                  const timeframe = e.target.value as LeaderboardFilters['timeframe'];
+                  setFilters(prev => ({ ...prev, timeframe, seasonId: prev.seasonId ?? seasons[0]?.id }));
+                }}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value="all-time">All Time</option>
                 <option value="monthly">This Month</option>
                 <option value="weekly">This Week</option>
                 <option value="daily">Today</option>
+                {communityId && <option value="season">Seasons</option>}
               </select>
             </div>
 
@@ -312,6 +343,40 @@ export default function LeaderboardSystem({
         </div>
       )}
 
+      {/* Seasons */}
+      {communityId && filters.timeframe === 'season' && (
+        <div className="space-y-3">
+          {can('content:moderate', { communityId }) && (
+            <SeasonControls
+              communityId={communityId}
+              active={seasons.find(s => s.status === 'active') ?? null}
+              onChange={onSeasonChange}
+            />
+          )}
+          {seasons.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto">
+              {seasons.map(s => (
+                <button
+                  key={s.id}
+                  onClick={() => setFilters(prev => ({ ...prev, seasonId: s.id }))}
+                  className={`flex-shrink-0 px-3 py-2 rounded-lg border text-left text-sm ${
+                    s.id === season?.id ? 'border-blue-300 bg-blue-50' : 'bg-white hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="font-medium text-gray-900">
+                    {s.name}
+                    {s.status === 'active' && <span className="ml-2 text-xs text-green-700">Live</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(s.startsAt).toLocaleDateString()} - {new Date(s.endsAt).toLocaleDateString()}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Leaderboard */}
       <div className="bg-white rounded-lg border">
         <div className="p-6">
@@ -321,7 +386,7 @@ export default function LeaderboardSystem({
                 key={leaderUser.id}
                 user={leaderUser}
                 rank={leaderUser.rank || index + 1}
-                category={filters.category}
+                category={category}
                 isCurrentUser={user?.uid === leaderUser.id}
               />
             ))}
@@ -351,6 +416,70 @@ export default function LeaderboardSystem({
   );
 }
 
+function iso(value: unknown): string {
+  return value instanceof Timestamp ? value.toDate().toISOString() : '';
+}
+
+function toSeason(id: string, data: DocumentData): Season {
+  return {
+    id,
+    communityId: data.communityId,
+    name: data.name || 'Season',
+    status: data.status === 'active' ? 'active' : 'ended',
+    startsAt: iso(data.startsAt),
+    endsAt: iso(data.endsAt),
+    topN: data.topN || 0,
+    startedBy: data.startedBy || '',
+    endedAt: data.endedAt ? iso(data.endedAt) : null,
+    standings: Array.isArray(data.standings) ? data.standings : null
+  };
+}
+
+function rankingSource(board: string | null) {
+  return board ? collection(db, 'leaderboards', board, 'entries') : collection(db, 'users');
+}
+
+// Profiles of the users on a board page, 30 per query (the 'in' limit)
+async function loadProfiles(ids: string[]): Promise<Map<string, DocumentData>> {
+  const profiles = new Map<string, DocumentData>();
+  for (let i = 0; i < ids.length; i += 30) {
+    const snapshot = await getDocs(query(collection(db, 'users'), where(documentId(), 'in', ids.slice(i, i + 30))));
+    snapshot.docs.forEach(d => profiles.set(d.id, d.data()));
+  }
+  return profiles;
+}
+
+function fromUserDoc(id: string, data: DocumentData, rank: number): LeaderboardUser {
+  return {
+    id,
+    displayName: data.displayName || 'Anonymous',
+    photoURL: data.photoURL,
+    points: data.points || 0,
+    level: data.level || 1,
+    totalPosts: data.stats?.totalPosts || 0,
+    totalComments: data.stats?.totalComments || 0,
+    totalVotes: data.stats?.totalVotes || 0,
+    achievementsCount: data.achievementsCount ?? data.achievements?.length ?? 0,
+    communitiesJoined: data.followedCommunities?.length || 0,
+    currentStreak: data.currentStreak || 0,
+    badges: data.badges || [],
+    lastActiveAt: data.lastActiveAt?.toDate() || new Date(),
+    rank
+  };
+}
+
+// A board entry, with the counts of its period in place of the totals
+function fromEntry(id: string, entry: DocumentData, profile: DocumentData | undefined, rank: number): LeaderboardUser {
+  return {
+    ...fromUserDoc(id, profile ?? {}, rank),
+    points: entry.points || 0,
+    totalPosts: entry.posts || 0,
+    totalComments: entry.comments || 0,
+    totalVotes: entry.votes || 0,
+    achievementsCount: entry.achievements || 0
+  };
+}
+
 // Leaderboard Item Component
 function LeaderboardItem({ 
   user, 
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { describeAckError, endSeason, startSeason } from '../../lib/socket';
+import {
+  DEFAULT_SEASON_TOP_N,
+  MAX_SEASON_TOP_N,
+  validateSeason,
+  type Season,
+  type SeasonInput,
+  type SeasonProblem,
+} from '../../../../shared/seasons';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// A datetime-local value (local time, no zone) four weeks from now
+function defaultEnd(): string {
+  const end = new Date(Date.now() + 28 * 86_400_000);
+  end.setMinutes(end.getMinutes() - end.getTimezoneOffset());
+  return end.toISOString().slice(0, 16);
+}
+
+interface SeasonControlsProps {
+  communityId: string;
+  active: Season | null;
+  onChange: (season: Season) => void;
+}
+
+// For community moderators, above a community's season leaderboard: start a
+// season when none is running, or end the running one early. The server
+// validates with the same validateSeason used here.
+export default function SeasonControls({ communityId, active, onChange }: SeasonControlsProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [endsAt, setEndsAt] = useState(defaultEnd);
+  const [topN, setTopN] = useState(DEFAULT_SEASON_TOP_N);
+  const [problems, setProblems] = useState<SeasonProblem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const problemFor = (field: keyof SeasonInput) => problems.find(p => p.field === field)?.message;
+
+  const start = async () => {
+    // datetime-local is local time; new Date() reads it as such
+    const end = new Date(endsAt);
+    const checked = validateSeason({ name, endsAt: isNaN(end.getTime()) ? '' : end.toISOString(), topN }, new Date());
+    if (!checked.ok) {
+      setProblems(checked.problems);
+      return;
+    }
+    setProblems([]);
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await startSeason({ communityId, season: checked.season });
+      if (!res.ok || !res.season) {
+        setError(describeAckError(res.error));
+        return;
+      }
+      setOpen(false);
+      setName('');
+      onChange(res.season);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const end = async (season: Season) => {
+    if (!window.confirm(`End "${season.name}" now? The top ${season.topN} are archived and get their badges.`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await endSeason({ seasonId: season.id });
+      if (!res.ok || !res.season) {
+        setError(describeAckError(res.error));
+        return;
+      }
+      onChange(res.season);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (active) {
+    return (
+      <div className="flex items-center justify-between gap-4 bg-white rounded-lg border p-4">
+        <div className="text-sm text-gray-600">
+          <span className="font-medium text-gray-900">{active.name}</span> ends {new Date(active.endsAt).toLocaleString()}
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+        <button
+          onClick={() => end(active)}
+          disabled={busy}
+          className="px-3 py-2 text-sm text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+        >
+          End season now
+        </button>
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <div className="flex justify-end">
+        <button
+          onClick={() => setOpen(true)}
+          className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+        >
+          Start a season
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="block md:col-span-2">
+          <span className="text-sm font-medium text-gray-700">Name</span>
+          <input value={name} onChange={e => setName(e.target.value)} placeholder="Spring season" className={inputClass} />
+          {problemFor('name') && <span className="text-xs text-red-600">{problemFor('name')}</span>}
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Ends</span>
+          <input type="datetime-local" value={endsAt} onChange={e => setEndsAt(e.target.value)} className={inputClass} />
+          {problemFor('endsAt') && <span className="text-xs text-red-600">{problemFor('endsAt')}</span>}
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Places archived</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_SEASON_TOP_N}
+            value={topN}
+            onChange={e => setTopN(Number(e.target.value))}
+            className={inputClass}
+          />
+          {problemFor('topN') && <span className="text-xs text-red-600">{problemFor('topN')}</span>}
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Points members earn in this community count from now until the season ends. The top places get a badge.
+      </p>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setOpen(false)} className="px-3 py-2 text-sm text-gray-700 hover:text-gray-900">
+          Cancel
+        </button>
+        <button
+          onClick={start}
+          disabled={busy}
+          className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          Start season
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -16,7 +16,7 @@ import { formatDistanceToNow } from 'date-fns';
 
 export interface Notification {
   id: string;
-  type: 'like' | 'comment' | 'mention' | 'follow' | 'achievement' | 'poll' | 'community' | 'system';
+  type: 'like' | 'comment' | 'mention' | 'follow' | 'achievement' | 'poll' | 'community' | 'system' | 'streak';
   title: string;
   message: string;
   recipientId: string;
@@ -395,6 +395,7 @@ function NotificationItem({
       follow: '👥',
       achievement: '🏆',
       poll: '📊',
+      streak: '🔥',
       community: '🏘️',
       system: '⚙️'
     };
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { doc, updateDoc, arrayUnion, increment } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import { useAuth } from '../auth/AuthProvider';
+import { setFollow } from '../../lib/socket';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface OnboardingStep {
@@ -480,18 +481,17 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
         bio: finalUserData.bio || '',
         interests: finalUserData.categories || [],
         experience: finalUserData.experience,
-        followedCommunities: finalUserData.communities || [],
         onboardingCompleted: true,
         onboardingCompletedAt: new Date(),
-        level: 1,
-        points: 100, // Welcome bonus
-        achievements: ['welcome'],
-        currentStreak: 1
+        level: 1
       });
 
-      // Join selected communities
+      // Join selected communities. Follows, points and achievements are
+      // written by the server.
       if (finalUserData.communities) {
         for (const communityId of finalUserData.communities) {
+          const res = await setFollow({ communityId, follow: true });
+          if (!res.ok) console.warn('Could not follow community', communityId, res.error);
           const communityRef = doc(db, 'communities', communityId);
           await updateDoc(communityRef, {
             members: arrayUnion(user.uid),
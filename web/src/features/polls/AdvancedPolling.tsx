@@ -1,55 +1,28 @@
 import { useState, useEffect } from 'react';
-import { 
-  collection, 
-  doc, 
-  addDoc, 
-  onSnapshot, 
-  query, 
-  where, 
-  orderBy, 
-  limit,
-  writeBatch,
-  arrayUnion
-} from 'firebase/firestore';
-import { db } from '../../lib/firebase';
 import { useAuth } from '../auth/AuthProvider';
-import { emitPoll, emitPollVote } from '../../lib/socket';
-
-export interface PollOption {
-  id: string;
-  text: string;
-  votes: number;
-  voters: string[];
-  color?: string;
-  imageUrl?: string;
-}
-
-export interface Poll {
-  id: string;
-  title: string;
-  description?: string;
-  options: PollOption[];
-  createdBy: string;
-  creatorName: string;
-  creatorPhotoURL?: string;
-  communityId?: string;
-  communityName?: string;
-  type: 'single' | 'multiple' | 'ranked' | 'open-ended';
-  settings: {
-    allowMultipleVotes: boolean;
-    showResults: 'always' | 'after-vote' | 'after-end';
-    allowAddOptions: boolean;
-    requireAuth: boolean;
-    maxVotesPerUser?: number;
-  };
-  status: 'draft' | 'active' | 'paused' | 'ended';
-  totalVotes: number;
-  uniqueVoters: string[];
-  createdAt: Date;
-  endsAt?: Date;
-  tags: string[];
-  isAnonymous: boolean;
-}
+import { useOwnVote } from '../../hooks/useOwnVote';
+import { usePermissions } from '../../hooks/usePermissions';
+import { RankedBallot, RunoffResults } from './RankedChoice';
+import { OpenEndedResponseForm, OpenEndedResults, PendingAnswers } from './OpenEnded';
+import { ResultsExport } from './ResultsExport';
+import { contentModerationService } from '../ai/ContentModeration';
+import {
+  addOption,
+  castRankedBallot,
+  castVote,
+  createPoll,
+  errorMessage,
+  isOpen,
+  resultsVisible,
+  subscribeToPolls,
+  submitResponse,
+  DEFAULT_SETTINGS,
+  MAX_OPTION_LENGTH,
+  type Poll,
+  type PollSettings
+} from './pollService';
+
+export type { Poll, PollOption } from './pollService';
 
 interface AdvancedPollingProps {
   communityId?: string;
@@ -69,68 +42,16 @@ export default function AdvancedPolling({
   const [filter, setFilter] = useState<'active' | 'ended' | 'all'>('active');
 
   useEffect(() => {
-    loadPolls();
-  }, [communityId, filter]);
-
-  const loadPolls = () => {
-    if (!db) return;
-
-    let pollQuery = query(collection(db, 'polls'));
-
-    // Apply filters
-    const constraints = [];
-    
-    if (communityId) {
-      constraints.push(where('communityId', '==', communityId));
-    }
-
-    if (filter !== 'all') {
-      constraints.push(where('status', '==', filter));
-    }
-
-    constraints.push(orderBy('createdAt', 'desc'));
-    constraints.push(limit(maxPolls));
-
-    if (constraints.length > 0) {
-      pollQuery = query(collection(db, 'polls'), ...constraints);
-    }
-
-    const unsubscribe = onSnapshot(pollQuery, (snapshot) => {
-      const pollsData = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          title: data.title,
-          description: data.description,
-          options: data.options || [],
-          createdBy: data.createdBy,
-          creatorName: data.creatorName,
-          creatorPhotoURL: data.creatorPhotoURL,
-          communityId: data.communityId,
-          communityName: data.communityName,
-          type: data.type || 'single',
-          settings: data.settings || {
-            allowMultipleVotes: false,
-            showResults: 'after-vote',
-            allowAddOptions: false,
-            requireAuth: true
-          },
-          status: data.status || 'active',
-          totalVotes: data.totalVotes || 0,
-          uniqueVoters: data.uniqueVoters || [],
-          createdAt: data.createdAt?.toDate() || new Date(),
-          endsAt: data.endsAt?.toDate(),
-          tags: data.tags || [],
-          isAnonymous: data.isAnonymous || false
-        } as Poll;
-      });
-
-      setPolls(pollsData);
-      setLoading(false);
-    });
-
-    return unsubscribe;
-  };
+    setLoading(true);
+    return subscribeToPolls(
+      { communityId, status: filter === 'all' ? undefined : filter, max: maxPolls },
+      (pollsData) => {
+        setPolls(pollsData);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+  }, [communityId, filter, maxPolls]);
 
   if (loading) {
     return (
@@ -224,72 +145,72 @@ export default function AdvancedPolling({
 
 interface PollCardProps {
   poll: Poll;
-  currentUser: any;
+  currentUser: { uid: string } | null;
 }
 
 function PollCard({ poll, currentUser }: PollCardProps) {
+  const uid = currentUser?.uid;
+  const { hasVoted } = useOwnVote(poll, uid);
+  const { can } = usePermissions(poll.communityId);
+  const open = isOpen(poll);
+  // The creator and community moderators export results and review answers
+  const canManage = !!uid && (uid === poll.createdBy || can('content:moderate', { communityId: poll.communityId }));
   const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
-  const [hasVoted, setHasVoted] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [isVoting, setIsVoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newOption, setNewOption] = useState('');
 
   useEffect(() => {
-    if (currentUser?.uid) {
-      const userHasVoted = poll.uniqueVoters.includes(currentUser.uid);
-      setHasVoted(userHasVoted);
-      setShowResults(
-        poll.settings.showResults === 'always' ||
-        (poll.settings.showResults === 'after-vote' && userHasVoted) ||
-        poll.status === 'ended'
-      );
-    }
-  }, [poll, currentUser]);
+    setShowResults(resultsVisible(poll, hasVoted));
+  }, [poll, hasVoted]);
 
-  const handleVote = async () => {
-    if (!currentUser?.uid || !db || selectedOptions.length === 0 || isVoting) return;
+  // Runs one vote through the poll service, which refuses closed polls and
+  // second votes; the reason is shown on the card
+  const vote = async (submit: (uid: string) => Promise<void>) => {
+    if (!uid || isVoting) return;
 
     setIsVoting(true);
+    setError(null);
     try {
-      const batch = writeBatch(db);
-      const pollRef = doc(db, 'polls', poll.id);
-
-      // Update poll with new votes
-      const updatedOptions = poll.options.map(option => {
-        if (selectedOptions.includes(option.id)) {
-          return {
-            ...option,
-            votes: option.votes + 1,
-            voters: [...option.voters, currentUser.uid]
-          };
-        }
-        return option;
-      });
-
-      batch.update(pollRef, {
-        options: updatedOptions,
-        totalVotes: poll.totalVotes + selectedOptions.length,
-        uniqueVoters: arrayUnion(currentUser.uid),
-        lastVoteAt: new Date()
-      });
-
-      await batch.commit();
-
-      // Emit real-time update
-      emitPollVote({
-        pollId: poll.id,
-        userId: currentUser.uid,
-        optionId: selectedOptions[0],
-        communityId: poll.communityId
-      });
-
-      setSelectedOptions([]);
-    } catch (error) {
-      console.error('Error voting on poll:', error);
+      await submit(uid);
+    } catch (err) {
+      console.error('Error voting on poll:', err);
+      setError(errorMessage(err));
     } finally {
       setIsVoting(false);
     }
   };
 
+  const handleVote = () => vote(async () => {
+    if (selectedOptions.length === 0) return;
+    await castVote(poll.id, selectedOptions);
+    setSelectedOptions([]);
+  });
+
+  const handleRankedVote = (ranking: string[]) => vote(uid => castRankedBallot(poll.id, uid, ranking));
+
+  // Answers content moderation rejects are refused here; the rest wait for
+  // the poll's creator or a moderator to approve them
+  const handleResponse = (text: string) => vote(async (uid) => {
+    const moderation = await contentModerationService.moderateContent(text, 'poll-response', uid, poll.communityId);
+    if (moderation.suggestedAction === 'reject' || moderation.suggestedAction === 'auto-delete') {
+      setError('Your answer was not accepted. Please rephrase it.');
+      return;
+    }
+
+    await submitResponse(poll.id, uid, text);
+    setError('Thanks! Your answer will appear once it has been reviewed.');
+  });
+
+  const handleAddOption = () => vote(async (uid) => {
+    if (!newOption.trim()) return;
+    await addOption(poll.id, uid, newOption);
+    setNewOption('');
+  });
+
+  const maxChoices = poll.type === 'single' ? 1 : poll.settings.maxVotesPerUser ?? poll.options.length;
+
   const handleOptionToggle = (optionId: string) => {
     if (poll.type === 'single') {
       setSelectedOptions([optionId]);
@@ -297,12 +218,13 @@ function PollCard({ poll, currentUser }: PollCardProps) {
       setSelectedOptions(prev => 
         prev.includes(optionId)
           ? prev.filter(id => id !== optionId)
-          : [...prev, optionId]
+          : prev.length < maxChoices ? [...prev, optionId] : prev
       );
     }
   };
 
   const getTimeRemaining = () => {
+    if (poll.status === 'draft' && poll.startsAt) return `Opens ${poll.startsAt.toLocaleString()}`;
     if (!poll.endsAt) return null;
     
     const now = new Date();
@@ -368,7 +290,7 @@ function PollCard({ poll, currentUser }: PollCardProps) {
                 {getTimeRemaining() && (
                   <>
                     <span>•</span>
-                    <span className={poll.status === 'ended' ? 'text-red-600' : 'text-green-600'}>
+                    <span className={open ? 'text-green-600' : 'text-red-600'}>
                       {getTimeRemaining()}
                     </span>
                   </>
@@ -389,6 +311,12 @@ function PollCard({ poll, currentUser }: PollCardProps) {
             <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded-full">
               {poll.type}
             </span>
+
+            {poll.isAnonymous && (
+              <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded-full">
+                anonymous
+              </span>
+            )}
           </div>
         </div>
 
@@ -412,70 +340,97 @@ function PollCard({ poll, currentUser }: PollCardProps) {
 
       {/* Poll Options */}
       <div className="p-6">
-        <div className="space-y-3">
-          {poll.options.map((option, index) => {
-            const percentage = poll.totalVotes > 0 ? (option.votes / poll.totalVotes) * 100 : 0;
-            const isSelected = selectedOptions.includes(option.id);
-
-            return (
-              <div key={option.id} className="relative">
-                {showResults ? (
-                  <div className={`relative overflow-hidden rounded-lg border p-4 ${
-                    isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
-                  }`}>
-                    <div
-                      className={`absolute inset-0 ${getResultColor(index)} opacity-20`}
-                      style={{ width: `${percentage}%` }}
-                    ></div>
-                    
-                    <div className="relative flex items-center justify-between">
-                      <span className="font-medium text-gray-900">{option.text}</span>
-                      <div className="flex items-center gap-2">
-                        <span className="text-sm text-gray-600">
-                          {option.votes} votes ({percentage.toFixed(1)}%)
-                        </span>
-                        {isSelected && <span className="text-blue-600">✓</span>}
+        {poll.type === 'ranked' ? (
+          showResults ? (
+            <RunoffResults pollId={poll.id} options={poll.options} final={poll.finalResults} />
+          ) : (
+            <RankedBallot
+              options={poll.options}
+              disabled={hasVoted || !open}
+              isSubmitting={isVoting}
+              onSubmit={handleRankedVote}
+            />
+          )
+        ) : poll.type === 'open-ended' ? (
+          <>
+            {showResults ? (
+              <OpenEndedResults poll={poll} uid={uid} />
+            ) : (
+              <OpenEndedResponseForm
+                disabled={hasVoted || !open}
+                isSubmitting={isVoting}
+                error={error}
+                onSubmit={handleResponse}
+              />
+            )}
+            {canManage && <PendingAnswers poll={poll} />}
+          </>
+        ) : (
+          <div className="space-y-3">
+            {poll.options.map((option, index) => {
+              const percentage = poll.totalVotes > 0 ? (option.votes / poll.totalVotes) * 100 : 0;
+              const isSelected = selectedOptions.includes(option.id);
+
+              return (
+                <div key={option.id} className="relative">
+                  {showResults ? (
+                    <div className={`relative overflow-hidden rounded-lg border p-4 ${
+                      isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                    }`}>
+                      <div
+                        className={`absolute inset-0 ${getResultColor(index)} opacity-20`}
+                        style={{ width: `${percentage}%` }}
+                      ></div>
+                      
+                      <div className="relative flex items-center justify-between">
+                        <span className="font-medium text-gray-900">{option.text}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-gray-600">
+                            {option.votes} votes ({percentage.toFixed(1)}%)
+                          </span>
+                          {isSelected && <span className="text-blue-600">✓</span>}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ) : (
-                  <button
-                    onClick={() => handleOptionToggle(option.id)}
-                    disabled={hasVoted || poll.status !== 'active'}
-                    className={`w-full text-left p-4 rounded-lg border transition-all ${
-                      isSelected 
-                        ? 'border-blue-500 bg-blue-50 text-blue-900' 
-                        : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                    } disabled:opacity-50 disabled:cursor-not-allowed`}
-                  >
-                    <div className="flex items-center justify-between">
-                      <span className="font-medium">{option.text}</span>
-                      <div className={`w-4 h-4 border-2 rounded ${
-                        poll.type === 'single' ? 'rounded-full' : 'rounded'
-                      } ${
+                  ) : (
+                    <button
+                      onClick={() => handleOptionToggle(option.id)}
+                      disabled={hasVoted || !open}
+                      className={`w-full text-left p-4 rounded-lg border transition-all ${
                         isSelected 
-                          ? 'border-blue-500 bg-blue-500' 
-                          : 'border-gray-300'
-                      }`}>
-                        {isSelected && (
-                          <div className={`w-full h-full bg-white ${
-                            poll.type === 'single' ? 'rounded-full' : 'rounded'
-                          }`} style={{ 
-                            transform: 'scale(0.5)',
-                            transformOrigin: 'center'
-                          }}></div>
-                        )}
+                          ? 'border-blue-500 bg-blue-50 text-blue-900' 
+                          : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                      } disabled:opacity-50 disabled:cursor-not-allowed`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{option.text}</span>
+                        <div className={`w-4 h-4 border-2 rounded ${
+                          poll.type === 'single' ? 'rounded-full' : 'rounded'
+                        } ${
+                          isSelected 
+                            ? 'border-blue-500 bg-blue-500' 
+                            : 'border-gray-300'
+                        }`}>
+                          {isSelected && (
+                            <div className={`w-full h-full bg-white ${
+                              poll.type === 'single' ? 'rounded-full' : 'rounded'
+                            }`} style={{ 
+                              transform: 'scale(0.5)',
+                              transformOrigin: 'center'
+                            }}></div>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  </button>
-                )}
-              </div>
-            );
-          })}
-        </div>
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
 
         {/* Vote Button */}
-        {!hasVoted && poll.status === 'active' && selectedOptions.length > 0 && (
+        {(poll.type === 'single' || poll.type === 'multiple') && !hasVoted && open && selectedOptions.length > 0 && (
           <button
             onClick={handleVote}
             disabled={isVoting}
@@ -485,8 +440,37 @@ function PollCard({ poll, currentUser }: PollCardProps) {
           </button>
         )}
 
+        {poll.type === 'multiple' && !hasVoted && open && poll.settings.maxVotesPerUser && (
+          <p className="mt-2 text-xs text-gray-500">Pick up to {maxChoices} options.</p>
+        )}
+
+        {/* Add Option */}
+        {uid && open && poll.type !== 'open-ended' && (poll.settings.allowAddOptions || uid === poll.createdBy) && (
+          <div className="flex gap-2 mt-4">
+            <input
+              type="text"
+              value={newOption}
+              onChange={(e) => setNewOption(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Suggest another option"
+              maxLength={MAX_OPTION_LENGTH}
+            />
+            <button
+              onClick={handleAddOption}
+              disabled={isVoting || !newOption.trim()}
+              className="px-3 py-2 text-blue-600 hover:text-blue-800 text-sm font-medium disabled:opacity-50"
+            >
+              + Add
+            </button>
+          </div>
+        )}
+
+        {error && poll.type !== 'open-ended' && (
+          <p className="mt-3 text-sm text-red-600">{error}</p>
+        )}
+
         {/* Results Toggle */}
-        {hasVoted && poll.settings.showResults === 'after-vote' && poll.status === 'active' && (
+        {hasVoted && poll.settings.showResults === 'after-vote' && open && (
           <button
             onClick={() => setShowResults(!showResults)}
             className="w-full mt-4 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
@@ -494,6 +478,8 @@ function PollCard({ poll, currentUser }: PollCardProps) {
             {showResults ? 'Hide Results' : 'Show Results'}
           </button>
         )}
+
+        {canManage && <ResultsExport poll={poll} />}
       </div>
     </div>
   );
@@ -511,17 +497,16 @@ function CreatePollModal({ communityId, onClose }: CreatePollModalProps) {
     description: '',
     type: 'single' as Poll['type'],
     options: ['', ''],
-    settings: {
-      allowMultipleVotes: false,
-      showResults: 'after-vote' as const,
-      allowAddOptions: false,
-      requireAuth: true
-    },
+    settings: DEFAULT_SETTINGS as PollSettings,
+    startsAt: '',
     endsIn: '',
     tags: '',
     isAnonymous: false
   });
   const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isOpenEnded = formData.type === 'open-ended';
+  const minOptions = isOpenEnded ? 0 : 2;
 
   const addOption = () => {
     setFormData(prev => ({
@@ -544,57 +529,45 @@ function CreatePollModal({ communityId, onClose }: CreatePollModalProps) {
     }));
   };
 
-  const createPoll = async () => {
-    if (!user?.uid || !db || isCreating) return;
+  const handleCreate = async () => {
+    if (!user?.uid || isCreating) return;
     
-    const validOptions = formData.options.filter(opt => opt.trim());
-    if (!formData.title.trim() || validOptions.length < 2) return;
+    // Open-ended polls start without options; answers can be promoted later
+    const validOptions = isOpenEnded ? [] : formData.options.filter(opt => opt.trim());
+    if (!formData.title.trim() || validOptions.length < minOptions) return;
 
     setIsCreating(true);
+    setError(null);
     try {
-      const pollOptions: PollOption[] = validOptions.map((text, index) => ({
-        id: `option_${Date.now()}_${index}`,
-        text: text.trim(),
-        votes: 0,
-        voters: []
-      }));
-
+      // A start in the future saves the poll as a draft; the duration runs from the start
+      const startsAt = formData.startsAt ? new Date(formData.startsAt) : undefined;
       let endsAt: Date | undefined;
       if (formData.endsIn) {
         const hours = parseInt(formData.endsIn);
-        endsAt = new Date(Date.now() + hours * 60 * 60 * 1000);
+        endsAt = new Date(Math.max(startsAt?.getTime() ?? 0, Date.now()) + hours * 60 * 60 * 1000);
       }
 
-      const pollData = {
-        title: formData.title.trim(),
-        description: formData.description.trim() || undefined,
-        options: pollOptions,
-        createdBy: user.uid,
-        creatorName: user.displayName || 'Anonymous',
-        creatorPhotoURL: user.photoURL,
-        communityId: communityId || undefined,
+      await createPoll(user, {
+        title: formData.title,
+        description: formData.description,
+        options: validOptions,
         type: formData.type,
-        settings: formData.settings,
-        status: 'active' as const,
-        totalVotes: 0,
-        uniqueVoters: [],
-        createdAt: new Date(),
+        settings: {
+          ...formData.settings,
+          allowMultipleVotes: formData.type === 'multiple',
+          maxVotesPerUser: formData.type === 'multiple' ? formData.settings.maxVotesPerUser : undefined
+        },
+        communityId,
+        startsAt,
         endsAt,
         tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
         isAnonymous: formData.isAnonymous
-      };
-
-      await addDoc(collection(db, 'polls'), pollData);
-      
-      // Emit real-time event
-      emitPoll({
-        ...pollData,
-        communityId: communityId
       });
 
       onClose();
-    } catch (error) {
-      console.error('Error creating poll:', error);
+    } catch (err) {
+      console.error('Error creating poll:', err);
+      setError(errorMessage(err));
     } finally {
       setIsCreating(false);
     }
@@ -658,46 +631,50 @@ function CreatePollModal({ communityId, onClose }: CreatePollModalProps) {
               >
                 <option value="single">Single Choice</option>
                 <option value="multiple">Multiple Choice</option>
+                <option value="ranked">Ranked Choice</option>
+                <option value="open-ended">Open-Ended</option>
               </select>
             </div>
 
             {/* Options */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Options * (minimum 2)
-              </label>
-              <div className="space-y-2">
-                {formData.options.map((option, index) => (
-                  <div key={index} className="flex gap-2">
-                    <input
-                      type="text"
-                      value={option}
-                      onChange={(e) => updateOption(index, e.target.value)}
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      placeholder={`Option ${index + 1}`}
-                      maxLength={100}
-                    />
-                    {formData.options.length > 2 && (
-                      <button
-                        onClick={() => removeOption(index)}
-                        className="px-3 py-2 text-red-600 hover:text-red-800"
-                      >
-                        🗑️
-                      </button>
-                    )}
-                  </div>
-                ))}
+            {!isOpenEnded && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Options * (minimum 2)
+                </label>
+                <div className="space-y-2">
+                  {formData.options.map((option, index) => (
+                    <div key={index} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={option}
+                        onChange={(e) => updateOption(index, e.target.value)}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder={`Option ${index + 1}`}
+                        maxLength={100}
+                      />
+                      {formData.options.length > 2 && (
+                        <button
+                          onClick={() => removeOption(index)}
+                          className="px-3 py-2 text-red-600 hover:text-red-800"
+                        >
+                          🗑️
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                
+                {formData.options.length < 8 && (
+                  <button
+                    onClick={addOption}
+                    className="mt-2 px-3 py-1 text-blue-600 hover:text-blue-800 text-sm font-medium"
+                  >
+                    + Add Option
+                  </button>
+                )}
               </div>
-              
-              {formData.options.length < 8 && (
-                <button
-                  onClick={addOption}
-                  className="mt-2 px-3 py-1 text-blue-600 hover:text-blue-800 text-sm font-medium"
-                >
-                  + Add Option
-                </button>
-              )}
-            </div>
+            )}
 
             {/* Settings */}
             <div className="grid grid-cols-2 gap-4">
@@ -733,6 +710,39 @@ function CreatePollModal({ communityId, onClose }: CreatePollModalProps) {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Starts At (optional)
+              </label>
+              <input
+                type="datetime-local"
+                value={formData.startsAt}
+                onChange={(e) => setFormData(prev => ({ ...prev, startsAt: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">The poll is saved as a draft and opens at this time.</p>
+            </div>
+
+            {formData.type === 'multiple' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Max Choices Per Voter (optional)
+                </label>
+                <input
+                  type="number"
+                  value={formData.settings.maxVotesPerUser ?? ''}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    settings: { ...prev.settings, maxVotesPerUser: e.target.value ? parseInt(e.target.value) : undefined }
+                  }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="No limit"
+                  min="1"
+                  max={formData.options.length}
+                />
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Tags (comma separated)
@@ -773,6 +783,10 @@ function CreatePollModal({ communityId, onClose }: CreatePollModalProps) {
             </div>
           </div>
 
+          {error && (
+            <p className="px-6 pb-4 text-sm text-red-600">{error}</p>
+          )}
+
           <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end gap-3">
             <button
               onClick={onClose}
@@ -781,11 +795,11 @@ function CreatePollModal({ communityId, onClose }: CreatePollModalProps) {
               Cancel
             </button>
             <button
-              onClick={createPoll}
+              onClick={handleCreate}
               disabled={
                 isCreating || 
                 !formData.title.trim() || 
-                formData.options.filter(opt => opt.trim()).length < 2
+                formData.options.filter(opt => opt.trim()).length < minOptions
               }
               className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useState } from 'react';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import { clusterAnswers, normalizeAnswer } from '../../../../shared/answer-clusters';
+import { addOption, reviewResponse, type Poll } from './pollService';
+
+export const MAX_RESPONSE_LENGTH = 200;
+
+// polls/{pollId}/responses/{id}: one free-text answer per voter, without a
+// uid in anonymous polls. Answers stay 'pending' and out of the results
+// until the poll's creator or a community moderator approves them.
+export interface OpenEndedResponseDoc {
+  uid?: string;
+  text: string;
+  status: 'approved' | 'pending';
+  createdAt: Date;
+}
+
+interface OpenEndedResponseFormProps {
+  disabled?: boolean;
+  isSubmitting?: boolean;
+  error?: string | null;
+  onSubmit: (text: string) => void;
+}
+
+export function OpenEndedResponseForm({ disabled = false, isSubmitting = false, error, onSubmit }: OpenEndedResponseFormProps) {
+  const [text, setText] = useState('');
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (text.trim()) onSubmit(text.trim());
+      }}
+    >
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={disabled || isSubmitting}
+        maxLength={MAX_RESPONSE_LENGTH}
+        rows={3}
+        placeholder={disabled ? 'Responses are closed' : 'Your answer...'}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      />
+      <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+        <span className="text-red-600">{error}</span>
+        <span>{text.length}/{MAX_RESPONSE_LENGTH}</span>
+      </div>
+      {!disabled && (
+        <button
+          type="submit"
+          disabled={isSubmitting || !text.trim()}
+          className="w-full mt-3 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium transition-colors"
+        >
+          {isSubmitting ? 'Submitting...' : 'Submit Answer'}
+        </button>
+      )}
+    </form>
+  );
+}
+
+interface OpenEndedResultsProps {
+  poll: Poll;
+  // The poll's creator may promote a cluster into a regular option
+  uid?: string;
+}
+
+// Approved answers grouped into clusters of near-duplicates, largest first.
+export function OpenEndedResults({ poll, uid }: OpenEndedResultsProps) {
+  const [answers, setAnswers] = useState<{ id: string; text: string }[]>([]);
+  const [error, setError] = useState(false);
+  const [promoting, setPromoting] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsub = onSnapshot(
+      query(collection(db, 'polls', poll.id, 'responses'), where('status', '==', 'approved')),
+      (snap) => {
+        setAnswers(snap.docs
+          .map(d => ({ id: d.id, text: String(d.get('text') ?? ''), at: d.get('createdAt')?.toMillis?.() ?? 0 }))
+          .sort((a, b) => a.at - b.at));
+        setError(false);
+      },
+      () => setError(true)
+    );
+    return () => unsub();
+  }, [poll.id]);
+
+  const clusters = useMemo(() => clusterAnswers(answers), [answers]);
+  const promoted = useMemo(() => new Set(poll.options.map(o => normalizeAnswer(o.text))), [poll.options]);
+
+  const canPromote = !!uid && uid === poll.createdBy;
+
+  const promote = async (key: string, label: string, count: number) => {
+    if (!uid || promoting) return;
+    setPromoting(key);
+    try {
+      await addOption(poll.id, uid, label, count);
+    } catch (err) {
+      console.error('Error promoting answer:', err);
+    } finally {
+      setPromoting(null);
+    }
+  };
+
+  if (error) return <p className="text-sm text-gray-500">Results are not available yet.</p>;
+  if (clusters.length === 0) return <p className="text-sm text-gray-500">No answers yet.</p>;
+
+  return (
+    <div className="space-y-2">
+      {clusters.map(cluster => {
+        const percentage = (cluster.count / answers.length) * 100;
+        const isOption = promoted.has(cluster.key);
+        return (
+          <div key={cluster.answerIds[0]} className="relative overflow-hidden rounded-lg border border-gray-200 p-3">
+            <div className="absolute inset-0 bg-blue-500 opacity-20" style={{ width: `${percentage}%` }}></div>
+            <div className="relative flex items-center justify-between gap-3">
+              <span className="font-medium text-gray-900">{cluster.label}</span>
+              <div className="flex items-center gap-2 text-sm text-gray-600 whitespace-nowrap">
+                <span>{cluster.count} ({percentage.toFixed(1)}%)</span>
+                {isOption ? (
+                  <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full">option</span>
+                ) : canPromote && (
+                  <button
+                    onClick={() => promote(cluster.key, cluster.label, cluster.count)}
+                    disabled={promoting !== null}
+                    className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    {promoting === cluster.key ? 'Adding...' : 'Make option'}
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Answers waiting for review, oldest first, for the poll's creator and
+// community moderators
+export function PendingAnswers({ poll }: { poll: Poll }) {
+  const [pending, setPending] = useState<{ id: string; text: string }[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsub = onSnapshot(
+      query(collection(db, 'polls', poll.id, 'responses'), where('status', '==', 'pending')),
+      (snap) => {
+        setPending(snap.docs
+          .map(d => ({ id: d.id, text: String(d.get('text') ?? ''), at: d.get('createdAt')?.toMillis?.() ?? 0 }))
+          .sort((a, b) => a.at - b.at));
+      },
+      (err) => console.error('Error loading pending answers:', err)
+    );
+    return () => unsub();
+  }, [poll.id]);
+
+  const review = async (id: string, approve: boolean) => {
+    if (busy) return;
+    setBusy(id);
+    try {
+      await reviewResponse(poll.id, id, approve);
+    } catch (err) {
+      console.error('Error reviewing answer:', err);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (pending.length === 0 || poll.finalResults) return null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      <h4 className="text-sm font-medium text-gray-700">Waiting for review ({pending.length})</h4>
+      {pending.map(answer => (
+        <div key={answer.id} className="flex items-center justify-between gap-3 rounded-lg border border-yellow-200 bg-yellow-50 p-3">
+          <span className="text-sm text-gray-900">{answer.text}</span>
+          <div className="flex gap-2 text-xs whitespace-nowrap">
+            <button
+              onClick={() => review(answer.id, true)}
+              disabled={busy !== null}
+              className="text-green-700 hover:text-green-900 disabled:opacity-50"
+            >
+              Approve
+            </button>
+            <button
+              onClick={() => review(answer.id, false)}
+              disabled={busy !== null}
+              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
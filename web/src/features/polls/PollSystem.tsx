@@ -1,43 +1,14 @@
 import { useState, useEffect } from 'react';
-import { 
-  collection, 
-  doc, 
-  addDoc, 
-  updateDoc, 
-  onSnapshot, 
-  query, 
-  where, 
-  orderBy, 
-  arrayUnion, 
-  increment,
-  Timestamp 
-} from 'firebase/firestore';
-import { db } from '../../lib/firebase';
 import { useAuth } from '../auth/AuthProvider';
-import { emitPoll, emitPollVote, onNewPoll, onPollVote } from '../../lib/socket';
-
-export interface PollOption {
-  id: string;
-  text: string;
-  votes: number;
-  voters: string[];
-}
-
-export interface Poll {
-  id: string;
-  communityId: string;
-  authorId: string;
-  question: string;
-  description?: string;
-  options: PollOption[];
-  totalVotes: number;
-  voters: string[];
-  allowMultiple: boolean;
-  expiresAt: Timestamp;
-  isActive: boolean;
-  createdAt: Timestamp;
-  updatedAt: Timestamp;
-}
+import { useOwnVote } from '../../hooks/useOwnVote';
+import {
+  castVote,
+  createPoll,
+  errorMessage,
+  isOpen,
+  subscribeToPolls,
+  type Poll
+} from './pollService';
 
 interface PollSystemProps {
   communityId: string;
@@ -50,65 +21,15 @@ export default function PollSystem({ communityId, className = '' }: PollSystemPr
   const [showCreatePoll, setShowCreatePoll] = useState(false);
   const [loading, setLoading] = useState(true);
 
+  // Quick single and multiple choice polls; ranked and open-ended polls
+  // are listed by AdvancedPolling
   useEffect(() => {
-    if (!db || !communityId) return;
-
-    const pollsQuery = query(
-      collection(db, 'polls'),
-      where('communityId', '==', communityId),
-      where('isActive', '==', true),
-      orderBy('createdAt', 'desc')
-    );
+    if (!communityId) return;
 
-    const unsubscribe = onSnapshot(pollsQuery, (snapshot) => {
-      const pollsData = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Poll[];
-      
-      setPolls(pollsData);
+    return subscribeToPolls({ communityId, status: 'active' }, (pollsData) => {
+      setPolls(pollsData.filter(poll => poll.type === 'single' || poll.type === 'multiple'));
       setLoading(false);
-    });
-
-    return unsubscribe;
-  }, [communityId]);
-
-  // Real-time poll updates via Socket.io
-  useEffect(() => {
-    const handleNewPoll = (poll: Poll) => {
-      if (poll.communityId === communityId) {
-        setPolls(prev => {
-          if (prev.some(p => p.id === poll.id)) return prev;
-          return [poll, ...prev];
-        });
-      }
-    };
-
-    const handlePollVote = (voteData: any) => {
-      setPolls(prev => prev.map(poll => {
-        if (poll.id === voteData.pollId) {
-          return {
-            ...poll,
-            options: poll.options.map(option => {
-              if (option.id === voteData.optionId) {
-                return {
-                  ...option,
-                  votes: voteData.newVotes,
-                  voters: voteData.voters
-                };
-              }
-              return option;
-            }),
-            totalVotes: voteData.totalVotes,
-            voters: voteData.allVoters
-          };
-        }
-        return poll;
-      }));
-    };
-
-    onNewPoll(handleNewPoll);
-    onPollVote(handlePollVote);
+    }, () => setLoading(false));
   }, [communityId]);
 
   if (loading) {
@@ -158,10 +79,7 @@ export default function PollSystem({ communityId, className = '' }: PollSystemPr
         <CreatePollModal
           communityId={communityId}
           onClose={() => setShowCreatePoll(false)}
-          onPollCreated={(poll) => {
-            setPolls(prev => [poll, ...prev]);
-            setShowCreatePoll(false);
-          }}
+          onPollCreated={() => setShowCreatePoll(false)}
         />
       )}
 
@@ -190,29 +108,25 @@ export default function PollSystem({ communityId, className = '' }: PollSystemPr
 // Poll Card Component
 function PollCard({ poll }: { poll: Poll }) {
   const { user } = useAuth();
+  const { hasVoted, optionIds: votedOptions } = useOwnVote(poll, user?.uid);
+  const allowMultiple = poll.type === 'multiple';
+  const maxChoices = allowMultiple ? poll.settings.maxVotesPerUser ?? poll.options.length : 1;
   const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
-  const [hasVoted, setHasVoted] = useState(false);
   const [isVoting, setIsVoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (user?.uid && poll.voters.includes(user.uid)) {
-      setHasVoted(true);
-      // Find which options the user voted for
-      const userOptions = poll.options.filter(option => 
-        option.voters.includes(user.uid)
-      ).map(option => option.id);
-      setSelectedOptions(userOptions);
-    }
-  }, [user, poll]);
+    if (hasVoted) setSelectedOptions(votedOptions);
+  }, [hasVoted, votedOptions]);
 
   const handleOptionToggle = (optionId: string) => {
     if (hasVoted || !user) return;
 
-    if (poll.allowMultiple) {
+    if (allowMultiple) {
       setSelectedOptions(prev => 
         prev.includes(optionId) 
           ? prev.filter(id => id !== optionId)
-          : [...prev, optionId]
+          : prev.length < maxChoices ? [...prev, optionId] : prev
       );
     } else {
       setSelectedOptions([optionId]);
@@ -220,55 +134,24 @@ function PollCard({ poll }: { poll: Poll }) {
   };
 
   const handleVote = async () => {
-    if (!user?.uid || !db || selectedOptions.length === 0 || hasVoted) return;
+    if (!user?.uid || selectedOptions.length === 0 || hasVoted) return;
 
     setIsVoting(true);
+    setError(null);
     try {
-      const pollRef = doc(db, 'polls', poll.id);
-      
-      // Update poll document
-      const updates: any = {
-        voters: arrayUnion(user.uid),
-        totalVotes: increment(1),
-        updatedAt: Timestamp.now()
-      };
-
-      // Update selected options
-      const optionUpdates: any = {};
-      selectedOptions.forEach(optionId => {
-        optionUpdates[`options`] = poll.options.map(option => {
-          if (option.id === optionId) {
-            return {
-              ...option,
-              votes: option.votes + 1,
-              voters: [...option.voters, user.uid]
-            };
-          }
-          return option;
-        });
-      });
-
-      await updateDoc(pollRef, { ...updates, ...optionUpdates });
-
-      // Emit real-time update
-      emitPollVote({
-        pollId: poll.id,
-        userId: user.uid,
-        optionId: selectedOptions[0], // For simplicity, just use first selected
-        communityId: poll.communityId
-      });
-
-      setHasVoted(true);
-    } catch (error) {
-      console.error('Error voting on poll:', error);
+      await castVote(poll.id, selectedOptions);
+    } catch (err) {
+      console.error('Error voting on poll:', err);
+      setError(errorMessage(err));
     } finally {
       setIsVoting(false);
     }
   };
 
   const getTimeRemaining = () => {
+    if (!poll.endsAt) return poll.status === 'active' ? 'No end date' : 'Closed';
     const now = Date.now();
-    const expiry = poll.expiresAt.toMillis();
+    const expiry = poll.endsAt.getTime();
     const remaining = expiry - now;
 
     if (remaining <= 0) return 'Expired';
@@ -282,7 +165,7 @@ function PollCard({ poll }: { poll: Poll }) {
     return `${minutes}m remaining`;
   };
 
-  const isExpired = poll.expiresAt.toMillis() <= Date.now();
+  const isExpired = !isOpen(poll);
 
   return (
     <div className="bg-white rounded-lg border hover:shadow-md transition-shadow">
@@ -291,7 +174,7 @@ function PollCard({ poll }: { poll: Poll }) {
         <div className="flex items-start justify-between mb-4">
           <div className="flex-1">
             <h3 className="text-lg font-semibold text-gray-900 mb-2">
-              {poll.question}
+              {poll.title}
             </h3>
             {poll.description && (
               <p className="text-gray-600 text-sm mb-3">{poll.description}</p>
@@ -309,9 +192,9 @@ function PollCard({ poll }: { poll: Poll }) {
                 </svg>
                 {getTimeRemaining()}
               </span>
-              {poll.allowMultiple && (
+              {allowMultiple && (
                 <span className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full text-xs">
-                  Multiple choice
+                  {poll.settings.maxVotesPerUser ? `Pick up to ${maxChoices}` : 'Multiple choice'}
                 </span>
               )}
             </div>
@@ -323,7 +206,7 @@ function PollCard({ poll }: { poll: Poll }) {
           {poll.options.map((option) => {
             const percentage = poll.totalVotes > 0 ? (option.votes / poll.totalVotes) * 100 : 0;
             const isSelected = selectedOptions.includes(option.id);
-            const userVoted = hasVoted && option.voters.includes(user?.uid || '');
+            const userVoted = hasVoted && votedOptions.includes(option.id);
 
             return (
               <div key={option.id} className="relative">
@@ -393,6 +276,10 @@ function PollCard({ poll }: { poll: Poll }) {
           </button>
         )}
 
+        {error && (
+          <p className="text-center text-sm text-red-600 mt-2">{error}</p>
+        )}
+
         {hasVoted && (
           <div className="flex items-center justify-center py-3 text-green-600 font-medium">
             <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -452,42 +339,23 @@ function CreatePollModal({
   };
 
   const handleCreate = async () => {
-    if (!user?.uid || !db || !question.trim()) return;
+    if (!user?.uid || !question.trim()) return;
 
     const validOptions = options.filter(opt => opt.trim());
     if (validOptions.length < 2) return;
 
     setIsCreating(true);
     try {
-      const now = Timestamp.now();
-      const expiresAt = Timestamp.fromMillis(now.toMillis() + duration * 60 * 60 * 1000);
-
-      const pollData = {
+      const newPoll = await createPoll(user, {
         communityId,
-        authorId: user.uid,
-        question: question.trim(),
-        description: description.trim() || null,
-        options: validOptions.map((text, index) => ({
-          id: `option_${index}`,
-          text: text.trim(),
-          votes: 0,
-          voters: []
-        })),
-        totalVotes: 0,
-        voters: [],
-        allowMultiple,
-        expiresAt,
-        isActive: true,
-        createdAt: now,
-        updatedAt: now
-      };
-
-      const docRef = await addDoc(collection(db, 'polls'), pollData);
-      const newPoll = { id: docRef.id, ...pollData } as Poll;
-
-      // Emit real-time update
-      emitPoll(newPoll);
-      
+        title: question,
+        description,
+        options: validOptions,
+        type: allowMultiple ? 'multiple' : 'single',
+        settings: { allowMultipleVotes: allowMultiple },
+        endsAt: new Date(Date.now() + duration * 60 * 60 * 1000)
+      });
+
       onPollCreated(newPoll);
     } catch (error) {
       console.error('Error creating poll:', error);
@@ -0,0 +1,196 @@
+import { useEffect, useMemo, useState } from 'react';
+import { collection, onSnapshot } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import { tallyInstantRunoff, type RunoffResult } from '../../../../shared/instant-runoff';
+import type { FinalResults } from '../../../../shared/poll-results';
+import type { PollOption } from './pollService';
+
+// polls/{pollId}/ballots/{id}: one ranked ballot per voter, most preferred
+// first. Anonymous polls store no uid.
+export interface RankedBallotDoc {
+  uid?: string;
+  ranking: string[];
+  createdAt: Date;
+}
+
+interface RankedBallotProps {
+  options: PollOption[];
+  disabled?: boolean;
+  isSubmitting?: boolean;
+  onSubmit: (ranking: string[]) => void;
+}
+
+// Drag options (or use the arrows) into order of preference.
+export function RankedBallot({ options, disabled = false, isSubmitting = false, onSubmit }: RankedBallotProps) {
+  const [ranking, setRanking] = useState<string[]>(() => options.map(o => o.id));
+  const [dragged, setDragged] = useState<string | null>(null);
+  const byId = useMemo(() => new Map(options.map(o => [o.id, o])), [options]);
+
+  // Keep the order the voter chose, appending options added since
+  useEffect(() => {
+    setRanking(prev => [
+      ...prev.filter(id => byId.has(id)),
+      ...options.map(o => o.id).filter(id => !prev.includes(id))
+    ]);
+  }, [options, byId]);
+
+  const moveTo = (id: string, index: number) => {
+    setRanking(prev => {
+      const next = prev.filter(x => x !== id);
+      next.splice(Math.max(0, Math.min(index, next.length)), 0, id);
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-3">Drag to rank the options, most preferred first.</p>
+      <ol className="space-y-2">
+        {ranking.map((id, index) => (
+          <li
+            key={id}
+            draggable={!disabled}
+            onDragStart={(e) => {
+              setDragged(id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragOver={(e) => {
+              if (!dragged) return;
+              e.preventDefault();
+              if (dragged !== id) moveTo(dragged, index);
+            }}
+            onDrop={(e) => e.preventDefault()}
+            onDragEnd={() => setDragged(null)}
+            className={`flex items-center gap-3 p-3 rounded-lg border bg-white select-none ${
+              disabled ? 'opacity-50' : 'cursor-move hover:border-gray-300'
+            } ${dragged === id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+          >
+            <span className="w-6 h-6 flex items-center justify-center rounded-full bg-blue-100 text-blue-700 text-sm font-semibold">
+              {index + 1}
+            </span>
+            <span className="flex-1 font-medium text-gray-900">{byId.get(id)?.text}</span>
+            <div className="flex gap-1">
+              <button
+                type="button"
+                onClick={() => moveTo(id, index - 1)}
+                disabled={disabled || index === 0}
+                className="px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                aria-label={`Move ${byId.get(id)?.text} up`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveTo(id, index + 1)}
+                disabled={disabled || index === ranking.length - 1}
+                className="px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                aria-label={`Move ${byId.get(id)?.text} down`}
+              >
+                ↓
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      {!disabled && (
+        <button
+          onClick={() => onSubmit(ranking)}
+          disabled={isSubmitting}
+          className="w-full mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium transition-colors"
+        >
+          {isSubmitting ? 'Voting...' : 'Submit Ranking'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface RunoffResultsProps {
+  pollId: string;
+  options: PollOption[];
+  // Frozen results of an ended poll, shown in place of a live tally
+  final?: FinalResults;
+}
+
+// Live instant-runoff results with a round-by-round elimination view.
+export function RunoffResults({ pollId, options, final }: RunoffResultsProps) {
+  const [rankings, setRankings] = useState<string[][]>([]);
+  const [error, setError] = useState(false);
+
+  const frozen = !!final?.rounds;
+
+  useEffect(() => {
+    if (!db || frozen) return;
+    const unsub = onSnapshot(
+      collection(db, 'polls', pollId, 'ballots'),
+      (snap) => {
+        setRankings(snap.docs.map(d => {
+          const ranking = d.get('ranking');
+          return Array.isArray(ranking) ? ranking.filter((x): x is string => typeof x === 'string') : [];
+        }));
+        setError(false);
+      },
+      () => setError(true)
+    );
+    return () => unsub();
+  }, [pollId, frozen]);
+
+  const optionIds = useMemo(() => options.map(o => o.id), [options]);
+  const result = useMemo<RunoffResult>(() => final?.rounds
+    ? { rounds: final.rounds, winner: final.winner, tied: final.tied, totalBallots: final.totalVotes }
+    : tallyInstantRunoff(optionIds, rankings), [final, optionIds, rankings]);
+  const label = (id: string) => options.find(o => o.id === id)?.text ?? id;
+
+  if (error) return <p className="text-sm text-gray-500">Results are not available yet.</p>;
+  if (result.totalBallots === 0) return <p className="text-sm text-gray-500">No ballots yet.</p>;
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 rounded-lg border border-green-200 bg-green-50">
+        {result.winner ? (
+          <span className="font-semibold text-green-800">🏆 {label(result.winner)}</span>
+        ) : (
+          <span className="font-semibold text-gray-800">Tie between {result.tied.map(label).join(', ')}</span>
+        )}
+        <span className="ml-2 text-sm text-gray-600">
+          after {result.rounds.length} round{result.rounds.length !== 1 ? 's' : ''} • {result.totalBallots} ballots
+        </span>
+      </div>
+
+      {result.rounds.map((round, r) => {
+        const active = result.totalBallots - round.exhausted;
+        const rows = Object.entries(round.counts).sort((a, b) => b[1] - a[1]);
+        return (
+          <div key={r}>
+            <div className="flex items-center justify-between text-sm font-medium text-gray-700 mb-2">
+              <span>Round {r + 1}</span>
+              {round.exhausted > 0 && (
+                <span className="text-xs text-gray-500">{round.exhausted} exhausted</span>
+              )}
+            </div>
+            <div className="space-y-1">
+              {rows.map(([id, count]) => {
+                const percentage = active > 0 ? (count / active) * 100 : 0;
+                const out = round.eliminated.includes(id);
+                return (
+                  <div key={id} className="relative overflow-hidden rounded border border-gray-200 px-3 py-2">
+                    <div
+                      className={`absolute inset-0 ${out ? 'bg-red-400' : 'bg-blue-500'} opacity-20`}
+                      style={{ width: `${percentage}%` }}
+                    ></div>
+                    <div className="relative flex items-center justify-between text-sm">
+                      <span className={out ? 'text-gray-500 line-through' : 'text-gray-900'}>{label(id)}</span>
+                      <span className="text-gray-600">
+                        {count} ({percentage.toFixed(1)}%){out && ' • eliminated'}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { errorMessage, exportPoll, type Poll } from './pollService';
+import type { ExportFormat } from '../../../../shared/poll-export';
+
+function embedUrl(pollId: string): string {
+  return `${window.location.origin}/embed/poll/${encodeURIComponent(pollId)}`;
+}
+
+function embedCode(poll: Poll): string {
+  const title = poll.title.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  return `<iframe src="${embedUrl(poll.id)}" title="${title}" width="100%" height="420" style="border:0" loading="lazy"></iframe>`;
+}
+
+interface ResultsExportProps {
+  poll: Poll;
+}
+
+// For the poll's creator and community moderators: download the results as
+// CSV or JSON, or copy an iframe that shows them live elsewhere. The export
+// lists voters unless the poll is anonymous.
+export function ResultsExport({ poll }: ResultsExportProps) {
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = async (format: ExportFormat) => {
+    if (busy) return;
+    setBusy(format);
+    setError(null);
+    try {
+      await exportPoll(poll.id, format);
+    } catch (err) {
+      console.error('Error exporting poll:', err);
+      setError(errorMessage(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const copyEmbed = async () => {
+    setError(null);
+    try {
+      await navigator.clipboard.writeText(embedCode(poll));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Could not copy the embed code.');
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-500">Results:</span>
+        {(['csv', 'json'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => download(format)}
+            disabled={busy !== null}
+            className="px-2 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {busy === format ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+          </button>
+        ))}
+        {poll.status !== 'draft' && (
+          <button
+            onClick={copyEmbed}
+            className="px-2 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            {copied ? 'Copied!' : 'Copy embed code'}
+          </button>
+        )}
+        {poll.isAnonymous && <span className="text-xs text-gray-500">Anonymous: exports list no voters.</span>}
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
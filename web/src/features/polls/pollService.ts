@@ -0,0 +1,468 @@
+import {
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  increment,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  type DocumentData,
+  type QueryConstraint,
+  type Unsubscribe
+} from 'firebase/firestore';
+import { auth, db } from '../../lib/firebase';
+import { castPollVote, emitPoll, emitPollVote, serverUrl } from '../../lib/socket';
+import { normalizeAnswer } from '../../../../shared/answer-clusters';
+import type { ExportFormat, PublicPollResults } from '../../../../shared/poll-export';
+import type { FinalResults } from '../../../../shared/poll-results';
+import type { AckError } from '../../../../shared/socket-events';
+
+// The one poll model. PollSystem (quick polls on a community page) and
+// AdvancedPolling (the full polls page) both read and write through here.
+//
+// Every vote creates the voter's private record, votes/{uid}, in the same
+// transaction that updates the poll's counts. The transaction reads that
+// record first, so a second vote from another tab is retried, sees it and
+// fails with 'already-voted'. Single and multiple choice votes run that
+// transaction on the realtime server (poll:cast), which owns the option
+// counts; ranked ballots and open-ended answers run it here, and
+// firestore.rules checks the same.
+//
+// Anonymous polls keep voters out of everything others can read: the poll
+// document holds only counts (no uniqueVoters, no option voters), ranked
+// ballots and open-ended answers carry no uid, and poll:vote is relayed
+// without the voter.
+//
+// Scheduled polls are created as drafts with a startsAt. The server's poll
+// scheduler (server/poll-scheduler.ts) opens them, closes polls past endsAt
+// and freezes the results of every ended poll into finalResults.
+//
+// Results leave the app through the same server: public results for the
+// /embed/poll/:pollId route, and CSV/JSON exports for the poll's creator and
+// community moderators (server/poll-routes.ts).
+
+export type PollType = 'single' | 'multiple' | 'ranked' | 'open-ended';
+export type PollStatus = 'draft' | 'active' | 'paused' | 'ended';
+
+export interface PollOption {
+  id: string;
+  text: string;
+  votes: number;
+  voters: string[];
+  color?: string;
+  imageUrl?: string;
+}
+
+export interface PollSettings {
+  allowMultipleVotes: boolean;
+  showResults: 'always' | 'after-vote' | 'after-end';
+  allowAddOptions: boolean;
+  requireAuth: boolean;
+  // Most options one voter may pick in a multiple-choice poll
+  maxVotesPerUser?: number;
+}
+
+export interface Poll {
+  id: string;
+  title: string;
+  description?: string;
+  options: PollOption[];
+  createdBy: string;
+  creatorName: string;
+  creatorPhotoURL?: string;
+  communityId?: string;
+  communityName?: string;
+  type: PollType;
+  settings: PollSettings;
+  status: PollStatus;
+  // Voters, not option votes: a multiple-choice ballot counts once
+  totalVotes: number;
+  // Empty for anonymous polls, as are the options' voters
+  uniqueVoters: string[];
+  createdAt: Date;
+  // Drafts with a startsAt are opened by the scheduler
+  startsAt?: Date;
+  endsAt?: Date;
+  endedAt?: Date;
+  // Set by the scheduler once the poll has ended; absent until then
+  finalResults?: FinalResults;
+  tags: string[];
+  isAnonymous: boolean;
+}
+
+export const MAX_OPTIONS = 20;
+export const MAX_OPTION_LENGTH = 100;
+
+export const DEFAULT_SETTINGS: PollSettings = {
+  allowMultipleVotes: false,
+  showResults: 'after-vote',
+  allowAddOptions: false,
+  requireAuth: true
+};
+
+export type PollErrorCode =
+  | 'not-found'
+  | 'closed'
+  | 'already-voted'
+  | 'invalid-choice'
+  | 'too-many-choices'
+  | 'options-locked'
+  | 'duplicate-option'
+  | 'too-many-options'
+  | 'not-allowed'
+  | 'no-access'
+  | 'unavailable';
+
+const MESSAGES: Record<PollErrorCode, string> = {
+  'not-found': 'This poll no longer exists.',
+  'closed': 'This poll is not accepting votes.',
+  'already-voted': 'You have already voted in this poll.',
+  'invalid-choice': 'That choice is not valid for this poll.',
+  'too-many-choices': 'You picked more options than this poll allows.',
+  'options-locked': 'Only the poll creator can add options.',
+  'duplicate-option': 'That option is already on the poll.',
+  'too-many-options': 'This poll has reached its option limit.',
+  'not-allowed': 'Only the poll creator or a community moderator can do that.',
+  'no-access': 'You don’t have access to this poll’s community.',
+  'unavailable': 'Polls are unavailable right now. Please try again.'
+};
+
+// Thrown by the voting functions; message is fit to show the user.
+export class PollError extends Error {
+  code: PollErrorCode;
+
+  constructor(code: PollErrorCode) {
+    super(MESSAGES[code]);
+    this.code = code;
+  }
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return value;
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return undefined;
+}
+
+export function toPoll(id: string, data: DocumentData): Poll {
+  return {
+    id,
+    title: data.title ?? '',
+    description: data.description ?? undefined,
+    options: data.options ?? [],
+    createdBy: data.createdBy,
+    creatorName: data.creatorName ?? 'Anonymous',
+    creatorPhotoURL: data.creatorPhotoURL ?? undefined,
+    communityId: data.communityId ?? undefined,
+    communityName: data.communityName ?? undefined,
+    type: data.type ?? 'single',
+    settings: { ...DEFAULT_SETTINGS, ...data.settings },
+    status: data.status ?? 'active',
+    totalVotes: data.totalVotes ?? 0,
+    uniqueVoters: data.uniqueVoters ?? [],
+    createdAt: toDate(data.createdAt) ?? new Date(),
+    startsAt: toDate(data.startsAt),
+    endsAt: toDate(data.endsAt),
+    endedAt: toDate(data.endedAt),
+    finalResults: data.finalResults ?? undefined,
+    tags: data.tags ?? [],
+    isAnonymous: data.isAnonymous ?? false
+  };
+}
+
+// Whether the poll takes votes right now. endsAt is checked here as well as
+// on status, so a poll past its end is closed before anything updates it.
+export function isOpen(poll: Poll, now = Date.now()): boolean {
+  return poll.status === 'active' && (!poll.endsAt || poll.endsAt.getTime() > now);
+}
+
+// hasVoted comes from useOwnVote: anonymous polls do not list their voters
+export function resultsVisible(poll: Poll, hasVoted: boolean): boolean {
+  return poll.settings.showResults === 'always'
+    || (poll.settings.showResults === 'after-vote' && hasVoted)
+    || !isOpen(poll);
+}
+
+export interface PollFilter {
+  communityId?: string;
+  status?: PollStatus;
+  max?: number;
+}
+
+export function subscribeToPolls(
+  filter: PollFilter,
+  onChange: (polls: Poll[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  const constraints: QueryConstraint[] = [];
+  if (filter.communityId) constraints.push(where('communityId', '==', filter.communityId));
+  if (filter.status) constraints.push(where('status', '==', filter.status));
+  constraints.push(orderBy('createdAt', 'desc'));
+  if (filter.max) constraints.push(limit(filter.max));
+
+  return onSnapshot(
+    query(collection(db, 'polls'), ...constraints),
+    (snapshot) => onChange(snapshot.docs.map(d => toPoll(d.id, d.data()))),
+    (error) => {
+      console.error('Error loading polls:', error);
+      onError?.(error);
+    }
+  );
+}
+
+export interface CreatePollInput {
+  title: string;
+  description?: string;
+  options: string[];
+  type: PollType;
+  settings?: Partial<PollSettings>;
+  communityId?: string;
+  // A future start creates the poll as a draft for the scheduler to open
+  startsAt?: Date;
+  endsAt?: Date;
+  tags?: string[];
+  isAnonymous?: boolean;
+}
+
+interface PollAuthor {
+  uid: string;
+  displayName?: string | null;
+  photoURL?: string | null;
+}
+
+export async function createPoll(author: PollAuthor, input: CreatePollInput): Promise<Poll> {
+  const options = input.options.map(text => text.trim()).filter(Boolean);
+  const minOptions = input.type === 'open-ended' ? 0 : 2;
+  if (!input.title.trim() || options.length < minOptions) throw new PollError('invalid-choice');
+  if (options.length > MAX_OPTIONS) throw new PollError('too-many-options');
+  const scheduled = !!input.startsAt && input.startsAt.getTime() > Date.now();
+  if (scheduled && input.endsAt && input.endsAt <= input.startsAt!) throw new PollError('invalid-choice');
+
+  // Firestore refuses undefined fields
+  const settings: PollSettings = { ...DEFAULT_SETTINGS, ...input.settings };
+  if (!settings.maxVotesPerUser || settings.maxVotesPerUser < 1) delete settings.maxVotesPerUser;
+
+  const ref = doc(collection(db, 'polls'));
+  const data = {
+    title: input.title.trim(),
+    description: input.description?.trim() || null,
+    options: options.map((text, index) => ({
+      id: `option_${Date.now()}_${index}`,
+      text: text.slice(0, MAX_OPTION_LENGTH),
+      votes: 0,
+      voters: []
+    })),
+    createdBy: author.uid,
+    creatorName: author.displayName || 'Anonymous',
+    creatorPhotoURL: author.photoURL || null,
+    communityId: input.communityId || null,
+    type: input.type,
+    settings,
+    status: scheduled ? 'draft' as const : 'active' as const,
+    totalVotes: 0,
+    uniqueVoters: [],
+    createdAt: serverTimestamp(),
+    startsAt: scheduled ? input.startsAt! : null,
+    endsAt: input.endsAt ?? null,
+    // Queried for by the scheduler, so written as null rather than left out
+    finalResults: null,
+    tags: input.tags ?? [],
+    isAnonymous: input.isAnonymous ?? false
+  };
+  await setDoc(ref, data);
+
+  const poll = toPoll(ref.id, { ...data, createdAt: new Date() });
+  // A draft is not announced; it shows up live once the scheduler opens it
+  if (!scheduled) emitPoll(poll.id);
+  return poll;
+}
+
+// polls/{pollId}/votes/{uid}, readable only by the voter. Single and
+// multiple choice votes keep their picks here. Ranked ballots and open-ended
+// answers are documents of their own (ballots/, responses/) so others can
+// tally them; ballotId points at the voter's one.
+export interface VoteRecord {
+  uid: string;
+  optionIds?: string[];
+  ballotId?: string;
+  createdAt?: Date;
+}
+
+function ballotCollection(type: PollType): 'ballots' | 'responses' {
+  return type === 'ranked' ? 'ballots' : 'responses';
+}
+
+export function subscribeToOwnVote(
+  pollId: string,
+  uid: string,
+  onChange: (vote: VoteRecord | null) => void
+): Unsubscribe {
+  return onSnapshot(
+    doc(db, 'polls', pollId, 'votes', uid),
+    (snap) => {
+      if (!snap.exists()) return onChange(null);
+      const data = snap.data();
+      onChange({ uid, optionIds: data.optionIds, ballotId: data.ballotId, createdAt: toDate(data.createdAt) });
+    },
+    (error) => console.error('Error loading vote:', error)
+  );
+}
+
+// The ranked ballot or open-ended answer, stored apart from the voter
+type Ballot = Record<string, unknown>;
+
+// The client's vote transaction, for ranked ballots and open-ended answers:
+// checks the poll is open and the caller has not voted, then writes the
+// voter's record, their ballot and the poll's counts. `build` validates the
+// choice against the freshly read poll.
+async function recordVote(pollId: string, uid: string, build: (poll: Poll) => Ballot): Promise<void> {
+  const pollRef = doc(db, 'polls', pollId);
+
+  await runTransaction(db, async (tx) => {
+    const snap = await tx.get(pollRef);
+    if (!snap.exists()) throw new PollError('not-found');
+    const poll = toPoll(snap.id, snap.data());
+    if (!isOpen(poll)) throw new PollError('closed');
+
+    const voteRef = doc(pollRef, 'votes', uid);
+    if ((await tx.get(voteRef)).exists()) throw new PollError('already-voted');
+
+    const ballot = build(poll);
+    const ballotRef = doc(collection(pollRef, ballotCollection(poll.type)));
+    tx.set(ballotRef, { ...ballot, ...(poll.isAnonymous ? {} : { uid }), createdAt: serverTimestamp() });
+    tx.set(voteRef, { uid, ballotId: ballotRef.id, createdAt: serverTimestamp() });
+    tx.update(pollRef, {
+      totalVotes: increment(1),
+      ...(poll.isAnonymous ? {} : { uniqueVoters: arrayUnion(uid) }),
+      lastVoteAt: serverTimestamp()
+    });
+  });
+}
+
+
+// What the server's poll:cast refusals mean here
+const CAST_ERRORS: Partial<Record<AckError, PollErrorCode>> = {
+  'not-found': 'not-found',
+  'closed': 'closed',
+  'already-voted': 'already-voted',
+  'too-many-choices': 'too-many-choices',
+  'invalid-payload': 'invalid-choice',
+  'forbidden': 'no-access',
+  'inactive': 'closed'
+};
+
+// Single or multiple choice, as the signed-in user
+export async function castVote(pollId: string, optionIds: string[]): Promise<void> {
+  const res = await castPollVote({ pollId, optionIds });
+  if (!res.ok) throw new PollError((res.error && CAST_ERRORS[res.error]) || 'unavailable');
+}
+
+// Ranked choice: results come from the ballots, see shared/instant-runoff.ts
+export async function castRankedBallot(pollId: string, uid: string, ranking: string[]): Promise<void> {
+  await recordVote(pollId, uid, (poll) => {
+    if (poll.type !== 'ranked') throw new PollError('invalid-choice');
+    const known = new Set(poll.options.map(o => o.id));
+    if (ranking.length === 0 || new Set(ranking).size !== ranking.length || ranking.some(id => !known.has(id))) {
+      throw new PollError('invalid-choice');
+    }
+    return { ranking };
+  });
+
+  // The server relays it from the ballot, without the voter when anonymous
+  emitPollVote({ pollId, optionId: ranking[0] });
+}
+
+// Open-ended: answers stay 'pending', out of the results, until the poll's
+// creator or a community moderator approves them (reviewResponse).
+// There is no option to broadcast, so no poll:vote is emitted.
+export async function submitResponse(pollId: string, uid: string, text: string): Promise<void> {
+  await recordVote(pollId, uid, (poll) => {
+    if (poll.type !== 'open-ended' || !text.trim()) throw new PollError('invalid-choice');
+    return { text: text.trim(), status: 'pending' };
+  });
+}
+
+// Approves a pending answer into the results, or removes it
+export async function reviewResponse(pollId: string, responseId: string, approve: boolean): Promise<void> {
+  const ref = doc(db, 'polls', pollId, 'responses', responseId);
+  if (approve) await updateDoc(ref, { status: 'approved' });
+  else await deleteDoc(ref);
+}
+
+// Voters may add options when the poll allows it; the creator always may,
+// which is how open-ended answers are promoted (with their answer count).
+export async function addOption(pollId: string, uid: string, text: string, votes = 0): Promise<PollOption> {
+  const pollRef = doc(db, 'polls', pollId);
+  const label = text.trim().slice(0, MAX_OPTION_LENGTH);
+  if (!label) throw new PollError('invalid-choice');
+
+  return runTransaction(db, async (tx) => {
+    const snap = await tx.get(pollRef);
+    if (!snap.exists()) throw new PollError('not-found');
+    const poll = toPoll(snap.id, snap.data());
+    const isCreator = poll.createdBy === uid;
+
+    if (!isCreator && !(poll.settings.allowAddOptions && isOpen(poll))) throw new PollError('options-locked');
+    if (poll.options.length >= MAX_OPTIONS) throw new PollError('too-many-options');
+    const key = normalizeAnswer(label);
+    if (poll.options.some(o => normalizeAnswer(o.text) === key)) throw new PollError('duplicate-option');
+
+    const option: PollOption = { id: `option_${Date.now()}`, text: label, votes: isCreator ? votes : 0, voters: [] };
+    tx.update(pollRef, { options: [...poll.options, option] });
+    return option;
+  });
+}
+
+function requestError(status: number): PollError {
+  if (status === 404) return new PollError('not-found');
+  if (status === 401 || status === 403) return new PollError('not-allowed');
+  return new PollError('unavailable');
+}
+
+// Readable without signing in; polls of private communities are not found
+export async function fetchPollResults(pollId: string): Promise<PublicPollResults> {
+  let res: Response;
+  try {
+    res = await fetch(`${serverUrl()}/polls/${encodeURIComponent(pollId)}/results`);
+  } catch {
+    throw new PollError('unavailable');
+  }
+  if (!res.ok) throw requestError(res.status);
+  return res.json();
+}
+
+// Downloads the poll's results; voters are listed unless the poll is anonymous
+export async function exportPoll(pollId: string, format: ExportFormat): Promise<void> {
+  const token = await auth.currentUser?.getIdToken();
+  if (!token) throw new PollError('not-allowed');
+
+  let res: Response;
+  try {
+    res = await fetch(`${serverUrl()}/polls/${encodeURIComponent(pollId)}/export?format=${format}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  } catch {
+    throw new PollError('unavailable');
+  }
+  if (!res.ok) throw requestError(res.status);
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `poll-${pollId}.${format}`;
+  link.click();
+  // The download reads the blob after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof PollError ? error.message : 'Something went wrong. Please try again.';
+}
@@ -1,7 +1,6 @@
 import { useState } from "react";
-import { auth, db } from "../../lib/firebase";
-import { addDoc, collection, serverTimestamp, updateDoc, doc, increment } from "firebase/firestore";
-import { emit } from "../../lib/socket";
+import { auth } from "../../lib/firebase";
+import { createPost, describeAckError } from "../../lib/socket";
 import RichTextEditor from "../editor/RichTextEditor";
 import MediaUploader, { type MediaItem } from "../uploads/MediaUploader";
 
@@ -20,29 +19,16 @@ export default function PostComposer({ communityId }: Props) {
     try {
       setSubmitting(true);
       setError(null);
-      if (!db) throw new Error("Firebase not configured");
       const user = auth?.currentUser;
       if (!user) throw new Error("You must be signed in to post");
-      const post = {
+      // The server writes the post, bumps the counters and broadcasts post:new
+      const res = await createPost({
         communityId,
-        authorId: user.uid,
         title: title.trim(),
         content: content, // HTML from RichTextEditor
         media,
-        createdAt: serverTimestamp(),
-        voteScore: 0,
-        reactions: {},
-      };
-      const ref = await addDoc(collection(db, "posts"), post);
-      // Update user stats
-      try {
-        await updateDoc(doc(db, 'users', user.uid), {
-          'stats.totalPosts': increment(1),
-          lastActiveAt: serverTimestamp(),
-        });
-      } catch {}
-      // Emit socket event for live update
-      emit("post:new", { id: ref.id, ...post });
+      });
+      if (!res.ok) throw new Error(describeAckError(res.error));
       setTitle("");
       setContent("");
       setMedia([]);
@@ -64,7 +50,7 @@ export default function PostComposer({ communityId }: Props) {
         onChange={(e) => setTitle(e.target.value)}
       />
       <div>
-        <RichTextEditor value={content} onChange={setContent} onSubmit={submit} communityId={communityId} />
+        <RichTextEditor value={content} onChange={setContent} onSubmit={submit} />
       </div>
       <div>
         <MediaUploader onAdd={(items) => setMedia((prev) => [...prev, ...items])} />
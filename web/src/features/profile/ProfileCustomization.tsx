@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { doc, updateDoc, getDoc } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { db, storage } from '../../lib/firebase';
+import { UPLOAD_LIMITS, validateFile } from '../../lib/upload';
 import { useAuth } from '../auth/AuthProvider';
 
 interface ProfileData {
@@ -130,14 +131,19 @@ export default function ProfileCustomization() {
 
   const handleAvatarChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      setAvatarFile(file);
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setAvatarPreview(e.target?.result as string);
-      };
-      reader.readAsDataURL(file);
+    if (!file) return;
+    // storage.rules rejects anything outside these limits anyway
+    const validation = validateFile(file, UPLOAD_LIMITS.avatars);
+    if (!validation.valid) {
+      alert(validation.error);
+      return;
     }
+    setAvatarFile(file);
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setAvatarPreview(e.target?.result as string);
+    };
+    reader.readAsDataURL(file);
   };
 
   const uploadAvatar = async () => {
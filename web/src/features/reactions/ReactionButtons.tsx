@@ -1,8 +1,6 @@
 import { useState, useEffect } from 'react'
-import { doc, updateDoc, arrayUnion, arrayRemove, increment } from 'firebase/firestore'
-import { db } from '../../lib/firebase'
 import { useAuth } from '../auth/AuthProvider'
-import { emitReaction, emitReactionRemove, onReactionRemoved } from '../../lib/socket'
+import { toggleReaction, emitReactionRemove, onReactionRemoved, offReactionRemoved } from '../../lib/socket'
 
 interface ReactionButtonsProps {
   targetId: string
@@ -43,8 +41,8 @@ export default function ReactionButtons({
         return next
       })
     }
-    const off = (onReactionRemoved as any)(handler)
-    return () => { try { off?.() } catch {} }
+    onReactionRemoved(handler)
+    return () => { try { offReactionRemoved(handler) } catch {} }
   }, [targetId, targetType])
 
   useEffect(() => {
@@ -57,20 +55,11 @@ export default function ReactionButtons({
     setIsReacting(emoji)
     
     try {
-      const collection = targetType === 'post' ? 'posts' : 'comments'
-      const docRef = doc(db, collection, targetId)
-      
       const currentReaction = currentReactions[emoji]
       const userHasReacted = currentReaction?.users?.includes(user.uid)
-      const action = userHasReacted ? 'remove' : 'add'
-      
-      let updates: any = {}
-      
-      if (action === 'add') {
-        updates[`reactions.${emoji}.count`] = increment(1)
-        updates[`reactions.${emoji}.users`] = arrayUnion(user.uid)
-        
-        // Optimistic update
+
+      // Optimistic update
+      if (!userHasReacted) {
         setCurrentReactions(prev => ({
           ...prev,
           [emoji]: {
@@ -79,10 +68,6 @@ export default function ReactionButtons({
           }
         }))
       } else {
-        updates[`reactions.${emoji}.count`] = increment(-1)
-        updates[`reactions.${emoji}.users`] = arrayRemove(user.uid)
-        
-        // Optimistic update
         setCurrentReactions(prev => {
           const newCount = Math.max(0, (prev[emoji]?.count || 0) - 1)
           const newUsers = prev[emoji]?.users?.filter(id => id !== user.uid) || []
@@ -92,19 +77,12 @@ export default function ReactionButtons({
           }
         })
       }
-      
-      await updateDoc(docRef, updates)
-      
-      // Emit real-time update
-      emitReaction({
-        targetId,
-        targetType,
-        userId: user.uid,
-        emoji,
-        action,
-        communityId
-      })
-      
+
+      // The server toggles the reaction and broadcasts reaction:update
+      const res = await toggleReaction({ targetId, targetType, emoji })
+      if (!res.ok) throw new Error(res.error)
+      if (res.reactions) setCurrentReactions(res.reactions)
+
     } catch (error) {
       console.error('Error reacting:', error)
       // Revert optimistic update
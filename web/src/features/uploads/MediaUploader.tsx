@@ -1,6 +1,5 @@
 import { useState } from "react";
-import { storage } from "../../lib/firebase";
-import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
+import { uploadFile } from "../../lib/upload";
 import { useToast } from "../../components/ToastProvider";
 
 export interface MediaItem { url: string; type: 'image' | 'gif' | 'video' }
@@ -15,15 +14,12 @@ export default function MediaUploader({ onAdd }: { onAdd: (items: MediaItem[]) =
     try {
       setUploading(true);
       setError(null);
-      if (!storage) throw new Error("Firebase storage not configured");
       const uploaded: MediaItem[] = [];
       for (const file of Array.from(files)) {
         const ext = file.name.split('.').pop()?.toLowerCase();
         const type: MediaItem['type'] = file.type.startsWith('video') ? 'video' : (ext === 'gif' ? 'gif' : 'image');
-        const path = `uploads/${Date.now()}-${Math.random().toString(36).slice(2)}-${file.name}`;
-        const r = ref(storage, path);
-        await uploadBytes(r, file);
-        const url = await getDownloadURL(r);
+        // Under posts/{uid}/, checked against the limits storage.rules enforces
+        const url = await uploadFile(file, 'posts');
         uploaded.push({ url, type });
       }
       onAdd(uploaded);
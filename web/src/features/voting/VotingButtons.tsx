@@ -1,8 +1,6 @@
 import { useState, useEffect } from 'react';
-import { doc, updateDoc, arrayUnion, arrayRemove, increment, getDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
 import { useAuth } from '../auth/AuthProvider';
-import { emitVote } from '../../lib/socket';
+import { castVote } from '../../lib/socket';
 
 interface VotingButtonsProps {
   targetId: string;
@@ -20,7 +18,6 @@ export default function VotingButtons({
   voteScore, 
   upvotes = [], 
   downvotes = [],
-  communityId,
   className = '' 
 }: VotingButtonsProps) {
   const { user } = useAuth();
@@ -40,84 +37,29 @@ export default function VotingButtons({
     if (!user?.uid || isVoting) return;
 
     setIsVoting(true);
-    
-    try {
-      const collection = targetType === 'post' ? 'posts' : 'comments';
-      const docRef = doc(db, collection, targetId);
-      
-      let voteChange = 0;
-      let updates: any = {};
-
-      // Remove previous vote if exists
-      if (userVote === 'up') {
-        updates.upvotes = arrayRemove(user.uid);
-        voteChange -= 1;
-      } else if (userVote === 'down') {
-        updates.downvotes = arrayRemove(user.uid);
-        voteChange += 1;
-      }
-
-      // Add new vote if different from current
-      if (userVote !== voteType) {
-        if (voteType === 'up') {
-          updates.upvotes = arrayUnion(user.uid);
-          voteChange += 1;
-        } else {
-          updates.downvotes = arrayUnion(user.uid);
-          voteChange -= 1;
-        }
-        setUserVote(voteType);
-      } else {
-        // Toggle off the vote
-        setUserVote(null);
-      }
 
-      // Update vote score
-      if (voteChange !== 0) {
-        updates.voteScore = increment(voteChange);
-      }
+    // Clicking the active direction again clears the vote
+    const nextVote = userVote === voteType ? null : voteType;
+    const value = (v: 'up' | 'down' | null) => (v === 'up' ? 1 : v === 'down' ? -1 : 0);
+    const previousVote = userVote;
+    const previousScore = currentVoteScore;
 
-      await updateDoc(docRef, updates);
-      // Only count when adding a vote or switching direction (not when toggling off)
-      const shouldCount = userVote !== voteType;
-      try {
-        await updateDoc(doc(db, 'users', user.uid), shouldCount ? {
-          'stats.totalVotes': increment(1),
-          lastActiveAt: serverTimestamp(),
-        } : {
-          lastActiveAt: serverTimestamp(),
-        });
-      } catch {}
-
-      setCurrentVoteScore(prev => prev + voteChange);
-
-      // Emit real-time update
-      emitVote({
-        targetId,
-        targetType,
-        userId: user.uid,
-        voteType: userVote !== voteType ? voteType : null,
-        newScore: currentVoteScore + voteChange,
-        communityId
-      });
-
-      // Award points to post/comment author
-      if (userVote !== voteType && voteType === 'up') {
-        const targetDoc = await getDoc(docRef);
-        const authorId = targetDoc.data()?.authorId;
-        if (authorId && authorId !== user.uid) {
-          const authorRef = doc(db, 'users', authorId);
-          await updateDoc(authorRef, {
-            points: increment(targetType === 'post' ? 10 : 5)
-          });
-        }
-      }
+    // Optimistic update
+    setUserVote(nextVote);
+    setCurrentVoteScore(prev => prev + value(nextVote) - value(previousVote));
 
+    try {
+      // The server updates the score, the voter's stats and the author's points,
+      // then broadcasts vote:update to the community room
+      const res = await castVote({ targetId, targetType, voteType: nextVote });
+      if (!res.ok) throw new Error(res.error);
+      setUserVote(res.voteType ?? null);
+      if (typeof res.newScore === 'number') setCurrentVoteScore(res.newScore);
     } catch (error) {
       console.error('Error voting:', error);
       // Revert optimistic update
-      setCurrentVoteScore(voteScore);
-      setUserVote(userVote);
+      setCurrentVoteScore(previousScore);
+      setUserVote(previousVote);
     } finally {
       setIsVoting(false);
     }
@@ -1,6 +1,13 @@
 import { useEffect, useState } from "react";
 import { joinCommunity, joinCommunityAck, leaveCommunity, onRoomError, offRoomError } from "../lib/socket";
 
+// Error codes sent by the server's room:join ack and room:error event
+const JOIN_ERROR_MESSAGES: Record<string, string> = {
+  "join-denied": "You don’t have access to this community.",
+  "not-found": "This community doesn’t exist.",
+  "inactive": "This community is no longer active.",
+};
+
 export function useCommunityRoom(communityId: string | undefined) {
   const [joinError, setJoinError] = useState<string | null>(null);
   const [joined, setJoined] = useState(false);
@@ -16,7 +23,7 @@ export function useCommunityRoom(communityId: string | undefined) {
       .then((res) => {
         if (!mounted) return;
         if (res.ok) setJoined(true);
-        else if (res.error === "join-denied") setJoinError("You don’t have access to this community.");
+        else if (res.error && JOIN_ERROR_MESSAGES[res.error]) setJoinError(JOIN_ERROR_MESSAGES[res.error]);
       })
       .catch(() => {
         // Fallback to fire-and-forget join
@@ -24,8 +31,8 @@ export function useCommunityRoom(communityId: string | undefined) {
       });
 
     const roomErrHandler = (err: any) => {
-      if (err?.communityId === communityId && err?.type === "join-denied") {
-        setJoinError("You don’t have access to this community.");
+      if (err?.communityId === communityId && JOIN_ERROR_MESSAGES[err?.type]) {
+        setJoinError(JOIN_ERROR_MESSAGES[err.type]);
         setJoined(false);
       }
     };
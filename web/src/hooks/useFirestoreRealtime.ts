@@ -15,13 +15,11 @@ import {
 type DocumentData = Record<string, any>;
 import { db } from '../lib/firebase';
 import { useRealTimeUpdates } from './useRealTimeUpdates';
-import { emitNewPost, emitNewComment } from '../lib/socket';
 
 export interface FirestoreRealtimeOptions {
   collection: string;
   constraints?: any[];
   enableRealTimeUpdates?: boolean;
-  emitSocketEvents?: boolean;
   communityId?: string;
 }
 
@@ -40,12 +38,16 @@ export function useFirestoreRealtime<T extends DocumentData>(
   const [error, setError] = useState<Error | null>(null);
   const lastSnapshotRef = useRef<QuerySnapshot | null>(null);
   const initialLoadedRef = useRef(false);
+  const [reloadKey, setReloadKey] = useState(0);
 
   const { addRealtimeItem, updateRealtimeItem } = useRealTimeUpdates(options.communityId);
 
+  // Re-subscribes, which re-reads the whole query
   const refresh = useCallback(() => {
     setLoading(true);
     setError(null);
+    initialLoadedRef.current = false;
+    setReloadKey((key) => key + 1);
   }, []);
 
   useEffect(() => {
@@ -100,15 +102,6 @@ export function useFirestoreRealtime<T extends DocumentData>(
                     type: getDocumentType(options.collection),
                     data: docData
                   }, 'slideIn');
-
-                  // Emit socket events for new content
-                  if (options.emitSocketEvents) {
-                    if (options.collection === 'posts') {
-                      emitNewPost({ ...docData, communityId: options.communityId });
-                    } else if (options.collection === 'comments') {
-                      emitNewComment({ ...docData, communityId: options.communityId });
-                    }
-                  }
                   break;
 
                 case 'modified':
@@ -151,10 +144,10 @@ export function useFirestoreRealtime<T extends DocumentData>(
     options.collection,
     options.constraints,
     options.enableRealTimeUpdates,
-    options.emitSocketEvents,
     options.communityId,
     addRealtimeItem,
-    updateRealtimeItem
+    updateRealtimeItem,
+    reloadKey
   ]);
 
   return {
@@ -244,7 +237,6 @@ export const queryBuilders = {
       limit(20)
     ],
     enableRealTimeUpdates: true,
-    emitSocketEvents: true,
     communityId
   }),
 
@@ -257,7 +249,6 @@ export const queryBuilders = {
       orderBy('createdAt', 'desc')
     ],
     enableRealTimeUpdates: true,
-    emitSocketEvents: true,
     communityId
   }),
 
@@ -279,8 +270,7 @@ export const queryBuilders = {
         orderBy(orderField, 'desc'),
         limit(30)
       ],
-      enableRealTimeUpdates: true,
-      emitSocketEvents: false
+      enableRealTimeUpdates: true
     };
   },
 
@@ -302,8 +292,7 @@ export const queryBuilders = {
         orderBy('voteScore', 'desc'),
         limit(20)
       ],
-      enableRealTimeUpdates: true,
-      emitSocketEvents: false
+      enableRealTimeUpdates: true
     };
   },
 
@@ -317,7 +306,6 @@ export const queryBuilders = {
       orderBy('expiresAt', 'asc')
     ],
     enableRealTimeUpdates: true,
-    emitSocketEvents: true,
     communityId
   })
 };
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { useEffect, useMemo, useState } from "react";
+import { subscribeToOwnVote, type Poll, type VoteRecord } from "../features/polls/pollService";
+
+// Whether uid has voted in poll, and on which options. Public polls answer
+// from the poll document; anonymous polls do not list their voters, so this
+// watches the caller's private votes/{uid} record instead.
+export function useOwnVote(poll: Poll, uid: string | undefined) {
+  const [record, setRecord] = useState<VoteRecord | null>(null);
+  const anonymous = poll.isAnonymous;
+
+  useEffect(() => {
+    setRecord(null);
+    if (!anonymous || !uid) return;
+    return subscribeToOwnVote(poll.id, uid, setRecord);
+  }, [poll.id, uid, anonymous]);
+
+  return useMemo(() => {
+    if (!uid) return { hasVoted: false, optionIds: [] as string[] };
+    if (anonymous) return { hasVoted: record !== null, optionIds: record?.optionIds ?? [] };
+    return {
+      hasVoted: poll.uniqueVoters.includes(uid),
+      optionIds: poll.options.filter((o) => o.voters.includes(uid)).map((o) => o.id),
+    };
+  }, [uid, anonymous, record, poll.uniqueVoters, poll.options]);
+}
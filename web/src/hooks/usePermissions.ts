@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { onSnapshot } from "firebase/firestore";
+import { useAuth } from "../features/auth/AuthProvider";
+import { db } from "../lib/firebase";
+import {
+  can,
+  fetchGlobalRole,
+  isCommunityRole,
+  memberDoc,
+  type Action,
+  type Actor,
+  type CommunityRole,
+  type GlobalRole,
+  type Resource,
+} from "../lib/permissions";
+
+// The signed-in user as a permission actor: their global role plus live
+// roles in the given communities. `can` is false for everything while
+// signed out; `loading` stays true until every role has been read once.
+export function usePermissions(...communityIds: (string | undefined)[]) {
+  const { user } = useAuth();
+  const [globalRole, setGlobalRole] = useState<GlobalRole | null | undefined>(undefined);
+  const [communityRoles, setCommunityRoles] = useState<Record<string, CommunityRole | undefined>>({});
+  const [pending, setPending] = useState(0);
+  // Stable across renders that pass the same communities in any order
+  const key = [...new Set(communityIds.filter((id): id is string => Boolean(id)))].sort().join(",");
+
+  useEffect(() => {
+    if (!user) {
+      setGlobalRole(null);
+      return;
+    }
+    let cancelled = false;
+    setGlobalRole(undefined);
+    fetchGlobalRole(user)
+      .then((role) => { if (!cancelled) setGlobalRole(role); })
+      .catch(() => { if (!cancelled) setGlobalRole(null); });
+    return () => { cancelled = true; };
+  }, [user]);
+
+  useEffect(() => {
+    setCommunityRoles({});
+    const uid = user?.uid;
+    if (!uid || !db || !key) {
+      setPending(0);
+      return;
+    }
+    const ids = key.split(",");
+    const seen = new Set<string>();
+    setPending(ids.length);
+    const settle = (communityId: string, role: CommunityRole | undefined) => {
+      setCommunityRoles((prev) => ({ ...prev, [communityId]: role }));
+      if (seen.has(communityId)) return;
+      seen.add(communityId);
+      setPending((n) => n - 1);
+    };
+    const unsubs = ids.map((communityId) =>
+      onSnapshot(
+        memberDoc(communityId, uid),
+        (snap) => {
+          const role = snap.get("role");
+          settle(communityId, isCommunityRole(role) ? role : undefined);
+        },
+        () => settle(communityId, undefined)
+      )
+    );
+    return () => unsubs.forEach((unsub) => unsub());
+  }, [user?.uid, key]);
+
+  const actor = useMemo<Actor | null>(
+    () => (user ? { uid: user.uid, role: globalRole ?? null, communityRoles } : null),
+    [user, globalRole, communityRoles]
+  );
+  const check = useCallback((action: Action, resource?: Resource) => can(actor, action, resource), [actor]);
+
+  return { actor, can: check, loading: Boolean(user) && (globalRole === undefined || pending > 0) };
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import {
+  getSocket,
+  onPresenceSnapshot,
+  offPresenceSnapshot,
+  onPresenceJoin,
+  offPresenceJoin,
+  onPresenceLeave,
+  offPresenceLeave,
+  requestPresence,
+  sendPresenceHeartbeat,
+  type PresenceMember,
+} from "../lib/socket";
+
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// Live member list for a community room. Pair with useCommunityRoom, which
+// performs the join; the server answers the join with a presence:snapshot.
+export function usePresence(communityId: string | undefined) {
+  const [members, setMembers] = useState<PresenceMember[]>([]);
+
+  useEffect(() => {
+    if (!communityId) return;
+    setMembers([]);
+
+    const snapshotHandler = (data: { communityId: string; members: PresenceMember[] }) => {
+      if (data.communityId === communityId) setMembers(data.members);
+    };
+    const joinHandler = (data: { communityId: string; member: PresenceMember }) => {
+      if (data.communityId !== communityId) return;
+      setMembers((prev) => [...prev.filter((m) => m.uid !== data.member.uid), data.member]);
+    };
+    const leaveHandler = (data: { communityId: string; uid: string }) => {
+      if (data.communityId !== communityId) return;
+      setMembers((prev) => prev.filter((m) => m.uid !== data.uid));
+    };
+
+    onPresenceSnapshot(snapshotHandler);
+    onPresenceJoin(joinHandler);
+    onPresenceLeave(leaveHandler);
+
+    // In case the room was joined before this hook mounted
+    requestPresence(communityId).then((res) => {
+      if (res.ok && res.members) setMembers(res.members);
+    });
+
+    const heartbeat = setInterval(() => {
+      if (getSocket().connected) sendPresenceHeartbeat();
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(heartbeat);
+      offPresenceSnapshot(snapshotHandler);
+      offPresenceJoin(joinHandler);
+      offPresenceLeave(leaveHandler);
+    };
+  }, [communityId]);
+
+  return { members, onlineCount: members.length } as const;
+}
@@ -0,0 +1,25 @@
+import { useEffect } from "react";
+import { useToast } from "../components/ToastProvider";
+import { onRateLimited, offRateLimited, type RateLimitNotice } from "../lib/socket";
+
+// A burst of rejected events should produce one toast, not one per event.
+const TOAST_COOLDOWN_MS = 5000;
+
+// Shows a toast whenever the realtime server rate-limits this user.
+// Mounted once, inside ToastProvider.
+export function useRateLimitToasts() {
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    let lastShown = 0;
+    const handler = (notice: RateLimitNotice) => {
+      const now = Date.now();
+      if (now - lastShown < TOAST_COOLDOWN_MS) return;
+      lastShown = now;
+      const wait = notice.retryAfterMs ? ` Try again in ${Math.ceil(notice.retryAfterMs / 1000)}s.` : "";
+      showToast(`You’re doing that too often.${wait}`, "warning");
+    };
+    onRateLimited(handler);
+    return () => offRateLimited(handler);
+  }, [showToast]);
+}
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { auth } from "../lib/firebase";
+import {
+  getSocket,
+  watchPost,
+  unwatchPost,
+  emitTypingStart,
+  emitTypingStop,
+  onTypingStart,
+  offTypingStart,
+  onTypingStop,
+  offTypingStop,
+  type TypingUser,
+} from "../lib/socket";
+
+// Matches the server's debounce window: re-announcing more often is dropped.
+const RESEND_MS = 2000;
+// Stop announcing once the user pauses for this long.
+const IDLE_MS = 4000;
+
+export function typingLabel(names: string[]): string | null {
+  if (names.length === 0) return null;
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  const others = names.length - 1;
+  return `${names[0]} and ${others} others are typing…`;
+}
+
+// Who else is typing in a post's comment thread. Watches the post:{postId}
+// sub-room (again after every reconnect) and drops entries whose expiry passes
+// without a refresh, in case a typing:stop is lost.
+export function usePostTyping(postId: string | undefined) {
+  const [typers, setTypers] = useState<TypingUser[]>([]);
+
+  useEffect(() => {
+    if (!postId) return;
+    setTypers([]);
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const remove = (uid: string) => {
+      clearTimeout(timers.get(uid));
+      timers.delete(uid);
+      setTypers((prev) => prev.filter((t) => t.uid !== uid));
+    };
+    const startHandler = (data: TypingUser) => {
+      if (data.postId !== postId || data.uid === auth?.currentUser?.uid) return;
+      clearTimeout(timers.get(data.uid));
+      timers.set(data.uid, setTimeout(() => remove(data.uid), data.expiresIn));
+      setTypers((prev) => [...prev.filter((t) => t.uid !== data.uid), data]);
+    };
+    const stopHandler = (data: { postId: string; uid: string }) => {
+      if (data.postId === postId) remove(data.uid);
+    };
+    const watch = () => { watchPost(postId); };
+
+    onTypingStart(startHandler);
+    onTypingStop(stopHandler);
+    getSocket().on("connect", watch);
+    if (getSocket().connected) watch();
+
+    return () => {
+      getSocket().off("connect", watch);
+      offTypingStart(startHandler);
+      offTypingStop(stopHandler);
+      timers.forEach((t) => clearTimeout(t));
+      unwatchPost(postId);
+    };
+  }, [postId]);
+
+  return { typers, label: typingLabel(typers.map((t) => t.displayName)) } as const;
+}
+
+// Throttled typing:start / typing:stop for a composer. Call notifyTyping on
+// every keystroke and stopTyping on submit or blur.
+export function useTypingNotifier(postId: string) {
+  const lastSent = useRef(0);
+  const idleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stopTyping = useCallback(() => {
+    if (idleTimer.current) clearTimeout(idleTimer.current);
+    idleTimer.current = null;
+    if (lastSent.current === 0) return;
+    lastSent.current = 0;
+    emitTypingStop(postId);
+  }, [postId]);
+
+  const notifyTyping = useCallback(() => {
+    if (!auth?.currentUser) return;
+    const now = Date.now();
+    if (now - lastSent.current >= RESEND_MS) {
+      lastSent.current = now;
+      emitTypingStart(postId);
+    }
+    if (idleTimer.current) clearTimeout(idleTimer.current);
+    idleTimer.current = setTimeout(stopTyping, IDLE_MS);
+  }, [postId, stopTyping]);
+
+  useEffect(() => stopTyping, [stopTyping]);
+
+  return { notifyTyping, stopTyping } as const;
+}
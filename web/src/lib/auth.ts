@@ -7,6 +7,8 @@ import {
 } from 'firebase/auth';
 import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
 
+// Merged on every sign-in, so it must not touch counters or follows: those
+// belong to the server (server/content.ts) and would be reset here.
 export async function ensureUserDoc(uid: string, displayName?: string | null, email?: string | null) {
   if (!db) return;
   const ref = doc(db, 'users', uid);
@@ -16,8 +18,6 @@ export async function ensureUserDoc(uid: string, displayName?: string | null, em
       displayName: displayName || email || 'User',
       email: email || null,
       createdAt: serverTimestamp(),
-      stats: { totalPosts: 0, totalComments: 0, totalVotes: 0 },
-      followedCommunities: [],
     },
     { merge: true }
   );
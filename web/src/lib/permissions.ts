@@ -0,0 +1,38 @@
+import type { User } from "firebase/auth";
+import { collectionGroup, doc, getDocs, limit, query, setDoc, where } from "firebase/firestore";
+import { db } from "./firebase";
+import { type CommunityRole, type GlobalRole, type MemberDoc, isGlobalRole } from "../../../shared/permissions";
+
+export {
+  can,
+  isCommunityRole,
+  roleIn,
+  type Action,
+  type Actor,
+  type CommunityRole,
+  type GlobalRole,
+  type Resource,
+} from "../../../shared/permissions";
+
+// The `role` custom claim. Claims only change on token refresh, so pass
+// forceRefresh after granting a role to see it without signing in again.
+export async function fetchGlobalRole(user: User, forceRefresh = false): Promise<GlobalRole | null> {
+  const { claims } = await user.getIdTokenResult(forceRefresh);
+  return isGlobalRole(claims.role) ? claims.role : null;
+}
+
+export function memberDoc(communityId: string, uid: string) {
+  return doc(db, "communities", communityId, "members", uid);
+}
+
+// Whether uid moderates or administers at least one community
+export async function hasCommunityStaffRole(uid: string): Promise<boolean> {
+  const q = query(collectionGroup(db, "members"), where("uid", "==", uid), where("role", "in", ["moderator", "admin"]), limit(1));
+  return !(await getDocs(q)).empty;
+}
+
+// Only community admins may do this (see firestore.rules)
+export function setCommunityRole(communityId: string, uid: string, role: CommunityRole): Promise<void> {
+  const data: MemberDoc = { uid, role };
+  return setDoc(memberDoc(communityId, uid), data);
+}
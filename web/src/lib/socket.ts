@@ -1,16 +1,63 @@
-import { io, Socket } from "socket.io-client";
+import { io, type Socket } from "socket.io-client";
+import type {
+  Ack,
+  AckError,
+  AckResult,
+  ClientToServerEvents,
+  CommentDeleted,
+  CreateCommentPayload,
+  CreatePostPayload,
+  CastPollVotePayload,
+  CastVotePayload,
+  DeleteAchievementRulePayload,
+  EndSeasonPayload,
+  FollowPayload,
+  PollBroadcast,
+  PollVote,
+  PollVotePayload,
+  PostDeleted,
+  PresenceMember,
+  ReactionRemoved,
+  ReactionUpdate,
+  ReplayCursor,
+  ReplayMeta,
+  ResolveVoteCasePayload,
+  RoomError,
+  SaveAchievementRulePayload,
+  ServerToClientEvents,
+  StartSeasonPayload,
+  ToggleReactionPayload,
+  TypingStart,
+  TypingStop,
+  UserActivity,
+  VoteUpdate,
+  WireComment,
+  WirePost,
+} from "../../../shared/socket-events";
+import type { AchievementRule } from "../../../shared/achievement-rules";
+import type { Season } from "../../../shared/seasons";
+
+export type { AckResult, PresenceMember, ReplayCursor } from "../../../shared/socket-events";
+
+// Typed against the contract the server uses (shared/socket-events.ts)
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL as string | undefined;
 
-let socket: Socket | null = null;
+let socket: AppSocket | null = null;
+
+// The realtime server also answers HTTP (poll results and exports)
+export function serverUrl(): string {
+  return SOCKET_URL ?? "http://localhost:4001";
+}
 
 export function hasSocketConfig(): boolean {
   return Boolean(SOCKET_URL);
 }
 
-export function getSocket(): Socket {
+export function getSocket(): AppSocket {
   if (!socket) {
-    const url = SOCKET_URL ?? "http://localhost:4000";
+    const url = serverUrl();
     // Only auto-connect if a URL is explicitly configured via env.
     // This prevents noisy websocket handshake errors when no server is running.
     const shouldAutoConnect = Boolean(SOCKET_URL);
@@ -24,10 +71,118 @@ export function getSocket(): Socket {
       transports: ["websocket", "polling"],
       withCredentials: true,
     });
+    trackReplay(socket);
+    socket.on("event:error", (err) => {
+      if (err?.error === "rate_limited") notifyRateLimited({ event: err.event, retryAfterMs: err.retryAfterMs });
+      else console.warn("Socket.io: server rejected", err?.event, err?.error);
+    });
   }
   return socket;
 }
 
+// The server refuses events over its per-user rate limits with rate_limited,
+// in the ack for requests and as event:error for fire-and-forget emits.
+// Both end up here so the UI can show one notice (see useRateLimitToasts).
+export interface RateLimitNotice {
+  event: string
+  retryAfterMs?: number
+}
+
+const rateLimitListeners = new Set<(notice: RateLimitNotice) => void>()
+
+function notifyRateLimited(notice: RateLimitNotice) {
+  rateLimitListeners.forEach((cb) => cb(notice))
+}
+
+export function onRateLimited(cb: (notice: RateLimitNotice) => void) {
+  rateLimitListeners.add(cb)
+}
+export function offRateLimited(cb: (notice: RateLimitNotice) => void) {
+  rateLimitListeners.delete(cb)
+}
+
+// Missed-event replay. Sequenced room events carry `{ room, seq, epoch }` as a
+// second argument; we remember the latest one per community. After a
+// reconnect the server has forgotten our rooms, so we re-join each one and
+// ask for everything after that cursor. Replayed events are dispatched to the
+// normal listeners; when the gap can't be filled, resync listeners are told
+// to reload from Firestore instead.
+const joinedCommunities = new Set<string>()
+const replayCursors = new Map<string, ReplayCursor>()
+// First live sequence seen per community while a replay is in flight;
+// anything from there on was delivered live and is not dispatched again.
+const liveFloors = new Map<string, number>()
+const resyncListeners = new Set<(communityId: string) => void>()
+
+function isReplayMeta(value: unknown): value is ReplayMeta {
+  const meta = value as ReplayMeta | undefined
+  return Boolean(meta && typeof meta.room === "string" && typeof meta.epoch === "string" && typeof meta.seq === "number")
+}
+
+function recordCursor(communityId: string, cursor: ReplayCursor) {
+  const current = replayCursors.get(communityId)
+  if (!current || current.epoch !== cursor.epoch || cursor.seq > current.seq) replayCursors.set(communityId, cursor)
+}
+
+function trackReplay(s: AppSocket) {
+  let connectedBefore = false
+  s.onAny((_event: string, _payload: unknown, meta?: unknown) => {
+    if (!isReplayMeta(meta) || !meta.room.startsWith("community:")) return
+    const communityId = meta.room.slice("community:".length)
+    if (liveFloors.has(communityId) && meta.seq < liveFloors.get(communityId)!) liveFloors.set(communityId, meta.seq)
+    recordCursor(communityId, { epoch: meta.epoch, seq: meta.seq })
+  })
+  s.on("connect", () => {
+    // Joins made before the first connect were buffered and sent on their own
+    if (!connectedBefore) {
+      connectedBefore = true
+      return
+    }
+    joinedCommunities.forEach((communityId) => {
+      replayMissed(s, communityId).catch((err) => console.warn("Socket.io: replay failed", communityId, err))
+    })
+  })
+}
+
+async function replayMissed(s: AppSocket, communityId: string) {
+  const cursor = replayCursors.get(communityId)
+  liveFloors.set(communityId, Infinity)
+  try {
+    const joined = await s.timeout(ACK_TIMEOUT_MS).emitWithAck("room:join", communityId)
+    if (!joined?.ok) return
+    if (!cursor) {
+      if (joined.replay) recordCursor(communityId, joined.replay)
+      return
+    }
+    const res = await s.timeout(ACK_TIMEOUT_MS).emitWithAck("replay:request", { communityId, epoch: cursor.epoch, lastSeq: cursor.seq })
+    if (!res?.ok) return
+    if (res.resync) {
+      replayCursors.set(communityId, { epoch: res.epoch ?? cursor.epoch, seq: res.seq ?? 0 })
+      resyncListeners.forEach((cb) => cb(communityId))
+      return
+    }
+    const floor = liveFloors.get(communityId) ?? Infinity
+    for (const entry of res.events ?? []) {
+      if (entry.seq >= floor) break
+      const meta: ReplayMeta = { room: `community:${communityId}`, epoch: res.epoch, seq: entry.seq }
+      // The entry's event and payload are only correlated at runtime
+      const listeners = s.listeners(entry.event) as ((payload: unknown, meta: ReplayMeta) => void)[]
+      listeners.forEach((listener) => listener(entry.payload, meta))
+      recordCursor(communityId, meta)
+    }
+  } finally {
+    liveFloors.delete(communityId)
+  }
+}
+
+// Called when missed events for a community could not be replayed.
+export function onReplayResync(cb: (communityId: string) => void) {
+  resyncListeners.add(cb)
+}
+export function offReplayResync(cb: (communityId: string) => void) {
+  resyncListeners.delete(cb)
+}
+
 // Manually connect when your Socket.io server is ready
 export function connectSocket(force = false) {
   if (!force && !hasSocketConfig()) {
@@ -46,8 +201,11 @@ export function connectSocketWithToken(token: string) {
   }
   const s = getSocket();
   // socket.io v4 auth payload
-  (s as any).auth = { token };
-  if (!s.connected) s.connect();
+  s.auth = { token };
+  // The server only reads the token during the handshake, so a socket that
+  // auto-connected anonymously has to reconnect to pick up the identity.
+  if (s.connected) s.disconnect();
+  s.connect();
 }
 
 export function onConnect(cb: () => void) {
@@ -58,28 +216,44 @@ export function onDisconnect(cb: (reason: string) => void) {
   getSocket().on("disconnect", cb);
 }
 
+type JoinAck = AckResult<{ replay: ReplayCursor }>;
+
+function onJoined(communityId: string, res: JoinAck) {
+  if (!res.ok) return;
+  joinedCommunities.add(communityId);
+  // Start from the room's current position unless we already follow it
+  if (res.replay && !replayCursors.has(communityId)) recordCursor(communityId, res.replay);
+}
+
 export function joinCommunity(communityId: string) {
-  getSocket().emit("room:join", communityId);
+  getSocket().emit("room:join", communityId, (res?: JoinAck) => {
+    if (res) onJoined(communityId, res);
+  });
 }
 
-export function joinCommunityAck(communityId: string): Promise<{ ok: boolean; error?: string }> {
+export function joinCommunityAck(communityId: string): Promise<AckResult> {
   return new Promise((resolve) => {
-    getSocket().emit("room:join", communityId, (res: any) => {
-      if (res && typeof res.ok === "boolean") return resolve(res);
+    getSocket().emit("room:join", communityId, (res: JoinAck | undefined) => {
+      if (res && typeof res.ok === "boolean") {
+        onJoined(communityId, res);
+        return resolve(res);
+      }
       resolve({ ok: false, error: "no-ack" });
     });
   });
 }
 
 export function leaveCommunity(communityId: string) {
+  joinedCommunities.delete(communityId);
+  replayCursors.delete(communityId);
   getSocket().emit("room:leave", communityId);
 }
 
-export function onNewPost(cb: (post: any) => void) {
+export function onNewPost(cb: (post: WirePost) => void) {
   getSocket().on("post:new", cb);
 }
 
-export function onNewComment(cb: (comment: any) => void) {
+export function onNewComment(cb: (comment: WireComment) => void) {
   getSocket().on("comment:new", cb);
 }
 
@@ -87,151 +261,275 @@ export function onNewComment(cb: (comment: any) => void) {
 export const onPostNew = onNewPost;
 export const onCommentNew = onNewComment;
 
-export function emit(event: string, payload?: unknown) {
-  getSocket().emit(event, payload);
+export function emit<E extends keyof ClientToServerEvents>(event: E, ...args: Parameters<ClientToServerEvents[E]>) {
+  getSocket().emit(event, ...args);
 }
 
 // Moderation helpers: posts
-export function emitPostDelete(payload: { postId: string; communityId: string }): Promise<{ ok: boolean; error?: string }> {
+export function emitPostDelete(payload: { postId: string; communityId: string }): Promise<AckResult> {
   return new Promise((resolve) => {
-    getSocket().emit('post:delete', payload, (res: any) => {
+    getSocket().emit('post:delete', payload, (res) => {
       if (res && typeof res.ok === 'boolean') return resolve(res)
       resolve({ ok: false, error: 'no-ack' })
     })
   })
 }
-export function onPostDeleted(cb: (data: { postId: string; communityId: string; by: string }) => void) {
+export function onPostDeleted(cb: (data: PostDeleted) => void) {
   getSocket().on('post:deleted', cb)
 }
-export function offPostDeleted(cb: (data: { postId: string; communityId: string; by: string }) => void) {
+export function offPostDeleted(cb: (data: PostDeleted) => void) {
   getSocket().off('post:deleted', cb)
 }
 
 // Moderation helpers: comments
-export function emitCommentDelete(payload: { commentId: string; communityId: string }): Promise<{ ok: boolean; error?: string }> {
+export function emitCommentDelete(payload: { commentId: string; communityId: string }): Promise<AckResult> {
   return new Promise((resolve) => {
-    getSocket().emit('comment:delete', payload, (res: any) => {
+    getSocket().emit('comment:delete', payload, (res) => {
       if (res && typeof res.ok === 'boolean') return resolve(res)
       resolve({ ok: false, error: 'no-ack' })
     })
   })
 }
-export function onCommentDeleted(cb: (data: { commentId: string; communityId: string; by: string }) => void) {
+export function onCommentDeleted(cb: (data: CommentDeleted) => void) {
   getSocket().on('comment:deleted', cb)
 }
-export function offCommentDeleted(cb: (data: { commentId: string; communityId: string; by: string }) => void) {
+export function offCommentDeleted(cb: (data: CommentDeleted) => void) {
   getSocket().off('comment:deleted', cb)
 }
 
 // Moderation helpers: reactions
-export function emitReactionRemove(payload: { targetId: string; targetType: 'post' | 'comment'; emoji: string; communityId: string }): Promise<{ ok: boolean; error?: string }> {
+export function emitReactionRemove(payload: { targetId: string; targetType: 'post' | 'comment'; emoji: string; communityId: string }): Promise<AckResult> {
   return new Promise((resolve) => {
-    getSocket().emit('reaction:remove', payload, (res: any) => {
+    getSocket().emit('reaction:remove', payload, (res) => {
       if (res && typeof res.ok === 'boolean') return resolve(res)
       resolve({ ok: false, error: 'no-ack' })
     })
   })
 }
-export function onReactionRemoved(cb: (data: { targetId: string; targetType: 'post' | 'comment'; emoji: string; communityId: string; by: string }) => void) {
+export function onReactionRemoved(cb: (data: ReactionRemoved) => void) {
   getSocket().on('reaction:removed', cb)
 }
-export function offReactionRemoved(cb: (data: { targetId: string; targetType: 'post' | 'comment'; emoji: string; communityId: string; by: string }) => void) {
+export function offReactionRemoved(cb: (data: ReactionRemoved) => void) {
   getSocket().off('reaction:removed', cb)
 }
 
-// Post and comment events
-export function emitNewPost(post: any) {
-  getSocket().emit('post:new', post)
+// Server-authoritative writes: the server validates, commits and broadcasts
+// the canonical post:new / comment:new / vote:update / reaction:update itself.
+const ACK_TIMEOUT_MS = 10000
+
+// Client events that take a payload and an ack
+type RequestEvent = {
+  [E in keyof ClientToServerEvents]: Parameters<ClientToServerEvents[E]> extends [unknown, Ack<never>] ? E : never
+}[keyof ClientToServerEvents]
+type RequestPayload<E extends RequestEvent> = Parameters<ClientToServerEvents[E]>[0]
+type RequestResult<E extends RequestEvent> = Parameters<Parameters<ClientToServerEvents[E]>[1]>[0]
+
+function request<E extends RequestEvent>(event: E, payload: RequestPayload<E>): Promise<RequestResult<E>> {
+  const failed = (error: AckError) => ({ ok: false, error }) as RequestResult<E>
+  if (!hasSocketConfig()) return Promise.resolve(failed('no-socket'))
+  // The contract can't narrow a generic event name, so emit on the untyped view
+  const s = getSocket() as unknown as Socket
+  return new Promise((resolve) => {
+    s.timeout(ACK_TIMEOUT_MS).emit(event, payload, (err: Error | null, res?: RequestResult<E>) => {
+      if (err) return resolve(failed('timeout'))
+      if (res?.error === 'rate_limited') notifyRateLimited({ event, retryAfterMs: res.retryAfterMs })
+      if (res && typeof res.ok === 'boolean') return resolve(res)
+      resolve(failed('no-ack'))
+    })
+  })
+}
+
+const ACK_ERROR_MESSAGES: Record<string, string> = {
+  'no-socket': 'Live server is not configured',
+  'timeout': 'The server did not respond, please try again',
+  'unauthenticated': 'You must be signed in',
+  'forbidden': 'You don’t have access to this community',
+  'invalid-payload': 'Some fields are missing or invalid',
+  'payload-too-large': 'That is too large to send',
+  'rate_limited': 'You’re doing that too often, please wait a moment',
+  'not-found': 'This content no longer exists',
+  'inactive': 'This community is no longer active',
+  'locked': 'This post is locked',
+  'too-deep': 'This thread is too deeply nested to reply to',
+  'closed': 'This poll is not accepting votes',
+  'already-voted': 'You have already voted in this poll',
+  'too-many-choices': 'You picked more options than this poll allows',
 }
 
-export function emitNewComment(comment: any) {
-  getSocket().emit('comment:new', comment)
+export function describeAckError(error?: string): string {
+  return (error && ACK_ERROR_MESSAGES[error]) || 'Something went wrong, please try again'
 }
 
-// Voting events
-export function emitVote(voteData: {
-  targetId: string;
-  targetType: 'post' | 'comment';
-  userId: string;
-  voteType: 'up' | 'down' | null;
-  newScore: number;
-  communityId?: string;
-}) {
-  getSocket().emit('vote:update', voteData)
+export function createPost(payload: CreatePostPayload): Promise<AckResult<{ post: WirePost }>> {
+  return request('post:create', payload)
 }
 
-export function onVoteUpdate(callback: (voteData: any) => void) {
+export function createComment(payload: CreateCommentPayload): Promise<AckResult<{ comment: WireComment }>> {
+  return request('comment:create', payload)
+}
+
+// voteType is the desired final state; null clears the caller's vote
+export function castVote(payload: CastVotePayload): Promise<AckResult<{ voteType: 'up' | 'down' | null; newScore: number }>> {
+  return request('vote:cast', payload)
+}
+
+export function onVoteUpdate(callback: (voteData: VoteUpdate) => void) {
   getSocket().on('vote:update', callback)
 }
 
 // Reaction events
-export function emitReaction(reactionData: {
-  targetId: string;
-  targetType: 'post' | 'comment';
-  userId: string;
-  emoji: string;
-  action: 'add' | 'remove';
-  communityId?: string;
-}) {
-  getSocket().emit('reaction:update', reactionData)
-}
-
-export function onReactionUpdate(callback: (reactionData: any) => void) {
+export function toggleReaction(payload: ToggleReactionPayload): Promise<AckResult<{ action: 'add' | 'remove'; reactions: Record<string, { count: number; users: string[] }> }>> {
+  return request('reaction:toggle', payload)
+}
+
+// follow is the desired final state
+export function setFollow(payload: FollowPayload): Promise<AckResult<{ following: boolean }>> {
+  return request('community:follow', payload)
+}
+
+// Community admins only; omit ruleId to create a rule
+export function saveAchievementRule(payload: SaveAchievementRulePayload): Promise<AckResult<{ rule: AchievementRule }>> {
+  return request('achievementRule:save', payload)
+}
+
+export function deleteAchievementRule(payload: DeleteAchievementRulePayload): Promise<AckResult> {
+  return request('achievementRule:delete', payload)
+}
+
+// Community moderators only
+export function startSeason(payload: StartSeasonPayload): Promise<AckResult<{ season: Season }>> {
+  return request('season:start', payload)
+}
+
+export function endSeason(payload: EndSeasonPayload): Promise<AckResult<{ season: Season }>> {
+  return request('season:end', payload)
+}
+
+// Community moderators only; dismissing pays the author the withheld points
+export function resolveVoteCase(payload: ResolveVoteCasePayload): Promise<AckResult<{ restored: number }>> {
+  return request('voteCase:resolve', payload)
+}
+
+export function onReactionUpdate(callback: (reactionData: ReactionUpdate) => void) {
   getSocket().on('reaction:update', callback)
 }
 
 // Off helpers for cleanup
-export function offNewPost(cb: (post: any) => void) {
+export function offNewPost(cb: (post: WirePost) => void) {
   getSocket().off('post:new', cb)
 }
-export function offNewComment(cb: (comment: any) => void) {
+export function offNewComment(cb: (comment: WireComment) => void) {
   getSocket().off('comment:new', cb)
 }
-export function offVoteUpdate(callback: (voteData: any) => void) {
+export function offVoteUpdate(callback: (voteData: VoteUpdate) => void) {
   getSocket().off('vote:update', callback)
 }
-export function offReactionUpdate(callback: (reactionData: any) => void) {
+export function offReactionUpdate(callback: (reactionData: ReactionUpdate) => void) {
   getSocket().off('reaction:update', callback)
 }
-export function offNewPoll(callback: (poll: any) => void) {
+export function offNewPoll(callback: (poll: PollBroadcast) => void) {
   getSocket().off('poll:new', callback)
 }
-export function offPollVote(callback: (voteData: any) => void) {
+export function offPollVote(callback: (voteData: PollVote) => void) {
   getSocket().off('poll:vote', callback)
 }
 
 // Room-level errors (e.g., join denied)
-export function onRoomError(callback: (err: any) => void) {
+export function onRoomError(callback: (err: RoomError) => void) {
   getSocket().on('room:error', callback)
 }
-export function offRoomError(callback: (err: any) => void) {
+export function offRoomError(callback: (err: RoomError) => void) {
   getSocket().off('room:error', callback)
 }
 
-// Poll events
-export function emitPoll(pollData: any) {
-  getSocket().emit('poll:new', pollData)
+// Presence: who is online in a community room
+
+export function onPresenceSnapshot(cb: (data: { communityId: string; members: PresenceMember[] }) => void) {
+  getSocket().on('presence:snapshot', cb)
+}
+export function offPresenceSnapshot(cb: (data: { communityId: string; members: PresenceMember[] }) => void) {
+  getSocket().off('presence:snapshot', cb)
+}
+export function onPresenceJoin(cb: (data: { communityId: string; member: PresenceMember }) => void) {
+  getSocket().on('presence:join', cb)
+}
+export function offPresenceJoin(cb: (data: { communityId: string; member: PresenceMember }) => void) {
+  getSocket().off('presence:join', cb)
+}
+export function onPresenceLeave(cb: (data: { communityId: string; uid: string }) => void) {
+  getSocket().on('presence:leave', cb)
+}
+export function offPresenceLeave(cb: (data: { communityId: string; uid: string }) => void) {
+  getSocket().off('presence:leave', cb)
+}
+
+export function sendPresenceHeartbeat() {
+  getSocket().emit('presence:heartbeat')
+}
+
+export function requestPresence(communityId: string): Promise<AckResult<{ members: PresenceMember[] }>> {
+  return request('presence:get', communityId)
+}
+
+export function requestPresenceCounts(communityIds: string[]): Promise<AckResult<{ counts: Record<string, number> }>> {
+  return request('presence:counts', communityIds)
+}
+
+// Typing indicators, scoped to post:{postId} sub-rooms joined via post:watch.
+// The server stamps uid/displayName from the authenticated socket. Typing
+// cues are volatile: stale ones are dropped rather than replayed on reconnect.
+export type TypingUser = TypingStart
+
+export function watchPost(postId: string): Promise<AckResult> {
+  return request('post:watch', postId)
+}
+export function unwatchPost(postId: string) {
+  getSocket().emit('post:unwatch', postId)
+}
+export function emitTypingStart(postId: string) {
+  getSocket().volatile.emit('typing:start', { postId })
+}
+export function emitTypingStop(postId: string) {
+  getSocket().volatile.emit('typing:stop', { postId })
+}
+export function onTypingStart(cb: (data: TypingUser) => void) {
+  getSocket().on('typing:start', cb)
+}
+export function offTypingStart(cb: (data: TypingUser) => void) {
+  getSocket().off('typing:start', cb)
+}
+export function onTypingStop(cb: (data: TypingStop) => void) {
+  getSocket().on('typing:stop', cb)
+}
+export function offTypingStop(cb: (data: TypingStop) => void) {
+  getSocket().off('typing:stop', cb)
+}
+
+// Poll events. Single and multiple choice votes are recorded by the server,
+// which relays poll:vote itself. emitPoll and emitPollVote name what the
+// client just wrote; the server relays it as stored.
+export function castPollVote(payload: CastPollVotePayload): Promise<AckResult> {
+  return request('poll:cast', payload)
+}
+
+export function emitPoll(pollId: string) {
+  getSocket().emit('poll:new', { id: pollId })
 }
 
-export function emitPollVote(voteData: {
-  pollId: string;
-  userId: string;
-  optionId: string;
-  communityId?: string;
-}) {
+export function emitPollVote(voteData: PollVotePayload) {
   getSocket().emit('poll:vote', voteData)
 }
 
-export function onNewPoll(callback: (poll: any) => void) {
+export function onNewPoll(callback: (poll: PollBroadcast) => void) {
   getSocket().on('poll:new', callback)
 }
 
-export function onPollVote(callback: (voteData: any) => void) {
+export function onPollVote(callback: (voteData: PollVote) => void) {
   getSocket().on('poll:vote', callback)
 }
 
 // User activity events
-export function onUserActivity(callback: (activity: any) => void) {
+export function onUserActivity(callback: (activity: UserActivity) => void) {
   getSocket().on('user:activity', callback)
 }
 
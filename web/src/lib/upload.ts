@@ -1,5 +1,5 @@
 import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
-import { storage } from './firebase';
+import { auth, storage } from './firebase';
 
 export interface UploadProgress {
   progress: number;
@@ -7,9 +7,18 @@ export interface UploadProgress {
   totalBytes: number;
 }
 
+// Where uploads may go and what they may be. storage.rules enforces the same
+// limits under {kind}/{uid}/, so keep the two in sync.
+export type UploadKind = 'avatars' | 'posts';
+
+export const UPLOAD_LIMITS: Record<UploadKind, { maxSize: number; allowedTypes: string[] }> = {
+  avatars: { maxSize: 5, allowedTypes: ['image/'] },
+  posts: { maxSize: 10, allowedTypes: ['image/', 'video/'] },
+};
+
 export function uploadFile(
   file: File, 
-  path: string, 
+  kind: UploadKind, 
   onProgress?: (progress: UploadProgress) => void
 ): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -17,6 +26,16 @@ export function uploadFile(
       reject(new Error('Firebase Storage not initialized'));
       return;
     }
+    const uid = auth.currentUser?.uid;
+    if (!uid) {
+      reject(new Error('You must be signed in to upload files'));
+      return;
+    }
+    const validation = validateFile(file, UPLOAD_LIMITS[kind]);
+    if (!validation.valid) {
+      reject(new Error(validation.error));
+      return;
+    }
 
     // Generate unique filename
     const timestamp = Date.now();
@@ -24,7 +43,7 @@ export function uploadFile(
     const fileExtension = file.name.split('.').pop();
     const fileName = `${timestamp}_${randomString}.${fileExtension}`;
     
-    const storageRef = ref(storage, `${path}/${fileName}`);
+    const storageRef = ref(storage, `${kind}/${uid}/${fileName}`);
     const uploadTask = uploadBytesResumable(storageRef, file);
 
     uploadTask.on(
@@ -55,11 +74,11 @@ export function uploadFile(
 
 export function uploadMultipleFiles(
   files: File[],
-  path: string,
+  kind: UploadKind,
   onProgress?: (fileIndex: number, progress: UploadProgress) => void
 ): Promise<string[]> {
   const uploadPromises = files.map((file, index) =>
-    uploadFile(file, path, (progress) => onProgress?.(index, progress))
+    uploadFile(file, kind, (progress) => onProgress?.(index, progress))
   );
   
   return Promise.all(uploadPromises);
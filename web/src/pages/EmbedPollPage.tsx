@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  connectSocket,
+  joinCommunity,
+  leaveCommunity,
+  offPollVote,
+  offReplayResync,
+  onPollVote,
+  onReplayResync
+} from '../lib/socket';
+import { RunoffResults } from '../features/polls/RankedChoice';
+import { errorMessage, fetchPollResults } from '../features/polls/pollService';
+import { resultOptions, type PublicPollResults } from '../../../shared/poll-export';
+import type { PollVote } from '../../../shared/socket-events';
+
+// poll:vote names one option per ballot, which is not enough to tally
+// multiple-choice or ranked polls; each one triggers a refetch instead, at
+// most this often.
+const REFRESH_MS = 1000;
+
+// /embed/poll/:pollId: read-only live results, rendered without the app's
+// navigation so organizers can put it in an iframe. Works signed out.
+export default function EmbedPollPage() {
+  const { pollId } = useParams<{ pollId: string }>();
+  const [data, setData] = useState<PublicPollResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const communityId = data?.poll.communityId ?? undefined;
+
+  useEffect(() => {
+    if (!pollId) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = () => fetchPollResults(pollId)
+      .then(results => {
+        if (cancelled) return;
+        setData(results);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(errorMessage(err));
+      });
+
+    const handleVote = (vote: PollVote) => {
+      if (vote.pollId !== pollId || timer) return;
+      timer = setTimeout(() => {
+        timer = undefined;
+        load();
+      }, REFRESH_MS);
+    };
+    // Votes missed while disconnected could not be replayed
+    const handleResync = () => load();
+
+    load();
+    connectSocket();
+    onPollVote(handleVote);
+    onReplayResync(handleResync);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      offPollVote(handleVote);
+      offReplayResync(handleResync);
+    };
+  }, [pollId]);
+
+  // Votes on community polls are only sent to the community's room
+  useEffect(() => {
+    if (!communityId) return;
+    joinCommunity(communityId);
+    return () => leaveCommunity(communityId);
+  }, [communityId]);
+
+  if (error && !data) {
+    return <div className="p-4 text-sm text-gray-600">{error}</div>;
+  }
+  if (!data) {
+    return (
+      <div className="p-4 animate-pulse space-y-3">
+        <div className="bg-gray-200 h-6 w-2/3 rounded"></div>
+        <div className="bg-gray-200 h-10 rounded"></div>
+        <div className="bg-gray-200 h-10 rounded"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-white min-h-screen">
+      <EmbeddedResults data={data} />
+    </div>
+  );
+}
+
+function EmbeddedResults({ data }: { data: PublicPollResults }) {
+  const { poll, results } = data;
+  const rows = useMemo(() => results ? resultOptions(data.options, results) : [], [data.options, results]);
+  const open = poll.status === 'active' && !data.final;
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div>
+          <h1 className="text-lg font-semibold text-gray-900">{poll.title}</h1>
+          {poll.description && <p className="text-sm text-gray-600 mt-1">{poll.description}</p>}
+        </div>
+        <span className={`shrink-0 px-2 py-1 text-xs font-semibold rounded-full ${
+          open ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+        }`}>
+          {open ? '● Live' : poll.status}
+        </span>
+      </div>
+
+      {!results ? (
+        <p className="text-sm text-gray-500">
+          {poll.status === 'draft' ? 'This poll has not opened yet.' : 'Results will be shown when the poll closes.'}
+        </p>
+      ) : poll.type === 'ranked' ? (
+        <RunoffResults
+          pollId={poll.id}
+          options={data.options.map(o => ({ ...o, votes: 0, voters: [] }))}
+          final={results}
+        />
+      ) : (
+        <div className="space-y-2">
+          {rows.map(option => (
+            <div key={option.id} className="relative overflow-hidden rounded-lg border border-gray-200 p-3">
+              <div
+                className={`absolute inset-0 ${option.id === results.winner ? 'bg-green-500' : 'bg-blue-500'} opacity-20`}
+                style={{ width: `${option.percentage}%` }}
+              ></div>
+              <div className="relative flex items-center justify-between gap-3 text-sm">
+                <span className="font-medium text-gray-900">{option.text}</span>
+                <span className="text-gray-600 whitespace-nowrap">{option.votes} ({option.percentage.toFixed(1)}%)</span>
+              </div>
+            </div>
+          ))}
+          {results.clusters?.map(cluster => (
+            <div key={cluster.label} className="flex items-center justify-between rounded-lg border border-gray-200 p-3 text-sm">
+              <span className="text-gray-900">{cluster.label}</span>
+              <span className="text-gray-600">{cluster.count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="mt-4 text-xs text-gray-500">
+        {poll.totalVotes} vote{poll.totalVotes !== 1 ? 's' : ''}
+        {data.final && poll.endedAt && ` • closed ${new Date(poll.endedAt).toLocaleString()}`}
+      </p>
+    </div>
+  );
+}
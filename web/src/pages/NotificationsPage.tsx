@@ -9,7 +9,7 @@ import PageAlert from '../components/PageAlert';
 interface Notification {
   id: string;
   userId: string;
-  type: 'comment' | 'reaction' | 'follow' | 'mention' | 'achievement' | 'poll' | 'post';
+  type: 'comment' | 'reaction' | 'follow' | 'mention' | 'achievement' | 'poll' | 'post' | 'streak';
   title: string;
   message: string;
   data: {
@@ -80,6 +80,8 @@ export default function NotificationsPage() {
         return '📊';
       case 'post':
         return '📝';
+      case 'streak':
+        return '🔥';
       default:
         return '🔔';
     }
@@ -101,6 +103,8 @@ export default function NotificationsPage() {
         return 'text-indigo-600 bg-indigo-50 border-indigo-200';
       case 'post':
         return 'text-gray-600 bg-gray-50 border-gray-200';
+      case 'streak':
+        return 'text-red-600 bg-red-50 border-red-200';
       default:
         return 'text-gray-600 bg-gray-50 border-gray-200';
     }
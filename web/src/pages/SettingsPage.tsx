@@ -13,6 +13,7 @@ interface UserSettings {
     follows: boolean;
     mentions: boolean;
     achievements: boolean;
+    streaks: boolean;
     polls: boolean;
     posts: boolean;
   };
@@ -40,6 +41,7 @@ const defaultSettings: UserSettings = {
     follows: true,
     mentions: true,
     achievements: true,
+    streaks: true,
     polls: true,
     posts: true
   },
@@ -52,12 +54,19 @@ const defaultSettings: UserSettings = {
   preferences: {
     theme: 'light',
     language: 'en',
-    timezone: 'UTC',
+    // Streaks count days in this zone; until the user saves one the server uses UTC
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
     showRecommendations: true,
     feedSortBy: 'relevance'
   }
 };
 
+// Every zone the browser knows, with the current one kept even if it does not
+function timeZones(current: string): string[] {
+  const zones = Intl.supportedValuesOf('timeZone');
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
 export default function SettingsPage() {
   const { user } = useAuth();
   const [settings, setSettings] = useState<UserSettings>(defaultSettings);
@@ -235,6 +244,7 @@ export default function SettingsPage() {
                           { key: 'follows', label: 'New followers', icon: '👥' },
                           { key: 'mentions', label: 'Mentions in posts/comments', icon: '📢' },
                           { key: 'achievements', label: 'Achievement unlocked', icon: '🏆' },
+                          { key: 'streaks', label: 'Streak about to end', icon: '🔥' },
                           { key: 'polls', label: 'New polls in communities', icon: '📊' },
                           { key: 'posts', label: 'New posts in followed communities', icon: '📝' }
                         ].map(item => (
@@ -332,6 +342,22 @@ export default function SettingsPage() {
                       </select>
                     </div>
 
+                    <div>
+                      <label className="block text-sm font-medium text-gray-900 mb-2">
+                        Time Zone
+                      </label>
+                      <select
+                        value={settings.preferences.timezone}
+                        onChange={(e) => updateSettings('preferences', 'timezone', e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {timeZones(settings.preferences.timezone).map(zone => (
+                          <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">Your activity streak counts days in this time zone.</p>
+                    </div>
+
                     <div>
                       <label className="block text-sm font-medium text-gray-900 mb-2">
                         Default Feed Sort
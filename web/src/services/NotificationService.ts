@@ -1,14 +1,14 @@
 import { useState, useEffect } from 'react';
 import { getMessaging, getToken, onMessage } from 'firebase/messaging';
 import type { MessagePayload } from 'firebase/messaging';
-import { app } from '../lib/firebase';
+import { app, auth } from '../lib/firebase';
 import { doc, updateDoc, arrayUnion, addDoc, collection } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 
 export interface NotificationPayload {
   id?: string;
   userId: string;
-  type: 'comment' | 'reaction' | 'follow' | 'mention' | 'achievement' | 'poll' | 'post';
+  type: 'comment' | 'reaction' | 'follow' | 'mention' | 'achievement' | 'poll' | 'post' | 'streak';
   title: string;
   message: string;
   data: {
@@ -132,13 +132,16 @@ export class NotificationService {
     setTimeout(() => notification.close(), 5000);
   }
 
-  // Create in-app notification
+  // Create in-app notification, from the signed-in user. Achievement, poll
+  // and streak notifications are sent by the realtime server instead.
   async createNotification(notification: Omit<NotificationPayload, 'id' | 'createdAt'>): Promise<void> {
-    if (!db) return;
+    const actorId = auth.currentUser?.uid;
+    if (!db || !actorId) return;
 
     try {
       await addDoc(collection(db, 'notifications'), {
         ...notification,
+        actorId,
         createdAt: new Date()
       });
     } catch (error) {
@@ -267,24 +270,6 @@ export class NotificationService {
     );
   }
 
-  async notifyAchievementUnlocked(
-    userId: string,
-    achievementName: string,
-    points: number
-  ): Promise<void> {
-    await this.sendNotificationToUser(
-      userId,
-      'achievement',
-      'Achievement Unlocked!',
-      `You earned "${achievementName}" (+${points} points)`,
-      {
-        targetId: achievementName,
-        targetType: 'achievement',
-        actionUrl: '/profile#achievements'
-      }
-    );
-  }
-
   async notifyNewPoll(
     communityId: string,
     communityName: string,
@@ -4,4 +4,6 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // ../shared holds code used by both the app and the realtime server
+  server: { fs: { allow: ['..'] } },
 })